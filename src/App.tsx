@@ -3,16 +3,25 @@ import { Header } from "./components/Header";
 import { PhotoUploader } from "./components/PhotoUploader";
 import { ProcessingView } from "./components/ProcessingView";
 import { ErrorBoundary } from "./components/ErrorBoundary";
-import { ErrorDisplay } from "./components/ErrorDisplay";
+import { ErrorDisplay, type RecoveryAction } from "./components/ErrorDisplay";
 import { useAppState } from "./hooks/useAppState";
 import "./styles/index.css";
 
 import { TutorialModal } from "./components/TutorialModal";
+import { ModelManagerPanel } from "./components/ModelManagerPanel";
+import { ResumeBanner } from "./components/ResumeBanner";
+import { BenchmarkPanel } from "./components/BenchmarkPanel";
 
 const Viewer3D = lazy(() =>
   import("./components/Viewer3D").then((m) => ({ default: m.Viewer3D })),
 );
 
+const LithophanePanel = lazy(() =>
+  import("./components/LithophanePanel").then((m) => ({
+    default: m.LithophanePanel,
+  })),
+);
+
 function ViewerSkeleton() {
   return (
     <div className="loading-skeleton">
@@ -27,11 +36,59 @@ export default function App() {
     state,
     dispatch,
     addPhotos,
+    attachDepth,
     startProcessing,
     cancelProcessing,
+    retryPhoto,
+    skipPhoto,
+    skipFailedPhotos,
+    resumableRun,
+    resumeProcessing,
+    dismissResume,
   } = useAppState();
 
   const [showTutorial, setShowTutorial] = useState(false);
+  const [showModels, setShowModels] = useState(false);
+  const [showBenchmark, setShowBenchmark] = useState(false);
+  const [showLithophane, setShowLithophane] = useState(false);
+
+  const clearError = () => dispatch({ type: "SET_ERROR", error: null });
+
+  const handleRecover = (action: RecoveryAction) => {
+    switch (action) {
+      case "retry":
+        startProcessing(state.qualitySettings.modelSize);
+        break;
+      case "open-models":
+        setShowModels(true);
+        break;
+      case "reduce-quality":
+        dispatch({
+          type: "SET_QUALITY",
+          settings: {
+            maxResolution: Math.max(
+              512,
+              Math.round(state.qualitySettings.maxResolution / 2),
+            ),
+            tileGrid: 1,
+            enableTTA: false,
+          },
+        });
+        break;
+      case "remove-photo":
+        if (state.error?.details?.photoId) {
+          dispatch({
+            type: "REMOVE_PHOTO",
+            id: String(state.error.details.photoId),
+          });
+        }
+        break;
+      case "reload":
+        window.location.reload();
+        return;
+    }
+    clearError();
+  };
 
   // Auto-show tutorial on first visit
   useEffect(() => {
@@ -47,12 +104,17 @@ export default function App() {
       {state.error && (
         <ErrorDisplay
           error={state.error}
-          onClear={() => dispatch({ type: "SET_ERROR", error: null })}
+          canRetry={state.step === "upload" && state.photos.length > 0}
+          onClear={clearError}
+          onRecover={handleRecover}
         />
       )}
       <Header
         currentStep={state.step}
         onOpenTutorial={() => setShowTutorial(true)}
+        onOpenModels={() => setShowModels(true)}
+        onOpenBenchmark={() => setShowBenchmark(true)}
+        onOpenLithophane={() => setShowLithophane(true)}
       />
 
       <TutorialModal
@@ -60,13 +122,60 @@ export default function App() {
         onClose={() => setShowTutorial(false)}
       />
 
+      <ModelManagerPanel
+        isOpen={showModels}
+        onClose={() => setShowModels(false)}
+        modelSource={state.qualitySettings.modelSource}
+        modelDtype={state.qualitySettings.modelDtype}
+        onModelSourceChange={(modelSource) =>
+          dispatch({ type: "SET_QUALITY", settings: { modelSource } })
+        }
+      />
+
+      <BenchmarkPanel
+        isOpen={showBenchmark}
+        onClose={() => setShowBenchmark(false)}
+        modelSource={state.qualitySettings.modelSource}
+        modelDtype={state.qualitySettings.modelDtype}
+        onApply={(settings) => {
+          dispatch({ type: "SET_QUALITY", settings });
+          setShowBenchmark(false);
+        }}
+      />
+
+      {showLithophane && (
+        <Suspense fallback={null}>
+          <LithophanePanel
+            onClose={() => setShowLithophane(false)}
+            photos={state.photos}
+            meshes={state.meshes}
+          />
+        </Suspense>
+      )}
+
       <main className="flex-1 w-full max-w-7xl mx-auto px-4 py-6 md:px-8 md:py-10">
+        {state.step === "upload" && resumableRun && (
+          <ResumeBanner
+            run={resumableRun}
+            onResume={resumeProcessing}
+            onDismiss={dismissResume}
+          />
+        )}
+
         {state.step === "upload" && (
           <PhotoUploader
             photos={state.photos}
             onAddPhotos={addPhotos}
             onRemovePhoto={(id) => dispatch({ type: "REMOVE_PHOTO", id })}
+            onAttachDepth={attachDepth}
+            onRemoveDepth={(id) =>
+              dispatch({ type: "SET_PHOTO_DEPTH", id, depth: null })
+            }
             onProcess={startProcessing}
+            settings={state.qualitySettings}
+            onSettingsChange={(settings) =>
+              dispatch({ type: "SET_QUALITY", settings })
+            }
           />
         )}
 
@@ -74,6 +183,10 @@ export default function App() {
           <ProcessingView
             progress={state.progress}
             onCancel={cancelProcessing}
+            photoErrors={state.photoErrors}
+            onRetryPhoto={retryPhoto}
+            onSkipPhoto={skipPhoto}
+            onSkipFailed={skipFailedPhotos}
           />
         )}
 
@@ -87,6 +200,7 @@ export default function App() {
                 depthScale={state.depthScale}
                 selectedMeshIndex={state.selectedMeshIndex}
                 qualitySettings={state.qualitySettings}
+                timingReport={state.timingReport}
                 dispatch={dispatch}
                 onNewProject={() => dispatch({ type: "RESET" })}
               />
@@ -0,0 +1,286 @@
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import type {
+  ModelDtype,
+  ModelSize,
+  ModelSource,
+  QualitySettings,
+} from "../types";
+import {
+  BENCHMARK_RESOLUTIONS,
+  recommendSettings,
+  runBenchmark,
+  type BenchmarkReport,
+} from "../engine/Benchmark";
+import { exportBenchmarkReport } from "../engine/Exporter";
+import { isAbortError } from "../engine/Abort";
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  modelSource: ModelSource;
+  modelDtype: ModelDtype;
+  onApply: (settings: Partial<QualitySettings>) => void;
+}
+
+const SIZE_OPTIONS: { value: ModelSize; label: string }[] = [
+  { value: "small", label: "Small" },
+  { value: "base", label: "Base" },
+  { value: "large", label: "Large" },
+];
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function formatMB(bytes?: number): string {
+  return bytes === undefined ? "—" : `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+/**
+ * Measures the pipeline on synthetic photos for each model size,
+ * resolution and device, and offers the best-fitting settings.
+ */
+export function BenchmarkPanel({
+  isOpen,
+  onClose,
+  modelSource,
+  modelDtype,
+  onApply,
+}: Props) {
+  const [sizes, setSizes] = useState<ModelSize[]>(["small"]);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+    label: string;
+  } | null>(null);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running benchmark when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  async function handleRun() {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReport(null);
+    setError(null);
+    setProgress({ done: 0, total: 0, label: "Hazırlanıyor..." });
+    try {
+      setReport(
+        await runBenchmark({
+          modelSizes: sizes,
+          dtype: modelDtype,
+          modelSource,
+          signal: controller.signal,
+          onProgress: (done, total, label) =>
+            setProgress({ done, total, label }),
+        }),
+      );
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  const toggleSize = (size: ModelSize) =>
+    setSizes((prev) =>
+      prev.includes(size) ? prev.filter((s) => s !== size) : [...prev, size],
+    );
+
+  if (!isOpen) return null;
+
+  const running = progress !== null;
+  const recommendation = report && recommendSettings(report);
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="relative w-full max-w-2xl max-h-[90vh] flex flex-col bg-surface border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 bg-base/50 flex justify-between items-center">
+          <h2 className="text-xl font-display font-bold text-white flex items-center gap-2">
+            <span>⏱️</span> Performans Testi
+          </h2>
+          <button
+            onClick={() => {
+              abortRef.current?.abort();
+              onClose();
+            }}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-xs text-gray-400">
+            Hazır sentetik fotoğraflar her model boyutu, çözünürlük (
+            {BENCHMARK_RESOLUTIONS.join(" / ")} px) ve bu cihazdaki her
+            hesaplama birimi ile işlenir. İndirilmemiş modeller test sırasında
+            indirilir.
+          </p>
+
+          <div>
+            <h3 className="text-sm text-gray-300 mb-2">Model boyutları</h3>
+            <div className="flex gap-1 p-1 rounded-xl bg-base/60 border border-white/5 w-fit">
+              {SIZE_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  type="button"
+                  disabled={running}
+                  onClick={() => toggleSize(opt.value)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 disabled:opacity-50
+                    ${
+                      sizes.includes(opt.value)
+                        ? "bg-primary/20 text-primary border border-primary/30"
+                        : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                    }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {running ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-gray-400 font-mono">
+                <span className="truncate">{progress.label}</span>
+                <span>
+                  {progress.done}/{progress.total}
+                </span>
+              </div>
+              <div className="h-1 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all duration-200"
+                  style={{
+                    width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%`,
+                  }}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 py-1.5 rounded-lg text-xs text-danger bg-danger/10 hover:bg-danger/20 transition-colors"
+              >
+                Durdur
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              disabled={sizes.length === 0}
+              onClick={handleRun}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-primary/20 text-primary border border-primary/30 hover:bg-primary/30 disabled:opacity-40 transition-colors"
+            >
+              Testi başlat
+            </button>
+          )}
+
+          {error && <p className="text-xs text-danger">{error}</p>}
+
+          {report && (
+            <div className="space-y-3">
+              <table className="w-full text-xs font-mono">
+                <thead className="text-gray-500 text-left">
+                  <tr>
+                    <th className="py-1">Model</th>
+                    <th>Çözünürlük</th>
+                    <th>Birim</th>
+                    <th>Derinlik</th>
+                    <th>Mesh</th>
+                    <th>Bellek</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {report.results.map((r) => (
+                    <tr
+                      key={`${r.device}:${r.modelSize}:${r.maxResolution}`}
+                      className={
+                        r === recommendation?.basis ? "text-primary" : ""
+                      }
+                    >
+                      <td className="py-1">{r.modelSize}</td>
+                      <td>{r.maxResolution}px</td>
+                      <td>{r.device}</td>
+                      {r.error ? (
+                        <td
+                          colSpan={3}
+                          className="text-danger truncate max-w-[12rem]"
+                          title={r.error.message}
+                        >
+                          {r.error.code}
+                        </td>
+                      ) : (
+                        <>
+                          <td>{formatMs(r.depthMs)}</td>
+                          <td>{formatMs(r.meshMs)}</td>
+                          <td
+                            title={`Model tahmini: ${formatMB(r.estimatedModelBytes)}`}
+                          >
+                            {formatMB(r.peakHeapBytes)}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {recommendation ? (
+                <div className="rounded-xl border border-primary/20 bg-primary/5 p-3 flex items-center gap-3">
+                  <div className="flex-1 text-xs text-gray-300">
+                    Önerilen: <b>{recommendation.settings.modelSize}</b>,{" "}
+                    {recommendation.settings.maxResolution}px
+                    {recommendation.settings.enableTTA && ", TTA açık"} —
+                    fotoğraf başına ~{recommendation.secondsPerPhoto.toFixed(1)}
+                    s
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onApply(recommendation.settings)}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/20 text-primary border border-primary/30 hover:bg-primary/30 transition-colors"
+                  >
+                    Uygula
+                  </button>
+                </div>
+              ) : (
+                <p className="text-xs text-warning">
+                  Hiçbir kombinasyon tamamlanamadı.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {report && (
+          <div className="p-4 bg-base/50 border-t border-white/5 flex justify-between items-center text-xs text-gray-500">
+            <span>
+              Süre:{" "}
+              <span className="font-mono text-gray-300">
+                {formatMs(report.totalMs)}
+              </span>
+              {report.deviceMemoryGB && ` • ${report.deviceMemoryGB} GB RAM`}
+              {` • ${report.hardwareConcurrency} çekirdek`}
+            </span>
+            <button
+              type="button"
+              onClick={() => exportBenchmarkReport(report)}
+              className="px-2 py-1 rounded-md bg-white/5 text-gray-300 hover:bg-white/10 transition-colors"
+            >
+              JSON indir
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -6,9 +6,13 @@ import {
   LinearMipmapLinearFilter,
   LinearFilter,
   Vector2,
+  BufferAttribute,
+  BufferGeometry,
+  Float32BufferAttribute,
 } from "three";
 import type { Texture, Mesh as ThreeMesh, Points as ThreePoints } from "three";
 import { useLoader, useThree } from "@react-three/fiber";
+import { Detailed } from "@react-three/drei";
 import type { ProcessedMesh, ViewMode } from "../types";
 
 interface Props {
@@ -21,8 +25,17 @@ interface Props {
   metalness?: number;
   normalMap?: Texture | null;
   depthScale?: number;
+  /**
+   * Scales the camera distances at which coarser levels of detail take
+   * over; below 1 switches to them sooner
+   */
+  lodBias?: number;
 }
 
+// Camera distances, in bounding-sphere radii, at which each level of detail
+// takes over from the finer one
+const LOD_DISTANCES = [0, 3, 6, 12];
+
 export function DepthMesh({
   mesh,
   viewMode,
@@ -33,6 +46,7 @@ export function DepthMesh({
   metalness = 0.1,
   normalMap = null,
   depthScale,
+  lodBias = 1,
 }: Props) {
   const meshRef = useRef<ThreeMesh | ThreePoints>(null);
   const { gl } = useThree();
@@ -50,6 +64,34 @@ export function DepthMesh({
     }
   }, [texture, gl]);
 
+  // Confidence view: shares the mesh's buffers, colors come from confidence
+  const confidenceGeometry = useMemo(() => {
+    if (viewMode !== "confidence") return null;
+    return buildConfidenceGeometry(mesh.geometry);
+  }, [viewMode, mesh.geometry]);
+
+  useEffect(() => () => confidenceGeometry?.dispose(), [confidenceGeometry]);
+
+  const geometry = confidenceGeometry ?? mesh.geometry;
+
+  // Coarser levels share the displayed geometry's buffers, each with its
+  // own index
+  const levels = useMemo(
+    () => [
+      geometry,
+      ...(mesh.lods ?? []).map((index) => withIndex(geometry, index)),
+    ],
+    [geometry, mesh.lods],
+  );
+
+  useEffect(() => () => levels.slice(1).forEach((g) => g.dispose()), [levels]);
+
+  const lodDistances = useMemo(() => {
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+    const radius = geometry.boundingSphere?.radius ?? 1;
+    return LOD_DISTANCES.map((d) => d * radius * lodBias);
+  }, [geometry, lodBias]);
+
   const materialProps = useMemo(() => {
     switch (viewMode) {
       case "textured":
@@ -71,6 +113,16 @@ export function DepthMesh({
           roughness: 0.5,
           metalness: 0.2,
         };
+      case "confidence":
+        return {
+          type: "standard" as const,
+          map: undefined as Texture | undefined,
+          normalMap: undefined as Texture | undefined,
+          vertexColors: true,
+          side: DoubleSide,
+          roughness: 0.8,
+          metalness: 0,
+        };
       case "wireframe":
         return {
           type: "basic" as const,
@@ -84,20 +136,27 @@ export function DepthMesh({
 
   const normalScaleVec = useMemo(() => new Vector2(0.8, 0.8), []);
 
+  // Lets exporters find the depth surfaces and the camera they came from
+  const userData = useMemo(
+    () => ({ depthSurface: true, camera: mesh.camera }),
+    [mesh.camera],
+  );
+
   if (isPointCloud) {
     return (
       <points
         ref={meshRef}
-        geometry={mesh.geometry}
+        geometry={geometry}
         position={position}
+        userData={userData}
         castShadow
         receiveShadow
       >
         <pointsMaterial
-          map={texture}
+          map={confidenceGeometry ? undefined : texture}
           size={pointSize}
           sizeAttenuation={true}
-          vertexColors={false}
+          vertexColors={confidenceGeometry !== null}
           transparent={true}
           opacity={0.9}
         />
@@ -105,35 +164,97 @@ export function DepthMesh({
     );
   }
 
+  const material =
+    materialProps.type === "basic" ? (
+      <meshBasicMaterial
+        wireframe={materialProps.wireframe}
+        color={materialProps.color}
+        opacity={materialProps.opacity}
+        transparent={materialProps.transparent}
+      />
+    ) : (
+      <meshPhysicalMaterial
+        map={materialProps.map ?? undefined}
+        side={materialProps.side}
+        roughness={materialProps.roughness}
+        metalness={materialProps.metalness}
+        vertexColors={materialProps.vertexColors ?? false}
+        normalMap={materialProps.normalMap ?? undefined}
+        normalScale={normalScaleVec}
+        clearcoat={0.05}
+        clearcoatRoughness={0.5}
+        envMapIntensity={0.3}
+      />
+    );
+
+  if (levels.length === 1) {
+    return (
+      <mesh
+        ref={meshRef}
+        geometry={geometry}
+        position={position}
+        userData={userData}
+        castShadow
+        receiveShadow
+      >
+        {material}
+      </mesh>
+    );
+  }
+
   return (
-    <mesh
-      ref={meshRef}
-      geometry={mesh.geometry}
+    <Detailed
+      distances={lodDistances.slice(0, levels.length)}
       position={position}
-      castShadow
-      receiveShadow
     >
-      {materialProps.type === "basic" ? (
-        <meshBasicMaterial
-          wireframe={materialProps.wireframe}
-          color={materialProps.color}
-          opacity={materialProps.opacity}
-          transparent={materialProps.transparent}
-        />
-      ) : (
-        <meshPhysicalMaterial
-          map={materialProps.map ?? undefined}
-          side={materialProps.side}
-          roughness={materialProps.roughness}
-          metalness={materialProps.metalness}
-          vertexColors={materialProps.vertexColors ?? false}
-          normalMap={materialProps.normalMap ?? undefined}
-          normalScale={normalScaleVec}
-          clearcoat={0.05}
-          clearcoatRoughness={0.5}
-          envMapIntensity={0.3}
-        />
-      )}
-    </mesh>
+      {levels.map((level, i) => (
+        <mesh
+          key={i}
+          ref={i === 0 ? meshRef : undefined}
+          geometry={level}
+          userData={userData}
+          castShadow
+          receiveShadow
+        >
+          {material}
+        </mesh>
+      ))}
+    </Detailed>
   );
 }
+
+/** A geometry drawing `source`'s vertex buffers with another index */
+function withIndex(source: BufferGeometry, index: Uint32Array): BufferGeometry {
+  const geometry = new BufferGeometry();
+  for (const [name, attribute] of Object.entries(source.attributes)) {
+    geometry.setAttribute(name, attribute);
+  }
+  geometry.setIndex(new BufferAttribute(index, 1));
+  geometry.boundingSphere = source.boundingSphere;
+  return geometry;
+}
+
+/**
+ * Geometry sharing `source`'s buffers with vertex colors from its
+ * "confidence" attribute: red (uncertain) → green (confident).
+ */
+function buildConfidenceGeometry(source: BufferGeometry): BufferGeometry {
+  const geometry = new BufferGeometry();
+  geometry.setIndex(source.index);
+  for (const name of ["position", "normal", "uv"]) {
+    const attribute = source.getAttribute(name);
+    if (attribute) geometry.setAttribute(name, attribute);
+  }
+
+  const confidence = source.getAttribute("confidence");
+  const count = source.getAttribute("position").count;
+  const colors = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const c = confidence ? Math.max(0, Math.min(1, confidence.getX(i))) : 1;
+    colors[i * 3] = 1 - c;
+    colors[i * 3 + 1] = c;
+    colors[i * 3 + 2] = 0.25;
+  }
+  geometry.setAttribute("color", new Float32BufferAttribute(colors, 3));
+  return geometry;
+}
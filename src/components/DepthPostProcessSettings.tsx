@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { DEFAULT_POST_PROCESS } from "../types";
+import type { DepthPostStage, DepthPostStageKind } from "../types";
+import { POST_STAGE_LABELS } from "../engine/DepthPostProcess";
+
+interface Props {
+  stages: DepthPostStage[];
+  onChange: (stages: DepthPostStage[]) => void;
+}
+
+interface ParamRange {
+  min: number;
+  max: number;
+  step: number;
+  /** Label shown for 0 when the value adapts automatically */
+  auto?: string;
+}
+
+const STAGE_PARAMS: Record<
+  DepthPostStageKind,
+  { radius?: ParamRange; sigma?: ParamRange & { label: string } }
+> = {
+  bilateral: {
+    radius: { min: 0, max: 8, step: 1, auto: "oto" },
+    sigma: { min: 0, max: 0.3, step: 0.01, auto: "oto", label: "σ" },
+  },
+  median: { radius: { min: 1, max: 3, step: 1 } },
+  holeFill: { radius: { min: 1, max: 4, step: 1 } },
+  sharpen: { sigma: { min: 0.05, max: 1, step: 0.05, label: "Güç" } },
+  jbu: {
+    radius: { min: 1, max: 4, step: 1 },
+    sigma: { min: 5, max: 80, step: 5, label: "Renk σ" },
+  },
+};
+
+const STAGE_KINDS = Object.keys(POST_STAGE_LABELS) as DepthPostStageKind[];
+
+/**
+ * Editor for the ordered depth post-processing chain: toggle, reorder,
+ * tune, add and remove stages.
+ */
+export function DepthPostProcessSettings({ stages, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const activeCount = stages.filter((s) => s.enabled).length;
+
+  function update(index: number, patch: Partial<DepthPostStage>) {
+    onChange(stages.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  }
+
+  function move(index: number, delta: number) {
+    const target = index + delta;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  }
+
+  function add(kind: DepthPostStageKind) {
+    const preset = DEFAULT_POST_PROCESS.find((s) => s.kind === kind);
+    onChange([
+      ...stages,
+      {
+        kind,
+        enabled: true,
+        radius: preset?.radius ?? 1,
+        sigma: preset?.sigma ?? 0,
+      },
+    ]);
+  }
+
+  return (
+    <div className="w-full max-w-md">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 mx-auto text-[11px] text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        <span>{open ? "▼" : "▶"}</span>
+        Derinlik son işleme
+        <span className="font-mono text-secondary">
+          {activeCount}/{stages.length}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-2 p-2 rounded-xl bg-surface/60 border border-white/5 flex flex-col gap-1 animate-in slide-in-from-top-2 fade-in duration-200">
+          {stages.map((stage, i) => {
+            const params = STAGE_PARAMS[stage.kind];
+            return (
+              <div
+                key={i}
+                className={`flex flex-wrap items-center gap-2 px-2 py-1.5 rounded-lg text-[11px] transition-opacity
+                  ${stage.enabled ? "bg-white/5" : "opacity-50"}`}
+              >
+                <span className="font-mono text-gray-600 w-4">{i + 1}</span>
+                <label className="flex items-center gap-1.5 text-gray-300 min-w-[9rem]">
+                  <input
+                    type="checkbox"
+                    checked={stage.enabled}
+                    onChange={(e) => update(i, { enabled: e.target.checked })}
+                    className="accent-secondary"
+                  />
+                  {POST_STAGE_LABELS[stage.kind]}
+                </label>
+
+                {params.radius && (
+                  <label className="flex items-center gap-1 text-gray-500">
+                    r
+                    <input
+                      type="range"
+                      min={params.radius.min}
+                      max={params.radius.max}
+                      step={params.radius.step}
+                      value={stage.radius}
+                      onChange={(e) =>
+                        update(i, { radius: parseInt(e.target.value) })
+                      }
+                      className="w-14 accent-secondary"
+                    />
+                    <span className="font-mono text-secondary min-w-[3ch]">
+                      {stage.radius === 0 && params.radius.auto
+                        ? params.radius.auto
+                        : stage.radius}
+                    </span>
+                  </label>
+                )}
+
+                {params.sigma && (
+                  <label className="flex items-center gap-1 text-gray-500">
+                    {params.sigma.label}
+                    <input
+                      type="range"
+                      min={params.sigma.min}
+                      max={params.sigma.max}
+                      step={params.sigma.step}
+                      value={stage.sigma}
+                      onChange={(e) =>
+                        update(i, { sigma: parseFloat(e.target.value) })
+                      }
+                      className="w-14 accent-secondary"
+                    />
+                    <span className="font-mono text-secondary min-w-[4ch]">
+                      {stage.sigma === 0 && params.sigma.auto
+                        ? params.sigma.auto
+                        : stage.sigma}
+                    </span>
+                  </label>
+                )}
+
+                <div className="ml-auto flex items-center gap-0.5 text-gray-500">
+                  <button
+                    type="button"
+                    onClick={() => move(i, -1)}
+                    disabled={i === 0}
+                    className="px-1 hover:text-white disabled:opacity-30"
+                    title="Yukarı taşı"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(i, 1)}
+                    disabled={i === stages.length - 1}
+                    className="px-1 hover:text-white disabled:opacity-30"
+                    title="Aşağı taşı"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(stages.filter((_, j) => j !== i))}
+                    className="px-1 hover:text-danger"
+                    title="Aşamayı kaldır"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center justify-between gap-2 pt-1">
+            <select
+              value=""
+              onChange={(e) => {
+                if (e.target.value) add(e.target.value as DepthPostStageKind);
+              }}
+              className="bg-base/60 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-gray-400"
+            >
+              <option value="">+ Aşama ekle</option>
+              {STAGE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {POST_STAGE_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(DEFAULT_POST_PROCESS)}
+              className="text-[11px] text-gray-500 hover:text-gray-300"
+            >
+              Varsayılana dön
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
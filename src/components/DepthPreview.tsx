@@ -1,6 +1,11 @@
-import { useRef, useEffect, useState, useCallback } from "react";
+import { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import type { DepthPostStage, DepthSnapshot } from "../types";
+import {
+    POST_STAGE_LABELS,
+    runDepthPostProcess,
+} from "../engine/DepthPostProcess";
 
-type ViewType = "photo" | "depth" | "confidence";
+type ViewType = "photo" | "depth" | "confidence" | "stages";
 
 interface Props {
     depthMap: Float32Array | null;
@@ -8,6 +13,16 @@ interface Props {
     height: number;
     photoUrl: string;
     confidence?: Float32Array;
+    /** Unprocessed map; with `stages` enables the per-stage view */
+    rawDepth?: DepthSnapshot;
+    stages?: DepthPostStage[];
+}
+
+interface StageFrame {
+    label: string;
+    data: Float32Array;
+    width: number;
+    height: number;
 }
 
 /**
@@ -57,10 +72,40 @@ export function DepthPreview({
     height,
     photoUrl,
     confidence,
+    rawDepth,
+    stages,
 }: Props) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [view, setView] = useState<ViewType>("depth");
     const [opacity, setOpacity] = useState(0.6);
+    const [stageIndex, setStageIndex] = useState(0);
+    const [showDiff, setShowDiff] = useState(false);
+
+    // Re-run the chain on the small raw map, keeping every enabled stage's
+    // output (JBU needs the full-size photo, so it is left out here)
+    const stageFrames = useMemo<StageFrame[]>(() => {
+        if (view !== "stages" || !rawDepth || !stages) return [];
+        const frames: StageFrame[] = [{ label: "Ham", ...rawDepth }];
+        runDepthPostProcess(
+            rawDepth.data,
+            rawDepth.width,
+            rawDepth.height,
+            stages.filter((s) => s.kind !== "jbu"),
+            {
+                radiusScale: rawDepth.width / rawDepth.sourceWidth,
+                onStage: (stage, _index, result) => {
+                    if (stage.enabled) {
+                        frames.push({
+                            label: POST_STAGE_LABELS[stage.kind],
+                            ...result,
+                        });
+                    }
+                },
+            },
+        );
+        return frames;
+    }, [view, rawDepth, stages]);
+    const frameIndex = Math.min(stageIndex, stageFrames.length - 1);
 
     const drawOverlay = useCallback(() => {
         const canvas = canvasRef.current;
@@ -69,6 +114,11 @@ export function DepthPreview({
         const ctx = canvas.getContext("2d");
         if (!ctx) return;
 
+        if (view === "stages") {
+            drawStageFrame(ctx, canvas, stageFrames, frameIndex, showDiff);
+            return;
+        }
+
         canvas.width = width;
         canvas.height = height;
         ctx.clearRect(0, 0, width, height);
@@ -102,7 +152,7 @@ export function DepthPreview({
         }
 
         ctx.putImageData(imageData, 0, 0);
-    }, [depthMap, confidence, width, height, view]);
+    }, [depthMap, confidence, width, height, view, stageFrames, frameIndex, showDiff]);
 
     useEffect(() => {
         drawOverlay();
@@ -120,6 +170,15 @@ export function DepthPreview({
                 },
             ]
             : []),
+        ...(rawDepth && stages
+            ? [
+                {
+                    key: "stages" as ViewType,
+                    label: "Aşamalar",
+                    icon: "🧪",
+                },
+            ]
+            : []),
     ];
 
     return (
@@ -164,6 +223,39 @@ export function DepthPreview({
                 )}
             </div>
 
+            {/* Stage Selector */}
+            {view === "stages" && stageFrames.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 bg-surface/40 border-b border-white/5">
+                    {stageFrames.map((frame, i) => (
+                        <button
+                            key={i}
+                            type="button"
+                            onClick={() => setStageIndex(i)}
+                            className={`px-1.5 py-0.5 rounded-md text-[9px] md:text-[10px] transition-all
+              ${frameIndex === i
+                                    ? "bg-secondary/20 text-secondary border border-secondary/30"
+                                    : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                                }`}
+                        >
+                            {i > 0 && <span className="font-mono mr-0.5">{i}.</span>}
+                            {frame.label}
+                        </button>
+                    ))}
+                    <label
+                        className="ml-auto flex items-center gap-1 text-[9px] md:text-[10px] text-gray-500"
+                        title="Aşamanın bir önceki aşamaya göre değiştirdiği bölgeler"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={showDiff}
+                            onChange={(e) => setShowDiff(e.target.checked)}
+                            className="accent-secondary"
+                        />
+                        Fark
+                    </label>
+                </div>
+            )}
+
             {/* Image + Canvas Overlay */}
             <div className="relative" style={{ aspectRatio: `${width}/${height}` }}>
                 <img
@@ -181,7 +273,7 @@ export function DepthPreview({
                 )}
 
                 {/* Legend */}
-                {view === "depth" && depthMap && (
+                {(view === "depth" || (view === "stages" && !showDiff)) && depthMap && (
                     <div className="absolute bottom-2 right-2 flex items-center gap-1 bg-black/60 backdrop-blur-sm rounded-lg px-2 py-1">
                         <span className="text-[9px] text-blue-400 font-mono">Yakın</span>
                         <div
@@ -206,3 +298,48 @@ export function DepthPreview({
         </div>
     );
 }
+
+/**
+ * Draws one stage output, or its absolute change from the previous stage.
+ * Stage maps stay in [0, 1] so the colors are comparable between stages.
+ */
+function drawStageFrame(
+    ctx: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    frames: StageFrame[],
+    index: number,
+    diff: boolean,
+) {
+    const frame = frames[index];
+    if (!frame) return;
+
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+
+    const previous = diff && index > 0 ? frames[index - 1] : null;
+    let maxDiff = 0;
+    if (previous) {
+        for (let i = 0; i < frame.data.length; i++) {
+            maxDiff = Math.max(maxDiff, Math.abs(frame.data[i] - previous.data[i]));
+        }
+    }
+
+    const imageData = ctx.createImageData(frame.width, frame.height);
+    const pixels = imageData.data;
+
+    for (let i = 0; i < frame.data.length; i++) {
+        const [r, g, b] = previous
+            ? depthToColor(
+                maxDiff > 0 ? Math.abs(frame.data[i] - previous.data[i]) / maxDiff : 0,
+            )
+            : depthToColor(frame.data[i]);
+
+        const idx = i * 4;
+        pixels[idx] = r;
+        pixels[idx + 1] = g;
+        pixels[idx + 2] = b;
+        pixels[idx + 3] = 255;
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+}
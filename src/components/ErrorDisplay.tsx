@@ -1,16 +1,89 @@
 import { useEffect } from "react";
+import type { AppErrorCode, AppErrorInfo } from "../types";
+
+export type RecoveryAction =
+  "retry" | "open-models" | "reduce-quality" | "remove-photo" | "reload";
 
 interface Props {
-  error: string;
+  error: AppErrorInfo;
+  /** Whether the failed processing run can be started again */
+  canRetry: boolean;
   onClear: () => void;
+  onRecover: (action: RecoveryAction) => void;
+}
+
+const ERROR_COPY: Record<AppErrorCode, { title: string; hint: string }> = {
+  "out-of-memory": {
+    title: "Bellek Yetersiz",
+    hint: "Cihaz hafızası doldu. Daha az fotoğraf veya daha düşük çözünürlük deneyin.",
+  },
+  "model-download": {
+    title: "Model İndirilemedi",
+    hint: "Model indirilemedi. İnternet bağlantınızı kontrol edin veya model kaynağını değiştirin.",
+  },
+  "image-decode": {
+    title: "Görüntü Okunamadı",
+    hint: "Dosya bozuk veya desteklenmeyen bir biçimde olabilir.",
+  },
+  "webgl-context-lost": {
+    title: "WebGL Bağlamı Kayboldu",
+    hint: "Grafik sürücüsü 3D görünümü sıfırladı. Sayfayı yenilemeniz gerekiyor.",
+  },
+  "non-manifold": {
+    title: "Katı Model Kapanmadı",
+    hint: "Model su geçirmez hale getirilemedi; dilimleyici bu dosyayı reddeder. Taban kalınlığını değiştirip tekrar dışa aktarın.",
+  },
+  unknown: {
+    title: "Sistem Hatası",
+    hint: "İşlem sırasında beklenmeyen bir hata oluştu.",
+  },
+};
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  retry: "Tekrar dene",
+  "open-models": "Model yöneticisi",
+  "reduce-quality": "Kaliteyi düşür",
+  "remove-photo": "Fotoğrafı kaldır",
+  reload: "Sayfayı yenile",
+};
+
+/** The recovery steps that make sense for an error */
+function recoveryActions(
+  { code, details }: AppErrorInfo,
+  canRetry: boolean,
+): RecoveryAction[] {
+  const actions: RecoveryAction[] = [];
+  switch (code) {
+    case "out-of-memory":
+      actions.push("reduce-quality");
+      break;
+    case "model-download":
+      if (canRetry) actions.push("retry");
+      actions.push("open-models");
+      break;
+    case "webgl-context-lost":
+      actions.push("reload");
+      break;
+    case "image-decode":
+    case "non-manifold":
+      break;
+    default:
+      if (canRetry) actions.push("retry");
+  }
+  if (details?.photoId) actions.push("remove-photo");
+  return actions;
 }
 
-export function ErrorDisplay({ error, onClear }: Props) {
+export function ErrorDisplay({ error, canRetry, onClear, onRecover }: Props) {
+  const copy = ERROR_COPY[error.code];
+  const actions = recoveryActions(error, canRetry);
+
   useEffect(() => {
-    // Auto clear error after 10 seconds
+    // Auto clear after 10 seconds — unless the user has something to act on
+    if (actions.length > 0) return;
     const timer = setTimeout(onClear, 10000);
     return () => clearTimeout(timer);
-  }, [onClear]);
+  }, [onClear, actions.length]);
 
   return (
     <div className="fixed top-4 left-4 right-4 z-50 animate-in slide-in-from-top-4 fade-in duration-300">
@@ -18,9 +91,28 @@ export function ErrorDisplay({ error, onClear }: Props) {
         <div className="text-xl">⚠️</div>
         <div className="flex-1">
           <h3 className="font-bold text-sm uppercase tracking-wide">
-            Sistem Hatası
+            {copy.title}
           </h3>
-          <p className="text-sm opacity-90 mt-1">{error}</p>
+          <p className="text-sm opacity-90 mt-1">{copy.hint}</p>
+          {error.code !== "webgl-context-lost" && (
+            <p className="text-xs text-gray-400 mt-1 break-words">
+              {error.message}
+            </p>
+          )}
+          {actions.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {actions.map((action) => (
+                <button
+                  key={action}
+                  type="button"
+                  onClick={() => onRecover(action)}
+                  className="px-3 py-1 rounded-lg text-xs font-medium bg-danger/15 text-danger border border-danger/30 hover:bg-danger/25 transition-colors"
+                >
+                  {ACTION_LABELS[action]}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <button
           onClick={onClear}
@@ -3,6 +3,9 @@ import type { AppStep } from "../types";
 interface Props {
   currentStep: AppStep;
   onOpenTutorial: () => void;
+  onOpenModels: () => void;
+  onOpenBenchmark: () => void;
+  onOpenLithophane: () => void;
 }
 
 const steps: { key: AppStep; label: string; icon: string }[] = [
@@ -11,7 +14,13 @@ const steps: { key: AppStep; label: string; icon: string }[] = [
   { key: "viewer", label: "3D Görüntüle", icon: "👁️" },
 ];
 
-export function Header({ currentStep, onOpenTutorial }: Props) {
+export function Header({
+  currentStep,
+  onOpenTutorial,
+  onOpenModels,
+  onOpenBenchmark,
+  onOpenLithophane,
+}: Props) {
   const currentIdx = steps.findIndex((s) => s.key === currentStep);
 
   return (
@@ -63,9 +72,32 @@ export function Header({ currentStep, onOpenTutorial }: Props) {
         })}
       </nav>
 
+      <button
+        onClick={onOpenModels}
+        className="ml-4 w-8 h-8 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 flex items-center justify-center text-sm transition-colors"
+        title="Model Yöneticisi"
+      >
+        📦
+      </button>
+      <button
+        onClick={onOpenBenchmark}
+        disabled={currentStep === "processing"}
+        className="ml-2 w-8 h-8 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40 flex items-center justify-center text-sm transition-colors"
+        title="Performans Testi"
+      >
+        ⏱️
+      </button>
+      <button
+        onClick={onOpenLithophane}
+        disabled={currentStep === "processing"}
+        className="ml-2 w-8 h-8 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40 flex items-center justify-center text-sm transition-colors"
+        title="Litofan / Rölyef"
+      >
+        🖼️
+      </button>
       <button
         onClick={onOpenTutorial}
-        className="ml-4 w-8 h-8 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 flex items-center justify-center text-secondary transition-colors"
+        className="ml-2 w-8 h-8 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 flex items-center justify-center text-secondary transition-colors"
         title="Nasıl Kullanılır?"
       >
         ?
@@ -0,0 +1,345 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Mesh, Scene } from "three";
+import { Canvas } from "@react-three/fiber";
+import { Center, OrbitControls } from "@react-three/drei";
+import type { PhotoFile, ProcessedMesh } from "../types";
+import {
+  DEFAULT_LITHOPHANE_OPTIONS,
+  buildLithophane,
+  type Lithophane,
+  type LithophaneOptions,
+  type PlateDepth,
+} from "../engine/Lithophane";
+import { exportSTL } from "../engine/Exporter";
+import { isAbortError } from "../engine/Abort";
+
+interface Props {
+  onClose: () => void;
+  photos: PhotoFile[];
+  /** Processed meshes, whose depth maps can raise the plate */
+  meshes: ProcessedMesh[];
+}
+
+const STYLE_OPTIONS: { value: LithophaneOptions["style"]; label: string }[] = [
+  { value: "lithophane", label: "Litofan" },
+  { value: "relief", label: "Rölyef" },
+];
+
+const SOURCE_OPTIONS: { value: LithophaneOptions["source"]; label: string }[] =
+  [
+    { value: "luminance", label: "Parlaklık" },
+    { value: "depth", label: "Derinlik" },
+  ];
+
+const NUMBER_FIELDS: {
+  key: "widthMm" | "minThicknessMm" | "maxThicknessMm" | "borderMm";
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: "widthMm", label: "Genişlik (mm)", min: 20, max: 300, step: 5 },
+  { key: "minThicknessMm", label: "Min kalınlık", min: 0.4, max: 5, step: 0.1 },
+  { key: "maxThicknessMm", label: "Maks kalınlık", min: 1, max: 10, step: 0.1 },
+  { key: "borderMm", label: "Çerçeve (mm)", min: 0, max: 20, step: 0.5 },
+];
+
+/** The photo's depth: from its processed mesh, else the one it came with */
+function depthFor(
+  photo: PhotoFile,
+  meshes: ProcessedMesh[],
+): PlateDepth | null {
+  const mesh = meshes.find((m) => m.photoId === photo.id);
+  if (mesh) {
+    return {
+      data: mesh.depthMap,
+      width: mesh.width,
+      height: mesh.height,
+      encoding: mesh.encoding ?? "disparity",
+    };
+  }
+  return photo.externalDepth ?? null;
+}
+
+function Segmented<T extends string>({
+  options,
+  value,
+  onChange,
+  disabled,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: (value: T) => boolean;
+}) {
+  return (
+    <div className="flex gap-1 p-1 rounded-xl bg-base/60 border border-white/5">
+      {options.map((opt) => (
+        <button
+          key={opt.value}
+          type="button"
+          disabled={disabled?.(opt.value)}
+          onClick={() => onChange(opt.value)}
+          className={`px-2 py-1 rounded-lg text-xs font-medium transition-all duration-200 disabled:opacity-40
+            ${
+              opt.value === value
+                ? "bg-primary/20 text-primary border border-primary/30"
+                : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+            }`}
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Turns one photo into a printable lithophane or relief plate, previews
+ * it and downloads it as STL.
+ */
+export function LithophanePanel({ onClose, photos, meshes }: Props) {
+  const [photoId, setPhotoId] = useState(photos[0]?.id ?? "");
+  const [options, setOptions] = useState<LithophaneOptions>(
+    DEFAULT_LITHOPHANE_OPTIONS,
+  );
+  const [plate, setPlate] = useState<Lithophane | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const photo = photos.find((p) => p.id === photoId) ?? null;
+  const depth = useMemo(
+    () => (photo ? depthFor(photo, meshes) : null),
+    [photo, meshes],
+  );
+  const source = depth ? options.source : "luminance";
+
+  // Stop a running build when the panel goes away; free the last plate
+  useEffect(() => () => abortRef.current?.abort(), []);
+  useEffect(() => () => plate?.geometry.dispose(), [plate]);
+
+  const update = (changes: Partial<LithophaneOptions>) =>
+    setOptions((prev) => ({ ...prev, ...changes }));
+
+  async function handleBuild() {
+    if (!photo) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBuilding(true);
+    setError(null);
+    try {
+      setPlate(
+        await buildLithophane(
+          photo,
+          depth,
+          { ...options, source },
+          controller.signal,
+        ),
+      );
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setBuilding(false);
+    }
+  }
+
+  function handleDownload() {
+    if (!plate) return;
+    const scene = new Scene();
+    const mesh = new Mesh(plate.geometry);
+    mesh.userData.depthSurface = true;
+    scene.add(mesh);
+    try {
+      exportSTL(scene);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  const size = plate && Math.max(plate.widthMm, plate.heightMm);
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="relative w-full max-w-2xl max-h-[90vh] flex flex-col bg-surface border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 bg-base/50 flex justify-between items-center">
+          <h2 className="text-xl font-display font-bold text-white flex items-center gap-2">
+            <span>🖼️</span> Litofan / Rölyef
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {photos.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              Önce bir fotoğraf yükleyin; baskıya hazır plaka o fotoğraftan
+              oluşturulur.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-400">
+                Litofan, arkadan ışık aldığında fotoğrafı gösteren ince bir
+                plakadır: açık bölgeler ince, koyu bölgeler kalın basılır.
+                Rölyefte yakın veya parlak bölgeler yükselir.
+              </p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <label className="text-xs text-gray-300 space-y-1">
+                  <span className="block">Fotoğraf</span>
+                  <select
+                    value={photoId}
+                    onChange={(e) => setPhotoId(e.target.value)}
+                    className="w-full bg-base/60 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none"
+                  >
+                    {photos.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <div className="text-xs text-gray-300 space-y-1">
+                  <span className="block">Tür ve yükseklik kaynağı</span>
+                  <div className="flex gap-2">
+                    <Segmented
+                      options={STYLE_OPTIONS}
+                      value={options.style}
+                      onChange={(style) => update({ style })}
+                    />
+                    <Segmented
+                      options={SOURCE_OPTIONS}
+                      value={source}
+                      onChange={(source) => update({ source })}
+                      disabled={(value) => value === "depth" && !depth}
+                    />
+                  </div>
+                </div>
+
+                {NUMBER_FIELDS.map((field) => (
+                  <label
+                    key={field.key}
+                    className="text-xs text-gray-300 space-y-1"
+                  >
+                    <span className="block">{field.label}</span>
+                    <input
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={options[field.key]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (Number.isFinite(value)) {
+                          update({ [field.key]: value });
+                        }
+                      }}
+                      className="w-full bg-base/60 border border-white/10 rounded-lg px-2 py-1.5 text-sm font-mono text-white outline-none"
+                    />
+                  </label>
+                ))}
+
+                <label className="col-span-2 text-xs text-gray-300 space-y-1">
+                  <span className="flex justify-between">
+                    <span>Kavis</span>
+                    <span className="font-mono text-gray-400">
+                      {options.curveDegrees > 0
+                        ? `${options.curveDegrees}°`
+                        : "Düz"}
+                    </span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={180}
+                    step={10}
+                    value={options.curveDegrees}
+                    onChange={(e) =>
+                      update({ curveDegrees: parseInt(e.target.value) })
+                    }
+                    className="w-full accent-primary"
+                  />
+                </label>
+              </div>
+
+              {options.minThicknessMm >= options.maxThicknessMm && (
+                <p className="text-xs text-warning">
+                  Maksimum kalınlık minimumdan büyük olmalı.
+                </p>
+              )}
+
+              <button
+                type="button"
+                disabled={
+                  building ||
+                  !photo ||
+                  options.minThicknessMm >= options.maxThicknessMm
+                }
+                onClick={handleBuild}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-primary/20 text-primary border border-primary/30 hover:bg-primary/30 disabled:opacity-40 transition-colors"
+              >
+                {building ? "Oluşturuluyor..." : "Plakayı oluştur"}
+              </button>
+
+              {error && <p className="text-xs text-danger">{error}</p>}
+
+              {plate && size && (
+                <div className="h-64 rounded-xl overflow-hidden border border-white/5 bg-[#0a0a0f]">
+                  <Canvas
+                    camera={{
+                      position: [0, -size * 0.4, size * 1.2],
+                      near: size / 100,
+                      far: size * 10,
+                    }}
+                  >
+                    <ambientLight intensity={0.4} />
+                    <directionalLight
+                      position={[size, size, size * 2]}
+                      intensity={0.9}
+                    />
+                    <Center>
+                      <mesh geometry={plate.geometry}>
+                        <meshStandardMaterial color="#f2ede4" roughness={0.6} />
+                      </mesh>
+                    </Center>
+                    <OrbitControls makeDefault enableDamping />
+                  </Canvas>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        {plate && (
+          <div className="p-4 bg-base/50 border-t border-white/5 flex justify-between items-center text-xs text-gray-500">
+            <span className="font-mono text-gray-300">
+              {plate.widthMm.toFixed(0)} × {plate.heightMm.toFixed(0)} mm •{" "}
+              {((plate.geometry.index?.count ?? 0) / 3).toLocaleString()} üçgen
+            </span>
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="px-2 py-1 rounded-md bg-white/5 text-gray-300 hover:bg-white/10 transition-colors"
+            >
+              STL indir
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import type { DepthMode, ModelDtype, ModelSize, ModelSource } from "../types";
+import {
+  cachedModelBytes,
+  deleteModel,
+  downloadModel,
+  listCachedModels,
+  verifyModel,
+  type CachedModelInfo,
+} from "../engine/ModelManager";
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  modelSource: ModelSource;
+  onModelSourceChange: (source: ModelSource) => void;
+  /** Precision selected for processing; other precisions show once cached */
+  modelDtype: ModelDtype;
+}
+
+const SIZE_LABELS: Record<ModelSize, string> = {
+  small: "Small • Hızlı",
+  base: "Base • Dengeli",
+  large: "Large • Maksimum",
+};
+
+const MODE_LABELS: Record<DepthMode, string> = {
+  relative: "Göreli",
+  "metric-indoor": "Metrik • İç",
+  "metric-outdoor": "Metrik • Dış",
+};
+
+const SOURCE_OPTIONS: { value: ModelSource; label: string; desc: string }[] = [
+  {
+    value: "hub",
+    label: "Hugging Face",
+    desc: "Modeller huggingface.co üzerinden indirilir",
+  },
+  {
+    value: "self-hosted",
+    label: "Kendi sunucum (/models)",
+    desc: "Önce uygulamanın /models yolundan yüklenir, bulunamayan dosyalar Hugging Face'ten alınır",
+  },
+];
+
+type RowStatus =
+  | { kind: "downloading"; fraction: number }
+  | { kind: "verifying" }
+  | { kind: "verified"; ok: boolean; problems: string[] }
+  | { kind: "error"; message: string };
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+/** Status key of a model row — one row per checkpoint × dtype */
+function rowKey(model: CachedModelInfo): string {
+  return `${model.modelId}:${model.dtype}`;
+}
+
+/**
+ * Lists cached depth models per ModelSize and lets the user pre-download,
+ * verify and delete them, and pick where weights are loaded from.
+ */
+export function ModelManagerPanel({
+  isOpen,
+  onClose,
+  modelSource,
+  onModelSourceChange,
+  modelDtype,
+}: Props) {
+  const [models, setModels] = useState<CachedModelInfo[]>([]);
+  const [cachedTotal, setCachedTotal] = useState(0);
+  const [status, setStatus] = useState<Record<string, RowStatus>>({});
+  const [quota, setQuota] = useState<{ usage: number; quota: number } | null>(
+    null,
+  );
+  const abortRef = useRef<Record<string, AbortController>>({});
+
+  const refresh = useCallback(async () => {
+    setModels(await listCachedModels());
+    setCachedTotal(await cachedModelBytes());
+    if (navigator.storage?.estimate) {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      setQuota({ usage, quota });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  // Stop running downloads when the panel goes away
+  useEffect(() => {
+    const controllers = abortRef.current;
+    return () => Object.values(controllers).forEach((c) => c.abort());
+  }, []);
+
+  const setRowStatus = (key: string, next: RowStatus | null) =>
+    setStatus((prev) => {
+      const copy = { ...prev };
+      if (next) copy[key] = next;
+      else delete copy[key];
+      return copy;
+    });
+
+  async function handleDownload(model: CachedModelInfo) {
+    const key = rowKey(model);
+    const controller = new AbortController();
+    abortRef.current[key] = controller;
+    setRowStatus(key, { kind: "downloading", fraction: 0 });
+    try {
+      await downloadModel(
+        model.modelId,
+        model.dtype,
+        modelSource,
+        (fraction) => setRowStatus(key, { kind: "downloading", fraction }),
+        controller.signal,
+      );
+      setRowStatus(key, null);
+    } catch (err) {
+      setRowStatus(
+        key,
+        controller.signal.aborted
+          ? null
+          : {
+              kind: "error",
+              message: err instanceof Error ? err.message : String(err),
+            },
+      );
+    } finally {
+      delete abortRef.current[key];
+      refresh();
+    }
+  }
+
+  async function handleVerify(model: CachedModelInfo) {
+    const key = rowKey(model);
+    setRowStatus(key, { kind: "verifying" });
+    const result = await verifyModel(model.modelId, model.dtype);
+    setRowStatus(key, { kind: "verified", ...result });
+  }
+
+  async function handleDelete(model: CachedModelInfo) {
+    const key = rowKey(model);
+    abortRef.current[key]?.abort();
+    await deleteModel(model.modelId, model.dtype);
+    setRowStatus(key, null);
+    refresh();
+  }
+
+  if (!isOpen) return null;
+
+  // The selected precision, plus any other precision with cached weights
+  const visible = models.filter(
+    (m) =>
+      m.dtype === modelDtype ||
+      m.files.some((f) => f.name.endsWith(".onnx")) ||
+      status[rowKey(m)],
+  );
+  const sizes = [...new Set(visible.map((m) => m.modelSize))];
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="relative w-full max-w-2xl max-h-[90vh] flex flex-col bg-surface border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 bg-base/50 flex justify-between items-center">
+          <h2 className="text-xl font-display font-bold text-white flex items-center gap-2">
+            <span>📦</span> Model Yöneticisi
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* Model source */}
+          <div>
+            <h3 className="text-sm text-gray-300 mb-2">Model kaynağı</h3>
+            <div className="flex gap-1 p-1 rounded-xl bg-base/60 border border-white/5 w-fit">
+              {SOURCE_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  type="button"
+                  onClick={() => onModelSourceChange(opt.value)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200
+                    ${
+                      modelSource === opt.value
+                        ? "bg-primary/20 text-primary border border-primary/30"
+                        : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                    }`}
+                  title={opt.desc}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Models per size */}
+          {sizes.map((size) => (
+            <div key={size}>
+              <h3 className="text-sm font-medium text-white mb-2">
+                {SIZE_LABELS[size]}
+              </h3>
+              <div className="space-y-1.5">
+                {visible
+                  .filter((m) => m.modelSize === size)
+                  .map((model) => {
+                    const row = status[rowKey(model)];
+                    const busy =
+                      row?.kind === "downloading" || row?.kind === "verifying";
+                    return (
+                      <div
+                        key={rowKey(model)}
+                        className="rounded-xl bg-base/40 border border-white/5 px-3 py-2"
+                      >
+                        <div className="flex items-center gap-3 text-xs">
+                          <span className="text-gray-300 min-w-[7rem]">
+                            {MODE_LABELS[model.depthMode]}
+                          </span>
+                          <span
+                            className={`font-mono uppercase ${
+                              model.dtype === modelDtype
+                                ? "text-primary"
+                                : "text-gray-500"
+                            }`}
+                          >
+                            {model.dtype}
+                          </span>
+                          <span
+                            className={`font-mono ${
+                              model.complete
+                                ? "text-success"
+                                : model.files.length > 0
+                                  ? "text-warning"
+                                  : "text-gray-600"
+                            }`}
+                          >
+                            {model.files.length === 0
+                              ? "indirilmedi"
+                              : `${formatBytes(model.totalBytes)}${model.complete ? "" : " • yarım"}`}
+                          </span>
+
+                          <div className="ml-auto flex gap-1">
+                            {!model.complete && (
+                              <button
+                                type="button"
+                                disabled={busy}
+                                onClick={() => handleDownload(model)}
+                                className="px-2 py-1 rounded-md bg-primary/10 text-primary hover:bg-primary/20 disabled:opacity-40 transition-colors"
+                              >
+                                İndir
+                              </button>
+                            )}
+                            {model.files.length > 0 && (
+                              <button
+                                type="button"
+                                disabled={busy}
+                                onClick={() => handleVerify(model)}
+                                className="px-2 py-1 rounded-md bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40 transition-colors"
+                              >
+                                Doğrula
+                              </button>
+                            )}
+                            {(model.files.length > 0 ||
+                              row?.kind === "downloading") && (
+                              <button
+                                type="button"
+                                disabled={row?.kind === "verifying"}
+                                onClick={() => handleDelete(model)}
+                                className="px-2 py-1 rounded-md bg-danger/10 text-danger hover:bg-danger/20 disabled:opacity-40 transition-colors"
+                              >
+                                {row?.kind === "downloading" ? "İptal" : "Sil"}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
+                        {row?.kind === "downloading" && (
+                          <div className="mt-2 h-1 rounded-full bg-white/5 overflow-hidden">
+                            <div
+                              className="h-full bg-primary transition-all duration-200"
+                              style={{
+                                width: `${Math.round(row.fraction * 100)}%`,
+                              }}
+                            />
+                          </div>
+                        )}
+                        {row?.kind === "verifying" && (
+                          <p className="mt-1 text-[11px] text-gray-500">
+                            Doğrulanıyor...
+                          </p>
+                        )}
+                        {row?.kind === "verified" && (
+                          <p
+                            className={`mt-1 text-[11px] ${row.ok ? "text-success" : "text-warning"}`}
+                          >
+                            {row.ok
+                              ? "✓ Dosyalar eksiksiz"
+                              : `⚠ ${row.problems.join(", ")}`}
+                          </p>
+                        )}
+                        {row?.kind === "error" && (
+                          <p className="mt-1 text-[11px] text-danger">
+                            {row.message}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-base/50 border-t border-white/5 flex justify-between items-center text-xs text-gray-500">
+          <span>
+            Önbellekteki modeller:{" "}
+            <span className="font-mono text-gray-300">
+              {formatBytes(cachedTotal)}
+            </span>
+          </span>
+          {quota && quota.quota > 0 && (
+            <span>
+              Depolama:{" "}
+              <span className="font-mono text-gray-300">
+                {formatBytes(quota.usage)} / {formatBytes(quota.quota)}
+              </span>
+            </span>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
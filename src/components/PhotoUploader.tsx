@@ -1,6 +1,23 @@
 import React, { useCallback, useRef, useState, useEffect } from "react";
-import type { PhotoFile, ModelSize } from "../types";
+import type {
+  ConfidenceMode,
+  PhotoFile,
+  ModelDtype,
+  ModelSize,
+  DepthMode,
+  QualitySettings,
+  RelativeDepthEncoding,
+} from "../types";
 import { analyzePhotoQuality, type PhotoQuality } from "../engine/PhotoAnalyzer";
+import { DepthPostProcessSettings } from "./DepthPostProcessSettings";
+import { detectBestDevice, getDeviceInfo } from "../engine/DepthEstimator";
+import type { InferenceDevice } from "../engine/DepthBackend";
+import type { DepthImportOptions, PngDepthEncoding } from "../engine/DepthMapImporter";
+import {
+  estimateModelCost,
+  inferencePasses,
+  isHeavyCombination,
+} from "../engine/ModelEstimates";
 
 const MODEL_OPTIONS: { value: ModelSize; label: string; desc: string; icon: string }[] = [
   { value: "small", label: "Hızlı", desc: "Düşük detay, çok hızlı", icon: "⚡" },
@@ -8,11 +25,51 @@ const MODEL_OPTIONS: { value: ModelSize; label: string; desc: string; icon: stri
   { value: "large", label: "Maksimum", desc: "En yüksek kalite", icon: "💎" },
 ];
 
+const DTYPE_OPTIONS: { value: ModelDtype; label: string; desc: string }[] = [
+  { value: "fp32", label: "FP32", desc: "Tam hassasiyet, en büyük indirme" },
+  { value: "fp16", label: "FP16", desc: "Yarı boyut, WebGPU'da hızlı" },
+  { value: "q8", label: "Q8", desc: "8-bit, WASM'da en hızlı, küçük kalite kaybı" },
+  { value: "q4", label: "Q4", desc: "4-bit, en küçük indirme, belirgin kalite kaybı" },
+];
+
+const DEPTH_MODE_OPTIONS: { value: DepthMode; label: string; desc: string }[] = [
+  { value: "relative", label: "Göreli", desc: "Birimsiz derinlik, her sahnede çalışır" },
+  { value: "metric-indoor", label: "Metrik • İç", desc: "Metre cinsinden, iç mekânlar için" },
+  { value: "metric-outdoor", label: "Metrik • Dış", desc: "Metre cinsinden, dış mekânlar için" },
+];
+
+const ENCODING_OPTIONS: { value: RelativeDepthEncoding; label: string; desc: string }[] = [
+  { value: "depth", label: "Derinliğe çevir", desc: "Ters derinliği (disparite) gerçek derinliğe çevirir — doğru oranlar" },
+  { value: "disparity", label: "Ham disparite", desc: "Model çıktısını doğrudan derinlik olarak kullanır (eski davranış)" },
+];
+
+const PNG_ENCODING_OPTIONS: { value: PngDepthEncoding; label: string; desc: string }[] = [
+  { value: "auto", label: "Otomatik", desc: "Tüm aralığı kullanan haritaları disparite, diğerlerini milimetre sayar" },
+  { value: "millimeters", label: "Milimetre", desc: "Sensör derinliği (ARKit, RealSense, Kinect), 0 = veri yok" },
+  { value: "disparity", label: "Disparite", desc: "Normalize ters derinlik, beyaz = yakın (Depth Anything, MiDaS)" },
+  { value: "depth", label: "Göreli derinlik", desc: "Normalize derinlik, beyaz = uzak" },
+];
+
+const CONFIDENCE_MODE_OPTIONS: { value: ConfidenceMode; label: string; desc: string }[] = [
+  { value: "weight", label: "Yumuşat", desc: "Belirsiz noktaları güvenilir komşularına doğru çeker" },
+  { value: "drop", label: "Ayıkla", desc: "Belirsiz noktalara değen üçgenleri siler" },
+];
+
+const TILE_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: "Kapalı" },
+  { value: 2, label: "2×2" },
+  { value: 3, label: "3×3" },
+];
+
 interface Props {
   photos: PhotoFile[];
   onAddPhotos: (files: FileList | File[]) => void;
   onRemovePhoto: (id: string) => void;
+  onAttachDepth: (photoId: string, file: File, options: DepthImportOptions) => void;
+  onRemoveDepth: (photoId: string) => void;
   onProcess: (modelSize: ModelSize) => void;
+  settings: QualitySettings;
+  onSettingsChange: (settings: Partial<QualitySettings>) => void;
   disabled?: boolean;
 }
 
@@ -20,14 +77,22 @@ export function PhotoUploader({
   photos,
   onAddPhotos,
   onRemovePhoto,
+  onAttachDepth,
+  onRemoveDepth,
   onProcess,
+  settings,
+  onSettingsChange,
   disabled,
 }: Props) {
   const [isDragging, setIsDragging] = useState(false);
   const [previewId, setPreviewId] = useState<string | null>(null);
   const [qualityScores, setQualityScores] = useState<Record<string, PhotoQuality>>({});
   const [selectedModel, setSelectedModel] = useState<ModelSize>("large");
+  const [device, setDevice] = useState<InferenceDevice>(() => getDeviceInfo().device);
+  const [pngEncoding, setPngEncoding] = useState<PngDepthEncoding>("auto");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const depthInputRef = useRef<HTMLInputElement>(null);
+  const depthTargetRef = useRef<string | null>(null);
 
   const acceptTypes = ["image/jpeg", "image/png", "image/heic", "image/heif"];
 
@@ -54,6 +119,24 @@ export function PhotoUploader({
     return () => { cancelled = true; };
   }, [photos]);
 
+  // Estimates depend on the backend the model would actually run on
+  useEffect(() => {
+    let cancelled = false;
+    detectBestDevice().then((d) => {
+      if (!cancelled) setDevice(d);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const estimate = estimateModelCost(
+    selectedModel,
+    settings.modelDtype,
+    device,
+    inferencePasses(settings.tileGrid, settings.enableTTA),
+  );
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const heavy = isHeavyCombination(estimate, deviceMemory);
+
   const filterFiles = useCallback((files: FileList | File[]): File[] => {
     return Array.from(files).filter(
       (f) =>
@@ -158,8 +241,44 @@ export function PhotoUploader({
               Yüklenen Fotoğraflar{" "}
               <span className="text-primary ml-1">({photos.length}/50)</span>
             </h3>
+            {/* How attached 16-bit PNG depth maps are read */}
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-gray-500">16-bit PNG derinlik:</span>
+              <div className="flex gap-1 p-1 rounded-lg bg-surface/80 border border-white/10">
+                {PNG_ENCODING_OPTIONS.map((opt) => (
+                  <button
+                    key={opt.value}
+                    type="button"
+                    onClick={() => setPngEncoding(opt.value)}
+                    title={opt.desc}
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-medium transition-all duration-200
+                      ${pngEncoding === opt.value
+                        ? "bg-secondary/20 text-secondary border border-secondary/30"
+                        : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                      }`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
 
+          <input
+            ref={depthInputRef}
+            type="file"
+            accept=".png,.exr,.npy,.jpg,.jpeg"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file && depthTargetRef.current) {
+                onAttachDepth(depthTargetRef.current, file, { pngEncoding });
+              }
+              depthTargetRef.current = null;
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+          />
+
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4">
             {photos.map((photo, index) => (
               <div
@@ -199,6 +318,30 @@ export function PhotoUploader({
                 >
                   ×
                 </button>
+                {photo.externalDepth ? (
+                  <button
+                    className="absolute top-9 left-2 px-1.5 py-0.5 rounded-md text-[9px] font-bold uppercase tracking-wider backdrop-blur-md border bg-secondary/20 border-secondary/40 text-secondary hover:bg-danger/30 hover:border-danger/50 hover:text-white transition-colors"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemoveDepth(photo.id);
+                    }}
+                    title={`Hazır derinlik: ${photo.externalDepth.fileName} (${photo.externalDepth.source}) — kaldırmak için tıklayın`}
+                  >
+                    📡 Derinlik
+                  </button>
+                ) : (
+                  <button
+                    className="absolute top-10 right-2 w-7 h-7 flex items-center justify-center rounded-full bg-secondary/80 text-white text-xs shadow-sm opacity-0 group-hover:opacity-100 scale-75 group-hover:scale-100 transition-all duration-200 hover:bg-secondary"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      depthTargetRef.current = photo.id;
+                      depthInputRef.current?.click();
+                    }}
+                    title="Derinlik haritası ekle (16-bit PNG, EXR, NPY, portre JPEG)"
+                  >
+                    📡
+                  </button>
+                )}
                 <div className="absolute inset-x-0 bottom-0 p-2 bg-gradient-to-t from-black/80 to-transparent translate-y-full group-hover:translate-y-0 transition-transform duration-300">
                   <p className="text-[10px] text-gray-300 truncate font-mono">
                     {photo.name}
@@ -233,6 +376,230 @@ export function PhotoUploader({
               {MODEL_OPTIONS.find((m) => m.value === selectedModel)?.desc}
             </span>
 
+            {/* Weight precision + cost estimate (transformers backend only) */}
+            {settings.depthBackend === "transformers" && (
+              <div className="flex flex-col items-center gap-1.5">
+                <div className="flex gap-1 p-1 rounded-xl bg-surface/60 border border-white/5">
+                  {DTYPE_OPTIONS.map((opt) => {
+                    const cost = estimateModelCost(selectedModel, opt.value, device);
+                    return (
+                      <button
+                        key={opt.value}
+                        type="button"
+                        onClick={() => onSettingsChange({ modelDtype: opt.value })}
+                        className={`px-2.5 py-1 rounded-lg text-[11px] font-mono font-medium transition-all duration-200
+                          ${settings.modelDtype === opt.value
+                            ? "bg-primary/20 text-primary border border-primary/30"
+                            : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                          }`}
+                        title={`${opt.desc} • ~${formatMB(cost.downloadBytes)}`}
+                      >
+                        {opt.label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <span
+                  className={`text-[11px] font-mono ${heavy ? "text-warning" : "text-gray-500"}`}
+                  title={`${device === "webgpu" ? "WebGPU" : "WASM"} için tahmini değerler`}
+                >
+                  ⬇ {formatMB(estimate.downloadBytes)} • RAM ~{formatMB(estimate.ramBytes)} • ~
+                  {formatSeconds(estimate.secondsPerPhoto)}/foto ({device === "webgpu" ? "GPU" : "WASM"})
+                </span>
+                {heavy && (
+                  <span className="text-[11px] text-warning">
+                    ⚠ Bu cihaz için ağır olabilir — daha küçük model veya Q8/FP16 deneyin
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* Depth Mode Selector */}
+            <div className="flex gap-1 p-1 rounded-xl bg-surface/60 border border-white/5">
+              {DEPTH_MODE_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  type="button"
+                  onClick={() => onSettingsChange({ depthMode: opt.value })}
+                  className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all duration-200
+                    ${settings.depthMode === opt.value
+                      ? "bg-secondary/20 text-secondary border border-secondary/30"
+                      : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                    }`}
+                  title={opt.desc}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Relative depth interpretation — metric maps are already depth */}
+            {settings.depthMode === "relative" && (
+              <div className="flex flex-col items-center gap-1.5">
+                <div className="flex gap-1 p-1 rounded-xl bg-surface/60 border border-white/5">
+                  {ENCODING_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      onClick={() =>
+                        onSettingsChange({ relativeEncoding: opt.value })
+                      }
+                      className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all duration-200
+                        ${settings.relativeEncoding === opt.value
+                          ? "bg-secondary/20 text-secondary border border-secondary/30"
+                          : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                        }`}
+                      title={opt.desc}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+                {settings.relativeEncoding === "depth" && (
+                  <label
+                    className="flex items-center gap-2 text-[11px] text-gray-500"
+                    title="Küçük değer uzak yüzeyleri daha derine iter, büyük değer sahneyi düzleştirir"
+                  >
+                    Ters çevirme kayması
+                    <input
+                      type="range"
+                      min="0.02"
+                      max="1"
+                      step="0.02"
+                      value={settings.disparityShift}
+                      onChange={(e) =>
+                        onSettingsChange({
+                          disparityShift: parseFloat(e.target.value),
+                        })
+                      }
+                      className="w-24 accent-secondary"
+                    />
+                    <span className="font-mono text-secondary min-w-[4ch]">
+                      {settings.disparityShift.toFixed(2)}
+                    </span>
+                  </label>
+                )}
+              </div>
+            )}
+
+            {/* Tiled high-resolution inference */}
+            <div
+              className="flex items-center gap-2 text-[11px] text-gray-500"
+              title="Fotoğrafı örtüşen karolara bölerek ince detayları korur (karo sayısı kadar yavaş)"
+            >
+              Yüksek çözünürlük
+              <div className="flex gap-1 p-1 rounded-xl bg-surface/60 border border-white/5">
+                {TILE_OPTIONS.map((opt) => (
+                  <button
+                    key={opt.value}
+                    type="button"
+                    onClick={() => onSettingsChange({ tileGrid: opt.value })}
+                    className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all duration-200
+                      ${settings.tileGrid === opt.value
+                        ? "bg-secondary/20 text-secondary border border-secondary/30"
+                        : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                      }`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Test-time augmentation toggle */}
+            <button
+              type="button"
+              onClick={() => onSettingsChange({ enableTTA: !settings.enableTTA })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-[11px] font-medium border transition-all
+                ${settings.enableTTA
+                  ? "bg-secondary/10 text-secondary border-secondary/40"
+                  : "text-gray-500 border-white/10 hover:text-gray-300 hover:border-white/20"
+                }`}
+              title="Aynalanmış ve farklı ölçekli tahminleri birleştirir; simetrik sahnelerdeki bozulmaları azaltır"
+            >
+              <span>🔁</span>
+              Kararlı tahmin (TTA, ~4× yavaş)
+              {settings.enableTTA && <span>✓</span>}
+            </button>
+
+            {/* Depth post-processing chain */}
+            <DepthPostProcessSettings
+              stages={settings.postProcess}
+              onChange={(postProcess) => onSettingsChange({ postProcess })}
+            />
+
+            {/* Confidence-aware meshing */}
+            <div className="flex flex-wrap items-center justify-center gap-2 text-[11px] text-gray-500">
+              <label
+                className="flex items-center gap-2"
+                title="Derinlik güveni bu değerin altındaki noktalar ayıklanır veya komşularına doğru yumuşatılır (0 = kapalı)"
+              >
+                Güven eşiği
+                <input
+                  type="range"
+                  min="0"
+                  max="0.5"
+                  step="0.05"
+                  value={settings.confidenceThreshold}
+                  onChange={(e) =>
+                    onSettingsChange({
+                      confidenceThreshold: parseFloat(e.target.value),
+                    })
+                  }
+                  className="w-24 accent-secondary"
+                />
+                <span className="font-mono text-secondary min-w-[4ch]">
+                  {settings.confidenceThreshold > 0
+                    ? settings.confidenceThreshold.toFixed(2)
+                    : "kapalı"}
+                </span>
+              </label>
+              {settings.confidenceThreshold > 0 && (
+                <div className="flex gap-1 p-1 rounded-xl bg-surface/60 border border-white/5">
+                  {CONFIDENCE_MODE_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      onClick={() =>
+                        onSettingsChange({ confidenceMode: opt.value })
+                      }
+                      className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all duration-200
+                        ${settings.confidenceMode === opt.value
+                          ? "bg-secondary/20 text-secondary border border-secondary/30"
+                          : "text-gray-500 hover:text-gray-300 hover:bg-white/5"
+                        }`}
+                      title={opt.desc}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Offline synthetic backend toggle */}
+            <button
+              type="button"
+              onClick={() =>
+                onSettingsChange({
+                  depthBackend:
+                    settings.depthBackend === "synthetic"
+                      ? "transformers"
+                      : "synthetic",
+                })
+              }
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-[11px] font-medium border transition-all
+                ${settings.depthBackend === "synthetic"
+                  ? "bg-warning/10 text-warning border-warning/40"
+                  : "text-gray-500 border-white/10 hover:text-gray-300 hover:border-white/20"
+                }`}
+              title="Model indirmeden sentetik derinlik haritalarıyla çalışır"
+            >
+              <span>🧪</span>
+              Çevrimdışı mod (sentetik derinlik)
+              {settings.depthBackend === "synthetic" && <span>✓</span>}
+            </button>
+
             <button
               className="group relative inline-flex items-center gap-2 px-6 py-3 md:px-8 md:py-3.5 rounded-xl md:rounded-2xl bg-gradient-to-br from-primary to-secondary text-white font-semibold shadow-[0_4px_20px_rgba(0,212,255,0.3)] transition-all duration-300 hover:-translate-y-0.5 hover:shadow-[0_8px_30px_rgba(0,212,255,0.4)] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none overflow-hidden"
               onClick={() => onProcess(selectedModel)}
@@ -298,3 +665,14 @@ export function PhotoUploader({
     </div>
   );
 }
+
+function formatMB(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`;
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 1) return `${seconds.toFixed(1)} sn`;
+  if (seconds < 60) return `${Math.round(seconds)} sn`;
+  return `${(seconds / 60).toFixed(1)} dk`;
+}
@@ -1,9 +1,19 @@
-import type { ProcessingProgress } from "../types";
+import type { PhotoError, PhotoErrorKind, ProcessingProgress } from "../types";
 import { useEffect, useState } from "react";
+import {
+  getWorkerStatus,
+  type WorkerBridgeStatus,
+} from "../engine/WorkerBridge";
 
 interface Props {
   progress: ProcessingProgress;
   onCancel: () => void;
+  /** Photos that failed in this run; the rest keep processing */
+  photoErrors: PhotoError[];
+  onRetryPhoto: (photoId: string) => void;
+  onSkipPhoto: (photoId: string) => void;
+  /** Go on with the photos that succeeded */
+  onSkipFailed: () => void;
 }
 
 const phaseLabels: Record<ProcessingProgress["phase"], string> = {
@@ -16,6 +26,13 @@ const phaseLabels: Record<ProcessingProgress["phase"], string> = {
   complete: "Rendering Complete",
 };
 
+const errorKindLabels: Record<PhotoErrorKind, string> = {
+  decode: "Görüntü okunamadı",
+  oom: "Bellek yetersiz",
+  model: "Model hatası",
+  mesh: "Mesh hatası",
+};
+
 const phaseIcons: Record<ProcessingProgress["phase"], string> = {
   "loading-model": "🔮",
   estimating: "🧠",
@@ -26,9 +43,17 @@ const phaseIcons: Record<ProcessingProgress["phase"], string> = {
   complete: "✅",
 };
 
-export function ProcessingView({ progress, onCancel }: Props) {
+export function ProcessingView({
+  progress,
+  onCancel,
+  photoErrors,
+  onRetryPhoto,
+  onSkipPhoto,
+  onSkipFailed,
+}: Props) {
   const isComplete = progress.phase === "complete";
   const [dots, setDots] = useState("");
+  const [workers, setWorkers] = useState<WorkerBridgeStatus>(getWorkerStatus);
 
   // Animated dots for "Processing..." effect
   useEffect(() => {
@@ -38,6 +63,14 @@ export function ProcessingView({ progress, onCancel }: Props) {
     return () => clearInterval(interval);
   }, []);
 
+  // Worker pool health (restarts, retries) is polled, not pushed
+  useEffect(() => {
+    const interval = setInterval(() => setWorkers(getWorkerStatus()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { health } = workers;
+
   return (
     <div className="w-full max-w-2xl mx-auto px-4 mt-8 md:mt-16">
       {/* Holographic Container */}
@@ -113,14 +146,70 @@ export function ProcessingView({ progress, onCancel }: Props) {
               </span>
               <span>
                 TAHMİNİ SÜRE:{" "}
-                {progress.estimatedTimeRemaining &&
-                progress.estimatedTimeRemaining > 0
-                  ? `${Math.ceil(progress.estimatedTimeRemaining / 1000)}s`
+                {progress.estimatedTimeRemaining !== undefined
+                  ? formatDuration(progress.estimatedTimeRemaining)
                   : "HESAPLANIYOR..."}
               </span>
             </div>
           </div>
 
+          {/* Failed Photos */}
+          {photoErrors.length > 0 && (
+            <div className="w-full max-w-md mb-8 rounded-xl border border-danger/30 bg-danger/5 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-mono uppercase tracking-wide text-danger">
+                  {photoErrors.length} fotoğraf başarısız
+                </span>
+                <button
+                  type="button"
+                  onClick={onSkipFailed}
+                  disabled={photoErrors.some((e) => e.retrying)}
+                  className="px-2 py-1 rounded-md text-[11px] bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40 transition-colors"
+                >
+                  Başarılı olanlarla devam et
+                </button>
+              </div>
+              {photoErrors.map((e) => (
+                <div
+                  key={e.photoId}
+                  className="flex items-center gap-2 text-xs rounded-lg bg-base/60 px-2 py-1.5"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-200 truncate">{e.photoName}</p>
+                    <p
+                      className="text-[11px] text-danger/80 truncate"
+                      title={e.message}
+                    >
+                      {errorKindLabels[e.kind]} • {e.message}
+                    </p>
+                  </div>
+                  {e.retrying ? (
+                    <span className="text-[11px] text-primary animate-pulse">
+                      Deneniyor...
+                    </span>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => onRetryPhoto(e.photoId)}
+                        className="px-2 py-1 rounded-md bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+                      >
+                        Tekrar dene
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onSkipPhoto(e.photoId)}
+                        className="px-2 py-1 rounded-md bg-white/5 text-gray-400 hover:bg-white/10 transition-colors"
+                      >
+                        Atla
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Action Buttons */}
           {!isComplete && (
             <button
@@ -131,12 +220,46 @@ export function ProcessingView({ progress, onCancel }: Props) {
             </button>
           )}
 
+          {/* Worker Health */}
+          <div className="w-full mt-8 p-3 rounded-xl bg-black/20 border border-white/5 font-mono text-[11px] space-y-1">
+            <div className="flex justify-between text-gray-500 uppercase">
+              <span>
+                {workers.mode === "worker"
+                  ? `İşçiler ${workers.busyWorkers}/${workers.poolSize}`
+                  : "Ana thread"}
+              </span>
+              <span
+                className={
+                  health.restarts > 0 ? "text-warning" : "text-gray-500"
+                }
+              >
+                Yeniden başlatma: {health.restarts}
+                {health.restarting > 0 && ` (+${health.restarting})`}
+              </span>
+            </div>
+            {health.retriedJobs.length > 0 && (
+              <p className="text-warning truncate">
+                Tekrar denenen: {health.retriedJobs.join(", ")}
+              </p>
+            )}
+            {health.lastError && (
+              <p
+                className="text-danger/80 truncate"
+                title={health.lastError.message}
+              >
+                Son hata: {health.lastError.message}
+              </p>
+            )}
+          </div>
+
           {/* Terminal Log Styled Steps (Mobile Friendly) */}
-          <div className="w-full mt-8 p-4 rounded-xl bg-black/40 border border-white/5 font-mono text-xs md:text-sm space-y-2 max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+          <div className="w-full mt-4 p-4 rounded-xl bg-black/40 border border-white/5 font-mono text-xs md:text-sm space-y-2 max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
             {Object.keys(phaseLabels).map((phase) => {
               const p = phase as ProcessingProgress["phase"];
               const isDone = getPhaseStatus(progress.phase, p) === "done";
               const isActive = progress.phase === p;
+              const spent =
+                p === "complete" ? undefined : progress.phaseDurations?.[p];
 
               return (
                 <div
@@ -149,6 +272,11 @@ export function ProcessingView({ progress, onCancel }: Props) {
                   <span className="flex-1 capitalize truncate">
                     {phase.replace("-", " ")}
                   </span>
+                  {spent !== undefined && (
+                    <span className="text-[10px] text-gray-500">
+                      {formatDuration(spent)}
+                    </span>
+                  )}
                   {isActive && <span className="animate-pulse">_</span>}
                 </div>
               );
@@ -160,6 +288,14 @@ export function ProcessingView({ progress, onCancel }: Props) {
   );
 }
 
+/** "42s", "3dk 05s" */
+function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}dk ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
 // Helper to determine phase status order
 function getPhaseStatus(
   current: ProcessingProgress["phase"],
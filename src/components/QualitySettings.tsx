@@ -305,6 +305,38 @@ export function QualitySettings({
             </div>
           )}
 
+          {/* Triangle budget slider */}
+          <div className="bg-surface/50 rounded-xl p-4 border border-white/5 mb-4">
+            <div className="flex justify-between mb-2">
+              <label className="text-sm text-gray-300">
+                Üçgen Bütçesi (Fotoğraf Başına)
+              </label>
+              <span className="text-sm font-mono text-primary font-bold">
+                {settings.triangleBudget > 0
+                  ? `${Math.round(settings.triangleBudget / 1000)}k`
+                  : "Tam"}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1_000_000}
+              step={50_000}
+              value={settings.triangleBudget}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary hover:accent-primary-dim transition-all"
+              onChange={(e) =>
+                dispatch({
+                  type: "SET_QUALITY",
+                  settings: { triangleBudget: parseInt(e.target.value) },
+                })
+              }
+            />
+            <p className="text-[10px] text-gray-500 mt-2">
+              * Düz yüzeyler sadeleştirilir, kenarlar ve doku korunur. 0 tam
+              çözünürlüklü ızgarayı bırakır.
+            </p>
+          </div>
+
           {/* Smoothing slider (visible when enabled) */}
           {settings.enableSmoothing && (
             <div className="bg-surface/50 rounded-xl p-4 border border-white/5 mb-4 animate-in slide-in-from-top-2">
@@ -0,0 +1,48 @@
+import type { ResumableRun } from "../engine/Persistence";
+
+interface Props {
+  run: ResumableRun;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Offers to continue a processing run that was cut short, skipping the
+ * photos whose results were already saved.
+ */
+export function ResumeBanner({ run, onResume, onDismiss }: Props) {
+  const total = run.manifest.photoIds.length;
+  const done = run.manifest.photoIds.filter((id) => run.results.has(id)).length;
+  const startedAt = new Date(run.manifest.startedAt).toLocaleString("tr-TR");
+
+  return (
+    <div className="max-w-3xl mx-auto mb-6 glass-panel rounded-2xl border border-primary/20 p-4 flex flex-col sm:flex-row sm:items-center gap-3 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="text-2xl">⏯️</div>
+      <div className="flex-1">
+        <h3 className="text-sm font-medium text-white">
+          Yarım kalan işlem bulundu
+        </h3>
+        <p className="text-xs text-gray-400 mt-0.5">
+          {startedAt} tarihinde başlatılan işlemde {done}/{total} fotoğraf
+          tamamlandı. Kalan fotoğraflar aynı ayarlarla işlenebilir.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="px-3 py-1.5 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+        >
+          Yok say
+        </button>
+        <button
+          type="button"
+          onClick={onResume}
+          className="px-4 py-1.5 rounded-lg text-xs font-medium bg-primary/20 text-primary border border-primary/30 hover:bg-primary/30 transition-colors"
+        >
+          İşleme devam et
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,11 @@
-import { useRef, useCallback, useEffect, Suspense, useState } from "react";
+import {
+  useRef,
+  useCallback,
+  useEffect,
+  useMemo,
+  Suspense,
+  useState,
+} from "react";
 import type { Dispatch } from "react";
 import * as THREE from "three";
 import { Canvas, useThree, useFrame } from "@react-three/fiber";
@@ -14,6 +21,7 @@ import type {
   ViewMode,
   AppAction,
   QualitySettings,
+  RunTimingReport,
 } from "../types";
 import { DepthMesh } from "./DepthMesh";
 import { DepthPreview } from "./DepthPreview";
@@ -21,10 +29,14 @@ import {
   exportGLTF,
   exportOBJ,
   exportSTL,
+  export3MF,
   exportScreenshot,
   exportPLY,
   exportScreenshotHD,
+  exportTimingReport,
 } from "../engine/Exporter";
+import { WebGLContextLostError, errorInfo } from "../engine/Errors";
+import { DEFAULT_BASE_THICKNESS } from "../engine/Solidify";
 
 interface Props {
   meshes: ProcessedMesh[];
@@ -33,14 +45,17 @@ interface Props {
   depthScale: number;
   selectedMeshIndex: number;
   qualitySettings: QualitySettings;
+  /** Timings of the run that produced the meshes, if any */
+  timingReport: RunTimingReport | null;
   dispatch: Dispatch<AppAction>;
   onNewProject: () => void;
 }
 
 interface ExportFns {
-  gltf: () => void;
+  gltf: () => void | Promise<void>;
   obj: () => void;
   stl: () => void;
+  "3mf": () => void;
   screenshot: () => void;
   ply: () => void;
   screenshotHD: () => void;
@@ -60,6 +75,9 @@ const MATERIAL_PRESETS: Record<string, { roughness: number; metalness: number; l
   metallic: { roughness: 0.3, metalness: 0.9, label: "Metallic" },
 };
 
+// Level-of-detail distance scale when every mesh is shown side by side
+const WHOLE_SCENE_LOD_BIAS = 0.5;
+
 function CameraController({
   targetPosition,
   controlsRef,
@@ -92,21 +110,26 @@ function CameraController({
 
 function SceneExporter({
   exportRef,
+  metric,
+  baseThickness,
 }: {
   exportRef: React.MutableRefObject<ExportFns | null>;
+  metric: boolean;
+  baseThickness: number;
 }) {
   const { scene, gl } = useThree();
 
   useEffect(() => {
     exportRef.current = {
       gltf: () => exportGLTF(scene),
-      obj: () => exportOBJ(scene),
-      stl: () => exportSTL(scene),
+      obj: () => exportOBJ(scene, { metric }),
+      stl: () => exportSTL(scene, { metric, baseThickness }),
+      "3mf": () => export3MF(scene, { metric, baseThickness }),
       screenshot: () => exportScreenshot(gl),
-      ply: () => exportPLY(scene),
+      ply: () => exportPLY(scene, { metric }),
       screenshotHD: () => exportScreenshotHD(gl),
     };
-  }, [scene, gl, exportRef]);
+  }, [scene, gl, exportRef, metric, baseThickness]);
 
   return null;
 }
@@ -118,6 +141,7 @@ export function Viewer3D({
   depthScale,
   selectedMeshIndex,
   qualitySettings,
+  timingReport,
   dispatch,
   onNewProject,
 }: Props) {
@@ -128,15 +152,36 @@ export function Viewer3D({
   const [cameraTarget, setCameraTarget] = useState<[number, number, number] | null>(null);
   const [materialPreset, setMaterialPreset] = useState<string>("default");
   const [showDepthPreview, setShowDepthPreview] = useState(false);
+  const [baseThickness, setBaseThickness] = useState(DEFAULT_BASE_THICKNESS);
 
   const activeMaterial = MATERIAL_PRESETS[materialPreset];
 
+  // Metric meshes are built at real scale — the depth slider does not apply
+  const isMetricScene = meshes.length > 0 && meshes.every((m) => m.encoding === "metric");
+
+  const metricSize = useMemo(() => {
+    if (!isMetricScene) return null;
+    const targets =
+      selectedMeshIndex >= 0 && meshes[selectedMeshIndex]
+        ? [meshes[selectedMeshIndex]]
+        : meshes;
+    const box = new THREE.Box3();
+    for (const mesh of targets) {
+      if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+      if (mesh.geometry.boundingBox) box.union(mesh.geometry.boundingBox);
+    }
+    return box.isEmpty() ? null : box.getSize(new THREE.Vector3());
+  }, [isMetricScene, meshes, selectedMeshIndex]);
+
   const handleExport = useCallback(
-    (format: "gltf" | "obj" | "stl" | "screenshot" | "ply" | "screenshotHD") => {
-      exportRef.current?.[format]?.();
+    (format: "gltf" | "obj" | "stl" | "3mf" | "screenshot" | "ply" | "screenshotHD") => {
       setIsExportMenuOpen(false);
+      // Sync exporters throw and the GLB one rejects; both reach ErrorDisplay
+      Promise.resolve()
+        .then(() => exportRef.current?.[format]?.())
+        .catch((err) => dispatch({ type: "SET_ERROR", error: errorInfo(err) }));
     },
-    [],
+    [dispatch],
   );
 
   const spacing = 5;
@@ -189,6 +234,12 @@ export function Viewer3D({
                 </option>
               ))}
             </select>
+            {metricSize && (
+              <span className="text-[10px] text-secondary font-mono block mt-1">
+                📏 {metricSize.x.toFixed(2)} × {metricSize.y.toFixed(2)} ×{" "}
+                {metricSize.z.toFixed(2)} m
+              </span>
+            )}
           </div>
         </div>
 
@@ -234,6 +285,9 @@ export function Viewer3D({
               width={m.width}
               height={m.height}
               photoUrl={m.textureUrl}
+              confidence={m.confidence}
+              rawDepth={m.rawDepth}
+              stages={qualitySettings.postProcess}
             />
           </div>
         ) : null;
@@ -252,6 +306,15 @@ export function Viewer3D({
             toneMappingExposure: 0.65,
             outputColorSpace: THREE.SRGBColorSpace,
           }}
+          onCreated={({ gl }) => {
+            gl.domElement.addEventListener("webglcontextlost", (e) => {
+              e.preventDefault();
+              dispatch({
+                type: "SET_ERROR",
+                error: errorInfo(new WebGLContextLostError("viewer")),
+              });
+            });
+          }}
         >
           <color attach="background" args={["#0a0a0f"]} />
           <fog attach="fog" args={["#0a0a0f", 30, 80]} />
@@ -283,6 +346,7 @@ export function Viewer3D({
                     metalness={activeMaterial.metalness}
                     depthScale={depthScale}
                     normalMap={m.normalMap ?? null}
+                    lodBias={WHOLE_SCENE_LOD_BIAS}
                     />
                   ))
                 : meshes[selectedMeshIndex] && (
@@ -333,7 +397,11 @@ export function Viewer3D({
           />
 
           <CameraController targetPosition={cameraTarget} controlsRef={controlsRef} />
-          <SceneExporter exportRef={exportRef} />
+          <SceneExporter
+            exportRef={exportRef}
+            metric={isMetricScene}
+            baseThickness={baseThickness}
+          />
 
           <EffectComposer enableNormalPass>
             <SSAO radius={0.3} intensity={6} luminanceInfluence={0.15} />
@@ -346,7 +414,7 @@ export function Viewer3D({
         <div className="glass-panel rounded-xl md:rounded-2xl p-2 md:p-4 flex flex-row flex-wrap gap-1.5 md:gap-4 items-center justify-between">
           {/* View Modes */}
           <div className="flex bg-black/40 rounded-lg md:rounded-xl p-0.5 md:p-1 border border-white/5">
-            {(["textured", "solid", "wireframe"] as ViewMode[]).map((mode) => (
+            {(["textured", "solid", "wireframe", "confidence"] as ViewMode[]).map((mode) => (
               <button
                 key={mode}
                 onClick={() => dispatch({ type: "SET_VIEW_MODE", mode })}
@@ -358,37 +426,52 @@ export function Viewer3D({
                     }
                   `}
               >
-                {mode === "textured" ? "T" : mode === "solid" ? "S" : "W"}
+                {mode === "textured"
+                  ? "T"
+                  : mode === "solid"
+                    ? "S"
+                    : mode === "wireframe"
+                      ? "W"
+                      : "C"}
                 <span className="hidden md:inline ml-1 capitalize">{mode}</span>
               </button>
             ))}
           </div>
 
           {/* Depth Slider */}
-          <div className="flex items-center gap-1.5 md:gap-3 flex-1 min-w-[100px] md:flex-none md:w-auto">
-            <span className="text-[10px] text-gray-500 font-mono uppercase">
-              Depth
+          {isMetricScene ? (
+            <span
+              className="text-[10px] text-secondary font-mono uppercase px-2"
+              title="Metrik derinlik: gerçek ölçekte (metre)"
+            >
+              Ölçek 1:1 (m)
             </span>
-            <div className="relative flex-1 md:w-32 h-6 flex items-center">
-              <input
-                type="range"
-                min="0.5"
-                max="8"
-                step="0.1"
-                value={depthScale}
-                onChange={(e) =>
-                  dispatch({
-                    type: "SET_DEPTH_SCALE",
-                    scale: parseFloat(e.target.value),
-                  })
-                }
-                className="w-full h-1 bg-white/20 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:shadow-[0_0_10px_rgba(0,212,255,0.8)]"
-              />
+          ) : (
+            <div className="flex items-center gap-1.5 md:gap-3 flex-1 min-w-[100px] md:flex-none md:w-auto">
+              <span className="text-[10px] text-gray-500 font-mono uppercase">
+                Depth
+              </span>
+              <div className="relative flex-1 md:w-32 h-6 flex items-center">
+                <input
+                  type="range"
+                  min="0.5"
+                  max="8"
+                  step="0.1"
+                  value={depthScale}
+                  onChange={(e) =>
+                    dispatch({
+                      type: "SET_DEPTH_SCALE",
+                      scale: parseFloat(e.target.value),
+                    })
+                  }
+                  className="w-full h-1 bg-white/20 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:shadow-[0_0_10px_rgba(0,212,255,0.8)]"
+                />
+              </div>
+              <span className="text-xs font-mono text-primary min-w-[3ch]">
+                {depthScale.toFixed(1)}
+              </span>
             </div>
-            <span className="text-xs font-mono text-primary min-w-[3ch]">
-              {depthScale.toFixed(1)}
-            </span>
-          </div>
+          )}
 
           {/* Material Presets — desktop only */}
           <div className="hidden md:flex bg-black/40 rounded-xl p-1 border border-white/5">
@@ -467,6 +550,33 @@ export function Viewer3D({
                       Print
                     </span>
                   </button>
+                  <button
+                    onClick={() => handleExport("3mf")}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/10 text-left text-sm text-gray-200 transition-colors"
+                  >
+                    <span>🖨️</span> 3MF{" "}
+                    <span className="text-[10px] ml-auto text-gray-600">
+                      Print
+                    </span>
+                  </button>
+                  <label
+                    className="flex items-center gap-2 px-3 py-1 text-[10px] text-gray-500"
+                    title="Baskı tabanının kalınlığı, rölyef derinliğine oranla"
+                  >
+                    Taban
+                    <input
+                      type="range"
+                      min={0.02}
+                      max={0.5}
+                      step={0.02}
+                      value={baseThickness}
+                      onChange={(e) => setBaseThickness(parseFloat(e.target.value))}
+                      className="flex-1 accent-primary"
+                    />
+                    <span className="font-mono w-8 text-right">
+                      %{Math.round(baseThickness * 100)}
+                    </span>
+                  </label>
                   <div className="h-px bg-white/10 my-1" />
                   <button
                     onClick={() => handleExport("ply")}
@@ -493,6 +603,23 @@ export function Viewer3D({
                       2x
                     </span>
                   </button>
+                  {timingReport && (
+                    <>
+                      <div className="h-px bg-white/10 my-1" />
+                      <button
+                        onClick={() => {
+                          exportTimingReport(timingReport);
+                          setIsExportMenuOpen(false);
+                        }}
+                        className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/10 text-left text-sm text-gray-200 transition-colors"
+                      >
+                        <span>⏱️</span> Zamanlama{" "}
+                        <span className="text-[10px] ml-auto text-gray-500">
+                          JSON
+                        </span>
+                      </button>
+                    </>
+                  )}
                 </div>
               )}
             </div>
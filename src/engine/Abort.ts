@@ -0,0 +1,28 @@
+/**
+ * Abort.ts
+ *
+ * Helpers for cooperative cancellation with AbortSignal. Synchronous loops
+ * can't notice an abort while they hold the thread — the cancel click or
+ * worker message is only delivered once they return — so long jobs are
+ * split at stage boundaries with `checkpoint()`, which yields to the event
+ * loop and then throws if the signal fired. Loops additionally call
+ * `signal.throwIfAborted()` so an already-cancelled job stops at once.
+ */
+
+export function abortError(): DOMException {
+  return new DOMException("Aborted", "AbortError");
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err as { name?: string } | null)?.name === "AbortError";
+}
+
+/**
+ * Lets pending events (a cancel click, a worker "cancel" message) run, then
+ * throws the signal's reason if it was aborted.
+ */
+export async function checkpoint(signal?: AbortSignal): Promise<void> {
+  if (!signal) return;
+  await new Promise<void>((resolve) => setTimeout(resolve, 0));
+  signal.throwIfAborted();
+}
@@ -0,0 +1,329 @@
+/**
+ * Benchmark.ts
+ *
+ * Runs the depth → mesh pipeline on a bundled set of synthetic photos for
+ * every combination of model size, output resolution and inference device
+ * this machine offers, and recommends QualitySettings from the results.
+ *
+ * The photos are rendered from the SyntheticBackend scenes, so nothing has
+ * to be shipped or uploaded and every machine measures the same input.
+ * Everything runs on the main thread through DepthEstimator — the worker
+ * pool would blur the per-device numbers — and the model is released
+ * afterwards. Memory is the JS heap as reported by Chromium
+ * (`performance.memory`) plus the model's estimated working set, since GPU
+ * and WASM memory can't be read from the page.
+ */
+
+import type {
+  ModelDtype,
+  ModelSize,
+  ModelSource,
+  QualitySettings,
+} from "../types";
+import { DEFAULT_QUALITY } from "../types";
+import {
+  detectBestDevice,
+  disposeModel,
+  estimateDepth,
+  loadModel,
+} from "./DepthEstimator";
+import { buildPhotoMesh } from "./MeshGenerator";
+import { estimateModelCost } from "./ModelEstimates";
+import {
+  generateSyntheticDepth,
+  type SyntheticScene,
+} from "./SyntheticBackend";
+import { TTA_VIEWS } from "./TestTimeAugmentation";
+import { isAbortError } from "./Abort";
+import { errorInfo } from "./Errors";
+
+// ---------- Types ----------
+
+export type BenchmarkDevice = "webgpu" | "wasm";
+
+export interface BenchmarkOptions {
+  modelSizes: ModelSize[];
+  resolutions?: number[];
+  dtype?: ModelDtype;
+  modelSource?: ModelSource;
+  onProgress?: (done: number, total: number, label: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface BenchmarkResult {
+  modelSize: ModelSize;
+  maxResolution: number;
+  device: BenchmarkDevice;
+  /** Model load, including the download on a cold cache */
+  loadMs: number;
+  /** Mean per photo */
+  depthMs: number;
+  /** Mean per photo, mesh build with the default smoothing and budget */
+  meshMs: number;
+  /** Highest JS heap seen during the case; Chromium only */
+  peakHeapBytes?: number;
+  /** Working set of the inference session, from ModelEstimates */
+  estimatedModelBytes: number;
+  /** Set when the case failed, e.g. ran out of memory */
+  error?: { code: string; message: string };
+}
+
+export interface BenchmarkReport {
+  startedAt: number;
+  totalMs: number;
+  dtype: ModelDtype;
+  devices: BenchmarkDevice[];
+  /** navigator.deviceMemory, in GB, where the browser exposes it */
+  deviceMemoryGB?: number;
+  hardwareConcurrency: number;
+  results: BenchmarkResult[];
+}
+
+export interface BenchmarkRecommendation {
+  settings: Partial<QualitySettings>;
+  /** The case the recommendation is based on */
+  basis: BenchmarkResult;
+  /** Expected seconds per photo with the recommended settings */
+  secondsPerPhoto: number;
+}
+
+// ---------- Image set ----------
+
+export const BENCHMARK_RESOLUTIONS = [512, 1024, 1536];
+
+/** Landscape, portrait and square photos of the synthetic scenes */
+const IMAGE_SET: { scene: SyntheticScene; width: number; height: number }[] = [
+  { scene: "box-room", width: 1600, height: 1200 },
+  { scene: "plane", width: 1200, height: 1600 },
+  { scene: "gradient", width: 1024, height: 1024 },
+];
+
+/** Seconds per photo the recommendation aims to stay under */
+const TARGET_SECONDS_PER_PHOTO = 8;
+
+/**
+ * Renders a synthetic scene as a photo: shaded by depth, with a grid
+ * texture so edge-aware filters and upsampling have detail to work on.
+ */
+async function renderSyntheticPhoto(
+  scene: SyntheticScene,
+  width: number,
+  height: number,
+): Promise<string> {
+  const depth = generateSyntheticDepth(scene, width, height);
+  let max = 0;
+  for (const d of depth) if (d > max) max = d;
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("2D canvas is not available");
+  const image = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const near = max > 0 ? depth[i] / max : 0;
+      const grid = (Math.floor(x / 48) + Math.floor(y / 48)) % 2 ? 0.85 : 1;
+      const shade = (40 + 200 * near) * grid;
+      image.data[i * 4] = shade * 0.9;
+      image.data[i * 4 + 1] = shade * 0.8;
+      image.data[i * 4 + 2] = shade;
+      image.data[i * 4 + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.9 });
+  return URL.createObjectURL(blob);
+}
+
+// ---------- Run ----------
+
+function heapBytes(): number | undefined {
+  const memory = (performance as { memory?: { usedJSHeapSize: number } })
+    .memory;
+  return memory?.usedJSHeapSize;
+}
+
+/** Devices worth measuring: WASM always, WebGPU when an adapter exists */
+async function benchmarkDevices(): Promise<BenchmarkDevice[]> {
+  return (await detectBestDevice()) === "webgpu"
+    ? ["webgpu", "wasm"]
+    : ["wasm"];
+}
+
+/**
+ * Runs every model size × resolution × device case on the synthetic image
+ * set. A failing case is recorded with its error and the run carries on;
+ * an abort stops it and releases the model.
+ */
+export async function runBenchmark({
+  modelSizes,
+  resolutions = BENCHMARK_RESOLUTIONS,
+  dtype = "fp32",
+  modelSource = "hub",
+  onProgress,
+  signal,
+}: BenchmarkOptions): Promise<BenchmarkReport> {
+  const startedAt = Date.now();
+  const start = performance.now();
+  const devices = await benchmarkDevices();
+  const results: BenchmarkResult[] = [];
+  const total = devices.length * modelSizes.length * resolutions.length;
+
+  onProgress?.(0, total, "Test görüntüleri hazırlanıyor...");
+  const images = await Promise.all(
+    IMAGE_SET.map(({ scene, width, height }) =>
+      renderSyntheticPhoto(scene, width, height),
+    ),
+  );
+
+  try {
+    for (const device of devices) {
+      for (const modelSize of modelSizes) {
+        const label = `${modelSize} • ${device}`;
+        const estimatedModelBytes = estimateModelCost(
+          modelSize,
+          dtype,
+          device,
+        ).ramBytes;
+
+        let loadMs = 0;
+        let loadError: BenchmarkResult["error"];
+        onProgress?.(results.length, total, `${label}: model yükleniyor...`);
+        try {
+          const loadStart = performance.now();
+          await loadModel(modelSize, undefined, { dtype, modelSource, device });
+          loadMs = performance.now() - loadStart;
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          const { code, message } = errorInfo(err);
+          loadError = { code, message };
+        }
+        signal?.throwIfAborted();
+
+        for (const maxResolution of resolutions) {
+          const base = {
+            modelSize,
+            maxResolution,
+            device,
+            loadMs: Math.round(loadMs),
+            estimatedModelBytes,
+          };
+          if (loadError) {
+            results.push({ ...base, depthMs: 0, meshMs: 0, error: loadError });
+            continue;
+          }
+
+          onProgress?.(results.length, total, `${label} • ${maxResolution}px`);
+          let depthMs = 0;
+          let meshMs = 0;
+          let peakHeapBytes = heapBytes();
+          try {
+            for (const url of images) {
+              const depthStart = performance.now();
+              const depth = await estimateDepth(url, maxResolution, { signal });
+              depthMs += performance.now() - depthStart;
+              peakHeapBytes = Math.max(peakHeapBytes ?? 0, heapBytes() ?? 0);
+
+              const meshStart = performance.now();
+              const { geometry } = await buildPhotoMesh(
+                depth.depthMap,
+                depth.width,
+                depth.height,
+                depth.encoding,
+                depth.confidence,
+                {
+                  depthScale: 1.5,
+                  smoothingIterations: DEFAULT_QUALITY.smoothingIterations,
+                  triangleBudget: DEFAULT_QUALITY.triangleBudget,
+                },
+                signal,
+              );
+              meshMs += performance.now() - meshStart;
+              peakHeapBytes = Math.max(peakHeapBytes ?? 0, heapBytes() ?? 0);
+              geometry.dispose();
+            }
+            results.push({
+              ...base,
+              depthMs: Math.round(depthMs / images.length),
+              meshMs: Math.round(meshMs / images.length),
+              ...(peakHeapBytes ? { peakHeapBytes } : {}),
+            });
+          } catch (err) {
+            if (isAbortError(err)) throw err;
+            const { code, message } = errorInfo(err);
+            results.push({
+              ...base,
+              depthMs: 0,
+              meshMs: 0,
+              error: { code, message },
+            });
+          }
+        }
+      }
+    }
+  } finally {
+    images.forEach((url) => URL.revokeObjectURL(url));
+    await disposeModel();
+  }
+
+  onProgress?.(total, total, "Tamamlandı");
+  const deviceMemoryGB = (navigator as { deviceMemory?: number }).deviceMemory;
+  return {
+    startedAt,
+    totalMs: Math.round(performance.now() - start),
+    dtype,
+    devices,
+    ...(deviceMemoryGB ? { deviceMemoryGB } : {}),
+    hardwareConcurrency: navigator.hardwareConcurrency ?? 1,
+    results,
+  };
+}
+
+// ---------- Recommendation ----------
+
+const MODEL_RANK: Record<ModelSize, number> = { small: 1, base: 2, large: 3 };
+
+/**
+ * Picks the highest-quality case that stays within the time budget per
+ * photo and a quarter of the device's memory, preferring a larger model
+ * over a higher resolution. TTA is switched on when even its extra passes
+ * fit the budget. Returns null when no case succeeded.
+ */
+export function recommendSettings(
+  report: BenchmarkReport,
+  targetSeconds: number = TARGET_SECONDS_PER_PHOTO,
+): BenchmarkRecommendation | null {
+  const memoryBudget = (report.deviceMemoryGB ?? 8) * 1024 ** 3 * 0.25;
+  const ok = report.results.filter((r) => !r.error);
+  if (ok.length === 0) return null;
+
+  const seconds = (r: BenchmarkResult) => (r.depthMs + r.meshMs) / 1000;
+  const fits = ok.filter(
+    (r) => seconds(r) <= targetSeconds && r.estimatedModelBytes <= memoryBudget,
+  );
+  // Nothing fits: fall back to the fastest case that worked
+  const candidates =
+    fits.length > 0
+      ? fits
+      : [ok.reduce((a, b) => (seconds(a) <= seconds(b) ? a : b))];
+
+  const score = (r: BenchmarkResult) =>
+    MODEL_RANK[r.modelSize] * 10_000 + r.maxResolution - seconds(r);
+  const basis = candidates.reduce((a, b) => (score(a) >= score(b) ? a : b));
+
+  const ttaSeconds = (basis.depthMs * TTA_VIEWS.length + basis.meshMs) / 1000;
+  const enableTTA = ttaSeconds <= targetSeconds;
+
+  return {
+    settings: {
+      modelSize: basis.modelSize,
+      maxResolution: basis.maxResolution,
+      modelDtype: report.dtype,
+      depthBackend: "transformers",
+      tileGrid: 1,
+      enableTTA,
+    },
+    basis,
+    secondsPerPhoto: enableTTA ? ttaSeconds : seconds(basis),
+  };
+}
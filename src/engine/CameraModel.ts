@@ -0,0 +1,162 @@
+/**
+ * CameraModel.ts
+ *
+ * Pinhole camera model for turning a depth map back into 3D points.
+ * Intrinsics come from the photo's EXIF (`CameraIntrinsics`) and are
+ * expressed in pixels of the depth map, so the same lens gives the same
+ * rays at any inference resolution.
+ *
+ * Metric maps are back-projected at real scale with the camera at the
+ * origin. Relative maps have no scale, so the camera is pulled back until
+ * the nearest depth is 4 units tall — the size the viewer is framed for —
+ * and the relief then stretches `depthScale` units away from it. Either
+ * way the camera pose is kept with the mesh, so meshes taken with
+ * different lenses line up and distances on them stay comparable.
+ */
+
+import { Matrix4 } from "three";
+import type { CameraIntrinsics, CameraPose, DepthEncoding } from "../types";
+
+// ---------- Intrinsics ----------
+
+/** Fallback horizontal field of view when the photo has no EXIF */
+export const DEFAULT_FOV = 60;
+
+// Height of the nearest depth for relative meshes, in scene units
+const RELATIVE_NEAR_HEIGHT = 4;
+
+/**
+ * Focal lengths and principal point in pixels of a `width` × `height`
+ * map. The EXIF sensor width is the 35mm-equivalent long side, so it maps
+ * onto the longer image side whatever the orientation; pixels are square
+ * and the principal point sits at the image centre.
+ */
+export function pinholeIntrinsics(
+  width: number,
+  height: number,
+  cameraIntrinsics?: CameraIntrinsics,
+  fov: number = DEFAULT_FOV,
+): Pick<CameraPose, "fx" | "fy" | "cx" | "cy"> {
+  const longSide = Math.max(width, height);
+  let focal: number;
+  if (
+    cameraIntrinsics &&
+    cameraIntrinsics.focalLength > 0 &&
+    cameraIntrinsics.sensorWidth > 0
+  ) {
+    focal =
+      (cameraIntrinsics.focalLength / cameraIntrinsics.sensorWidth) * longSide;
+  } else {
+    const degrees = cameraIntrinsics?.fov ?? fov;
+    focal = longSide / 2 / Math.tan((degrees * Math.PI) / 180 / 2);
+  }
+  return { fx: focal, fy: focal, cx: width / 2, cy: height / 2 };
+}
+
+// ---------- Pose ----------
+
+export interface CameraPoseOptions {
+  width: number;
+  height: number;
+  cameraIntrinsics?: CameraIntrinsics;
+  fov?: number;
+  encoding: DepthEncoding;
+  /** Relief depth of relative meshes; metric meshes use real distances */
+  depthScale: number;
+  /** False flattens relative meshes onto parallel rays */
+  perspective?: boolean;
+}
+
+/**
+ * The camera a depth mesh is built from. Metric meshes keep the camera at
+ * the origin; relative meshes put it `depthScale` plus the near distance
+ * up the +Z axis, so the relief still spans z ∈ [0, depthScale].
+ */
+export function createCameraPose({
+  width,
+  height,
+  cameraIntrinsics,
+  fov,
+  encoding,
+  depthScale,
+  perspective = true,
+}: CameraPoseOptions): CameraPose {
+  const intrinsics = pinholeIntrinsics(width, height, cameraIntrinsics, fov);
+  const metric = encoding === "metric";
+  const z = metric ? 0 : nearDistance(intrinsics.fy, height) + depthScale;
+
+  return {
+    ...intrinsics,
+    width,
+    height,
+    projection: metric || perspective ? "perspective" : "orthographic",
+    matrix: new Matrix4().makeTranslation(0, 0, z).toArray(),
+  };
+}
+
+/**
+ * Pose of an unaligned relative mesh rebuilt for another depth scale; the
+ * intrinsics stay, the camera moves so the relief still starts at z = 0.
+ */
+export function rescaleCameraPose(
+  pose: CameraPose,
+  depthScale: number,
+): CameraPose {
+  const z = nearDistance(pose.fy, pose.height) + depthScale;
+  return { ...pose, matrix: new Matrix4().makeTranslation(0, 0, z).toArray() };
+}
+
+/** Distance at which a relative mesh's nearest depth is 4 units tall */
+function nearDistance(fy: number, height: number): number {
+  return (RELATIVE_NEAR_HEIGHT * fy) / height;
+}
+
+// ---------- Back-projection ----------
+
+/**
+ * Back-projects image point (x, y) — continuous pixel coordinates of the
+ * depth map — at `distance` along the optical axis, into camera space
+ * (looking down -Z, +Y up). Orthographic poses keep X/Y at the near-plane
+ * scale. Writes into `out` and returns it.
+ */
+export function unproject(
+  pose: CameraPose,
+  x: number,
+  y: number,
+  distance: number,
+  out: [number, number, number] = [0, 0, 0],
+): [number, number, number] {
+  const scale =
+    pose.projection === "orthographic"
+      ? nearDistance(pose.fy, pose.height)
+      : distance;
+  out[0] = ((x - pose.cx) / pose.fx) * scale;
+  out[1] = (-(y - pose.cy) / pose.fy) * scale;
+  out[2] = -distance;
+  return out;
+}
+
+/** Z of the camera centre in the space an unaligned mesh is built in */
+export function cameraZ(pose: CameraPose): number {
+  return pose.matrix[14];
+}
+
+/**
+ * Moves a point of an unaligned mesh along its camera ray so it ends up at
+ * height `targetZ`. Keeps points on their pixel's ray when a stage clamps
+ * depth.
+ */
+export function slideAlongRay(
+  pose: CameraPose,
+  position: [number, number, number],
+  targetZ: number,
+): [number, number, number] {
+  const camera = cameraZ(pose);
+  const from = camera - position[2];
+  const to = camera - targetZ;
+  const k = pose.projection === "orthographic" || from === 0 ? 1 : to / from;
+  position[0] *= k;
+  position[1] *= k;
+  position[2] = targetZ;
+  return position;
+}
@@ -0,0 +1,129 @@
+/**
+ * DepthBackend.ts
+ *
+ * Pluggable depth inference backends. `DepthEstimator` and the
+ * `ProcessingWorker` only talk to this interface, so everything downstream
+ * (post-processing, mesh generation, the viewer) is agnostic to whether the
+ * depth comes from an ONNX model or from the bundled synthetic generator,
+ * which needs no download and runs on any CPU.
+ */
+
+import type {
+  DepthBackendId,
+  DepthEncoding,
+  DepthMode,
+  ModelDtype,
+  ModelSize,
+  ModelSource,
+} from "../types";
+import { createTransformersBackend } from "./TransformersBackend";
+import { createSyntheticBackend } from "./SyntheticBackend";
+
+// ---------- Types ----------
+
+export type InferenceDevice = "webgpu" | "wasm" | "cpu";
+
+export interface DepthBackendCapabilities {
+  id: DepthBackendId;
+  label: string;
+  /** Model weights have to be fetched before the first `load` */
+  requiresDownload: boolean;
+  /** Safe to run inside a Web Worker (no DOM access) */
+  workerSafe: boolean;
+  modelSizes: ModelSize[];
+  depthModes: DepthMode[];
+}
+
+/** Which checkpoint a backend should prepare */
+export interface DepthModelSpec {
+  modelSize: ModelSize;
+  depthMode: DepthMode;
+  /** Defaults to "hub" */
+  modelSource?: ModelSource;
+  /** Defaults to "fp32" */
+  dtype?: ModelDtype;
+  /** Runtime to load on; defaults to the best detected (benchmarks pin it) */
+  device?: "webgpu" | "wasm";
+}
+
+/**
+ * Sub-rectangle of the image in normalized [0, 1] coordinates, used for
+ * tiled inference.
+ */
+export interface DepthRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** How the input is presented to the network for one inference pass */
+export interface DepthView {
+  /** Only estimate this part of the image (tiled inference) */
+  region?: DepthRegion;
+  /** Mirror the input horizontally — the output is flipped back */
+  flipX?: boolean;
+  /** Network input size relative to the backend's native size */
+  inputScale?: number;
+}
+
+/**
+ * Raw backend output at the backend's native resolution.
+ * Relative output is "disparity" (not normalized); metric output is the
+ * distance from the camera in meters.
+ */
+export interface RawDepthOutput {
+  data: Float32Array;
+  width: number;
+  height: number;
+  encoding: Exclude<DepthEncoding, "depth">;
+  /** Per-pixel variance across test-time augmentation passes */
+  variance?: Float32Array;
+}
+
+export interface DepthBackend {
+  readonly capabilities: DepthBackendCapabilities;
+  /** Prepares the backend for `spec` and resolves with the device used */
+  load(
+    spec: DepthModelSpec,
+    onProgress?: (msg: string) => void,
+  ): Promise<InferenceDevice>;
+  /** Estimates depth for the image as presented by `view` */
+  estimate(imageUrl: string, view?: DepthView): Promise<RawDepthOutput>;
+  /** Releases the loaded model; resolves once its memory is freed */
+  dispose(): Promise<void>;
+  isLoaded(): boolean;
+  loadedSpec(): DepthModelSpec | null;
+}
+
+// ---------- Registry ----------
+
+const factories: Record<DepthBackendId, () => DepthBackend> = {
+  transformers: createTransformersBackend,
+  synthetic: createSyntheticBackend,
+};
+
+// One instance per backend and thread — the worker keeps its own registry.
+const instances = new Map<DepthBackendId, DepthBackend>();
+
+/**
+ * Returns the (lazily created) backend instance for `id`.
+ */
+export function getDepthBackend(id: DepthBackendId): DepthBackend {
+  let backend = instances.get(id);
+  if (!backend) {
+    const factory = factories[id] ?? factories.transformers;
+    backend = factory();
+    instances.set(id, backend);
+  }
+  return backend;
+}
+
+/**
+ * Lists the capabilities of every registered backend.
+ */
+export function listDepthBackends(): DepthBackendCapabilities[] {
+  return (Object.keys(factories) as DepthBackendId[]).map(
+    (id) => getDepthBackend(id).capabilities,
+  );
+}
@@ -1,402 +1,374 @@
-import { pipeline, env } from "@huggingface/transformers";
-import type { ModelSize } from "../types";
-
-env.allowLocalModels = false;
-
-let depthPipeline: any = null;
-let currentModelSize: ModelSize | null = null;
-let activeDevice: "webgpu" | "wasm" = "wasm";
-let deviceDetected = false;
-
-const MODEL_MAP: Record<ModelSize, string> = {
-  small: "onnx-community/depth-anything-v2-small",
-  base: "onnx-community/depth-anything-v2-base",
-  large: "onnx-community/depth-anything-v2-large",
-};
-
-/**
- * Detects the best available ONNX runtime device.
- * Prefers WebGPU for GPU-accelerated inference, falls back to WASM.
- */
-export async function detectBestDevice(): Promise<"webgpu" | "wasm"> {
-  if (deviceDetected) return activeDevice;
-
-  try {
-    if (typeof navigator !== "undefined" && "gpu" in navigator) {
-      const gpu = (navigator as any).gpu;
-      if (gpu) {
-        const adapter = await gpu.requestAdapter();
-        if (adapter) {
-          activeDevice = "webgpu";
-          deviceDetected = true;
-          return "webgpu";
-        }
-      }
-    }
-  } catch {
-    // WebGPU not available or failed — fall through to WASM
-  }
+import { DEFAULT_POST_PROCESS } from "../types";
+import type {
+  DepthBackendId,
+  DepthEncoding,
+  DepthMode,
+  DepthPostStage,
+  DepthSnapshot,
+  ExternalDepth,
+  ModelDtype,
+  ModelSize,
+  ModelSource,
+  RelativeDepthEncoding,
+} from "../types";
+import { getDepthBackend } from "./DepthBackend";
+import type {
+  DepthBackend,
+  DepthView,
+  InferenceDevice,
+  RawDepthOutput,
+} from "./DepthBackend";
+import { getDetectedDevice } from "./TransformersBackend";
+import { checkpoint, isAbortError } from "./Abort";
+import { ImageDecodeError, toAppError, toModelLoadError } from "./Errors";
+import { estimateTiled } from "./TiledInference";
+import { estimateWithTTA } from "./TestTimeAugmentation";
+import {
+  createDepthSnapshot,
+  normalizeDepth,
+  resizeDepthMap,
+  runDepthPostProcess,
+} from "./DepthPostProcess";
+
+export { detectBestDevice } from "./TransformersBackend";
+
+let activeBackend: DepthBackend | null = null;
+let activeDevice: InferenceDevice | null = null;
+
+export interface LoadModelOptions {
+  backend?: DepthBackendId;
+  depthMode?: DepthMode;
+  modelSource?: ModelSource;
+  dtype?: ModelDtype;
+  device?: "webgpu" | "wasm";
+}
 
-  activeDevice = "wasm";
-  deviceDetected = true;
-  return "wasm";
+export interface EstimateDepthOptions {
+  /** Tiles per side for high-resolution inference; 1 disables tiling */
+  tileGrid?: number;
+  /** Merge flipped and multi-scale passes; their variance lowers confidence */
+  enableTTA?: boolean;
+  /** Encoding relative (disparity) output is converted into */
+  relativeEncoding?: RelativeDepthEncoding;
+  /** Shift added to normalized disparity before inversion */
+  disparityShift?: number;
+  /** Refinement stages, in order */
+  postProcess?: DepthPostStage[];
+  /** Stops between inference passes and refinement stages */
+  signal?: AbortSignal;
 }
 
 /**
  * Returns info about the active inference backend.
  */
 export function getDeviceInfo(): {
-  device: "webgpu" | "wasm";
+  device: InferenceDevice;
   detected: boolean;
   modelLoaded: boolean;
   currentModelSize: ModelSize | null;
+  depthMode: DepthMode | null;
+  dtype: ModelDtype | null;
+  backend: DepthBackendId | null;
 } {
+  const detected = getDetectedDevice();
+
   return {
-    device: activeDevice,
-    detected: deviceDetected,
-    modelLoaded: depthPipeline !== null,
-    currentModelSize,
+    device: activeDevice ?? detected.device,
+    detected: detected.detected,
+    modelLoaded: activeBackend?.isLoaded() ?? false,
+    currentModelSize: activeBackend?.loadedSpec()?.modelSize ?? null,
+    depthMode: activeBackend?.loadedSpec()?.depthMode ?? null,
+    dtype: activeBackend?.loadedSpec()?.dtype ?? null,
+    backend: activeBackend?.capabilities.id ?? null,
   };
 }
 
 export async function loadModel(
   modelSize: ModelSize = "small",
   onProgress?: (msg: string) => void,
+  {
+    backend: backendId = "transformers",
+    depthMode = "relative",
+    modelSource = "hub",
+    dtype = "fp32",
+    device,
+  }: LoadModelOptions = {},
 ): Promise<void> {
-  // Reload if model size changed
-  if (depthPipeline && currentModelSize === modelSize) return;
+  const backend = getDepthBackend(backendId);
 
-  if (depthPipeline && currentModelSize !== modelSize) {
-    depthPipeline = null;
-    currentModelSize = null;
-    onProgress?.("Yeni model yükleniyor...");
+  // Switching backends releases the previous one's weights
+  if (activeBackend && activeBackend !== backend) {
+    await activeBackend.dispose();
   }
 
-  // Auto-detect best device before loading
-  const device = await detectBestDevice();
-  onProgress?.(
-    `AI model yükleniyor (${device === "webgpu" ? "GPU hızlandırmalı" : "WASM"})...`,
-  );
-
-  const modelId = MODEL_MAP[modelSize];
-
-  depthPipeline = await (pipeline as any)("depth-estimation", modelId, {
-    device,
-    dtype: "fp32",
-    progress_callback: (progress: any) => {
-      if (progress.status === "downloading") {
-        const pct = progress.progress ? Math.round(progress.progress) : 0;
-        onProgress?.(`Model indiriliyor... ${pct}%`);
-      } else if (progress.status === "loading") {
-        onProgress?.("Model yükleniyor...");
-      }
-    },
-  });
-
-  currentModelSize = modelSize;
-  onProgress?.(
-    `Model hazır! (${device === "webgpu" ? "WebGPU" : "WASM"} backend)`,
-  );
+  activeBackend = backend;
+  try {
+    activeDevice = await backend.load(
+      { modelSize, depthMode, modelSource, dtype, device },
+      onProgress,
+    );
+  } catch (err) {
+    throw toModelLoadError(err, `${modelSize} (${depthMode}, ${dtype})`);
+  }
 }
 
-export async function estimateDepth(
-  imageUrl: string,
-  maxResolution: number = 1024,
-): Promise<{
+export interface DepthEstimate {
   depthMap: Float32Array;
   width: number;
   height: number;
   confidence: Float32Array;
-}> {
-  if (!depthPipeline)
+  encoding: DepthEncoding;
+  /** Normalized map before post-processing, downsampled */
+  rawDepth: DepthSnapshot;
+}
+
+export async function estimateDepth(
+  imageUrl: string,
+  maxResolution: number = 1024,
+  options: EstimateDepthOptions = {},
+): Promise<DepthEstimate> {
+  const backend = activeBackend;
+  if (!backend?.isLoaded())
     throw new Error("Model not loaded. Call loadModel() first.");
 
-  // Load image to get dimensions
-  const img = new Image();
-  img.crossOrigin = "anonymous";
-  await new Promise<void>((resolve, reject) => {
-    img.onload = () => resolve();
-    img.onerror = reject;
-    img.src = imageUrl;
-  });
+  const { tileGrid = 1, enableTTA = false, signal } = options;
+  signal?.throwIfAborted();
+
+  // Run depth estimation
+  const runPass = (view: DepthView) =>
+    estimateTiled(
+      backend,
+      imageUrl,
+      tileGrid,
+      undefined,
+      view,
+      signal,
+      maxResolution,
+    );
+  let raw: RawDepthOutput;
+  try {
+    raw = enableTTA
+      ? await estimateWithTTA(runPass, undefined, signal)
+      : await runPass({});
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw toAppError(err, "depth estimation");
+  }
+
+  return refineDepth(raw, imageUrl, maxResolution, options);
+}
+
+/**
+ * Prepares a depth map that came with the photo (LiDAR, portrait mode,
+ * external tools). Inference is skipped; refinement is the same as for
+ * estimated depth.
+ */
+export async function prepareExternalDepth(
+  depth: ExternalDepth,
+  imageUrl: string,
+  maxResolution: number = 1024,
+  options: EstimateDepthOptions = {},
+): Promise<DepthEstimate> {
+  return refineDepth(
+    {
+      data: depth.data,
+      width: depth.width,
+      height: depth.height,
+      encoding: depth.encoding,
+    },
+    imageUrl,
+    maxResolution,
+    options,
+  );
+}
+
+/**
+ * Runs the post-processing stages on a raw depth map, bringing it to the
+ * (capped) photo resolution, and converts it to the requested encoding.
+ * Reads the photo without the DOM, so the ProcessingWorker runs it too.
+ */
+export async function refineDepth(
+  raw: RawDepthOutput,
+  imageUrl: string,
+  maxResolution: number,
+  {
+    relativeEncoding = "depth",
+    disparityShift = 0.1,
+    postProcess = DEFAULT_POST_PROCESS,
+    signal,
+  }: EstimateDepthOptions,
+): Promise<DepthEstimate> {
+  const {
+    data: depthData,
+    width: depthW,
+    height: depthH,
+    encoding: rawEncoding,
+    variance,
+  } = raw;
+
+  // Decode the photo to get its dimensions (and the JBU guide below)
+  let bitmap: ImageBitmap;
+  try {
+    const response = await fetch(imageUrl);
+    bitmap = await createImageBitmap(await response.blob());
+  } catch (err) {
+    throw new ImageDecodeError(imageUrl, err);
+  }
 
   // Cap resolution
-  let w = img.width;
-  let h = img.height;
+  let w = bitmap.width;
+  let h = bitmap.height;
   if (w > maxResolution || h > maxResolution) {
     const scale = maxResolution / Math.max(w, h);
     w = Math.round(w * scale);
     h = Math.round(h * scale);
   }
 
-  // Run depth estimation
-  const result = await depthPipeline(imageUrl);
-  const single = Array.isArray(result) ? result[0] : result;
-  const depthTensor = single.depth;
-  const depthData = depthTensor.data as Float32Array;
-  const depthW = depthTensor.width;
-  const depthH = depthTensor.height;
-
-  // Normalize to 0-1
-  let min = Infinity;
-  let max = -Infinity;
-  for (let i = 0; i < depthData.length; i++) {
-    if (depthData[i] < min) min = depthData[i];
-    if (depthData[i] > max) max = depthData[i];
-  }
+  // Normalize to 0-1 (metric maps are scaled back to meters at the end, so
+  // the filter parameters behave the same for both modes)
+  const { normalized, min, range } = normalizeDepth(depthData);
 
-  const range = max - min || 1;
-  const normalized = new Float32Array(depthData.length);
-  for (let i = 0; i < depthData.length; i++) {
-    normalized[i] = (depthData[i] - min) / range;
+  // RGB guide for the JBU stage — only needed when upsampling
+  let guide: Uint8ClampedArray | null = null;
+  if (
+    depthW * depthH < w * h &&
+    postProcess.some((s) => s.enabled && s.kind === "jbu")
+  ) {
+    try {
+      const canvas =
+        typeof OffscreenCanvas !== "undefined"
+          ? new OffscreenCanvas(w, h)
+          : Object.assign(document.createElement("canvas"), {
+              width: w,
+              height: h,
+            });
+      const ctx = canvas.getContext("2d") as
+        OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+      if (ctx) {
+        ctx.drawImage(bitmap, 0, 0, w, h);
+        guide = ctx.getImageData(0, 0, w, h).data;
+      }
+    } catch {
+      // Tainted or unavailable canvas — the stage falls back to bilinear
+    }
   }
+  bitmap.close();
 
-  // Adaptive bilateral filter for edge-preserving smoothing of depth
-  const minDim = Math.min(depthW, depthH);
-  const adaptiveRadius = Math.max(2, Math.round(minDim / 128));
-  const adaptiveSigmaRange = minDim < 512 ? 0.08 : minDim > 1024 ? 0.15 : 0.12;
-  const filtered = bilateralFilter(
+  await checkpoint(signal);
+  let { data: resized } = runDepthPostProcess(
     normalized,
     depthW,
     depthH,
-    adaptiveRadius,
-    adaptiveSigmaRange,
+    postProcess,
+    { targetWidth: w, targetHeight: h, guide, signal },
   );
 
-  // Post-processing pipeline
-  const median = medianFilter(filtered, depthW, depthH); // Remove salt-and-pepper noise
-  const filled = holeFilling(median, depthW, depthH);
-  // Second bilateral pass for extra smoothing while preserving edges
-  const smoothed = bilateralFilter(
-    filled,
-    depthW,
-    depthH,
-    Math.max(2, adaptiveRadius - 1),
-    adaptiveSigmaRange * 0.8,
-  );
-  const confidence = depthConfidenceMap(smoothed, depthW, depthH);
-
-  // Upsample depth using Joint Bilateral Upsampling (RGB-guided)
-  let resized: Float32Array;
-  if (depthW === w && depthH === h) {
-    resized = smoothed;
-  } else if (depthW * depthH < w * h) {
-    // Upsampling — use JBU for edge-preserving upsample
-    try {
-      const canvas = document.createElement("canvas");
-      canvas.width = w;
-      canvas.height = h;
-      const ctx = canvas.getContext("2d");
-      if (ctx) {
-        ctx.drawImage(img, 0, 0, w, h);
-        const rgbData = ctx.getImageData(0, 0, w, h).data;
-        resized = jointBilateralUpsample(
-          smoothed,
-          depthW,
-          depthH,
-          w,
-          h,
-          rgbData,
-        );
-      } else {
-        resized = resizeDepthMap(smoothed, depthW, depthH, w, h);
-      }
-    } catch (_) {
-      resized = resizeDepthMap(smoothed, depthW, depthH, w, h);
+  // TTA variance is in raw units — bring it into the normalized range
+  const normalizedVariance = variance
+    ? resizeDepthMap(
+        variance.map((v) => v / (range * range)),
+        depthW,
+        depthH,
+        w,
+        h,
+      )
+    : undefined;
+  const confidence = depthConfidenceMap(resized, w, h, normalizedVariance);
+
+  let encoding: DepthEncoding = rawEncoding;
+  if (rawEncoding === "metric") {
+    for (let i = 0; i < resized.length; i++) {
+      resized[i] = min + resized[i] * range;
     }
-  } else {
-    // Downsampling — bilinear is fine
-    resized = resizeDepthMap(smoothed, depthW, depthH, w, h);
+  } else if (relativeEncoding !== rawEncoding) {
+    resized = convertDepthEncoding(
+      resized,
+      rawEncoding,
+      relativeEncoding,
+      disparityShift,
+    );
+    encoding = relativeEncoding;
   }
-  const resizedConfidence = resizeDepthMap(confidence, depthW, depthH, w, h);
 
   return {
     depthMap: resized,
     width: w,
     height: h,
-    confidence: resizedConfidence,
+    confidence,
+    encoding,
+    rawDepth: createDepthSnapshot(normalized, depthW, depthH),
   };
 }
 
-function bilateralFilter(
+/**
+ * Converts a depth map between encodings.
+ *
+ * Relative maps are assumed normalized to [0, 1]. Disparity is inverted as
+ * depth = 1 / (disparity + shift), since relative models predict inverse
+ * depth only up to an unknown scale and shift; the result is normalized
+ * back to [0, 1]. Metric maps can be converted to either relative encoding,
+ * but not the other way around — the scale is unknown.
+ */
+export function convertDepthEncoding(
   data: Float32Array,
-  w: number,
-  h: number,
-  radius: number,
-  sigmaRange: number,
+  from: DepthEncoding,
+  to: DepthEncoding,
+  shift: number = 0.1,
 ): Float32Array {
-  const result = new Float32Array(data.length);
-  const sigmaSpace = radius / 2;
-  const earlyExitThreshold = 0.01;
-
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      const idx = y * w + x;
-      const center = data[idx];
-
-      // Fast early-exit: check if all neighbors are within threshold
-      let allClose = true;
-      outer: for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          if (dy === 0 && dx === 0) continue;
-          const ny = y + dy;
-          const nx = x + dx;
-          if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
-          if (Math.abs(data[ny * w + nx] - center) > earlyExitThreshold) {
-            allClose = false;
-            break outer;
-          }
-        }
-      }
-      if (allClose) {
-        result[idx] = center;
-        continue;
-      }
-
-      let sum = 0;
-      let wSum = 0;
-
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          const ny = y + dy;
-          const nx = x + dx;
-          if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
-
-          const nIdx = ny * w + nx;
-          const neighbor = data[nIdx];
-          const spatialDist = Math.sqrt(dx * dx + dy * dy);
-          const rangeDist = Math.abs(center - neighbor);
-
-          const ws = Math.exp(
-            -(spatialDist * spatialDist) / (2 * sigmaSpace * sigmaSpace),
-          );
-          const wr = Math.exp(
-            -(rangeDist * rangeDist) / (2 * sigmaRange * sigmaRange),
-          );
-          const weight = ws * wr;
-
-          sum += neighbor * weight;
-          wSum += weight;
-        }
-      }
-
-      result[idx] = wSum > 0 ? sum / wSum : center;
+  if (from === to) return data;
+  if (to === "metric")
+    throw new Error(`Cannot convert ${from} depth to metric: scale is unknown`);
+
+  const out = new Float32Array(data.length);
+  const s = Math.max(shift, 1e-3);
+
+  if (from === "metric") {
+    // Normalize meters (or inverse meters) into [0, 1]
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < data.length; i++) {
+      const v = to === "depth" ? data[i] : 1 / Math.max(data[i], 1e-3);
+      out[i] = v;
+      if (v < min) min = v;
+      if (v > max) max = v;
     }
+    const range = max - min || 1;
+    for (let i = 0; i < out.length; i++) out[i] = (out[i] - min) / range;
+    return out;
   }
 
-  return result;
-}
-
-/**
- * Fills zero/NaN depth values by averaging non-zero neighbors in a 5×5 window.
- */
-function holeFilling(data: Float32Array, w: number, h: number): Float32Array {
-  const result = new Float32Array(data);
-  const radius = 2; // 5×5 window
+  // Depth range produced by disparity in [0, 1]
+  const nearDepth = 1 / (1 + s);
+  const farDepth = 1 / s;
+  const depthRange = farDepth - nearDepth;
 
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      const idx = y * w + x;
-      const val = result[idx];
-      if (val !== 0 && !Number.isNaN(val)) continue;
-
-      let sum = 0;
-      let count = 0;
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          const ny = y + dy;
-          const nx = x + dx;
-          if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
-          const nv = data[ny * w + nx];
-          if (nv !== 0 && !Number.isNaN(nv)) {
-            sum += nv;
-            count++;
-          }
-        }
-      }
-      result[idx] = count > 0 ? sum / count : 0;
+  if (from === "disparity") {
+    for (let i = 0; i < data.length; i++) {
+      const d = 1 / (Math.min(Math.max(data[i], 0), 1) + s);
+      out[i] = (d - nearDepth) / depthRange;
     }
-  }
-
-  return result;
-}
-
-/**
- * 3×3 Median filter — excellent for removing salt-and-pepper noise
- * from depth maps without blurring edges like Gaussian.
- */
-function medianFilter(data: Float32Array, w: number, h: number): Float32Array {
-  const result = new Float32Array(data.length);
-  const window: number[] = [];
-
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      window.length = 0;
-      for (let dy = -1; dy <= 1; dy++) {
-        for (let dx = -1; dx <= 1; dx++) {
-          const ny = Math.max(0, Math.min(h - 1, y + dy));
-          const nx = Math.max(0, Math.min(w - 1, x + dx));
-          window.push(data[ny * w + nx]);
-        }
-      }
-      // Sort and pick median (index 4 of 9 elements)
-      window.sort((a, b) => a - b);
-      result[y * w + x] = window[4];
+  } else {
+    for (let i = 0; i < data.length; i++) {
+      const d = nearDepth + Math.min(Math.max(data[i], 0), 1) * depthRange;
+      out[i] = Math.min(Math.max(1 / d - s, 0), 1);
     }
   }
-
-  return result;
+  return out;
 }
 
-/**
- * Laplacian of Gaussian edge enhancement on depth discontinuities.
- * Sharpens edges while keeping smooth regions intact.
- */
-function edgeSharpening(
-  data: Float32Array,
-  w: number,
-  h: number,
-): Float32Array {
-  const result = new Float32Array(data.length);
-  const sharpenStrength = 0.3;
-
-  // LoG-inspired 3×3 kernel: approximation of Laplacian of Gaussian
-  // [ 0, -1,  0 ]
-  // [-1,  4, -1 ]
-  // [ 0, -1,  0 ]
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      const idx = y * w + x;
-
-      if (y === 0 || y === h - 1 || x === 0 || x === w - 1) {
-        result[idx] = data[idx];
-        continue;
-      }
-
-      const laplacian =
-        4 * data[idx] -
-        data[(y - 1) * w + x] -
-        data[(y + 1) * w + x] -
-        data[y * w + (x - 1)] -
-        data[y * w + (x + 1)];
-
-      // Only sharpen at actual depth discontinuities (large laplacian)
-      const enhanced = data[idx] + sharpenStrength * laplacian;
-      result[idx] = Math.max(0, Math.min(1, enhanced));
-    }
-  }
-
-  return result;
-}
+// Standard deviation between TTA passes at which confidence is halved
+const TTA_STD_HALF_CONFIDENCE = 0.05;
 
 /**
  * Computes a per-pixel confidence map (0–1).
  * High gradient magnitude → low confidence (depth discontinuities are uncertain).
+ * With TTA, high variance between passes lowers it further.
  */
 function depthConfidenceMap(
   data: Float32Array,
   w: number,
   h: number,
+  variance?: Float32Array,
 ): Float32Array {
   const confidence = new Float32Array(data.length);
 
@@ -427,124 +399,19 @@ function depthConfidenceMap(
     confidence[i] = 1 - Math.min(1, gradients[i] / norm);
   }
 
-  return confidence;
-}
-
-function resizeDepthMap(
-  source: Float32Array,
-  srcW: number,
-  srcH: number,
-  dstW: number,
-  dstH: number,
-): Float32Array {
-  if (srcW === dstW && srcH === dstH) return source;
-
-  const result = new Float32Array(dstW * dstH);
-  const xRatio = srcW / dstW;
-  const yRatio = srcH / dstH;
-
-  for (let y = 0; y < dstH; y++) {
-    for (let x = 0; x < dstW; x++) {
-      // Bilinear interpolation
-      const srcX = x * xRatio;
-      const srcY = y * yRatio;
-      const x0 = Math.floor(srcX);
-      const y0 = Math.floor(srcY);
-      const x1 = Math.min(x0 + 1, srcW - 1);
-      const y1 = Math.min(y0 + 1, srcH - 1);
-      const fx = srcX - x0;
-      const fy = srcY - y0;
-
-      const v00 = source[y0 * srcW + x0];
-      const v10 = source[y0 * srcW + x1];
-      const v01 = source[y1 * srcW + x0];
-      const v11 = source[y1 * srcW + x1];
-
-      result[y * dstW + x] =
-        v00 * (1 - fx) * (1 - fy) +
-        v10 * fx * (1 - fy) +
-        v01 * (1 - fx) * fy +
-        v11 * fx * fy;
-    }
-  }
-
-  return result;
-}
-
-/**
- * Joint Bilateral Upsampling — upsamples a low-res depth map guided by
- * a high-res RGB image. Preserves depth discontinuities at color edges.
- */
-function jointBilateralUpsample(
-  depthLow: Float32Array,
-  lowW: number,
-  lowH: number,
-  highW: number,
-  highH: number,
-  rgbHigh: Uint8ClampedArray,
-): Float32Array {
-  const result = new Float32Array(highW * highH);
-  const radius = 2;
-  const sigmaSpace = 1.5;
-  const sigmaColor = 30;
-  const xRatio = lowW / highW;
-  const yRatio = lowH / highH;
-
-  for (let y = 0; y < highH; y++) {
-    for (let x = 0; x < highW; x++) {
-      const highIdx = (y * highW + x) * 4;
-      const rH = rgbHigh[highIdx];
-      const gH = rgbHigh[highIdx + 1];
-      const bH = rgbHigh[highIdx + 2];
-
-      const srcX = x * xRatio;
-      const srcY = y * yRatio;
-      const cx = Math.min(Math.round(srcX), lowW - 1);
-      const cy = Math.min(Math.round(srcY), lowH - 1);
-
-      let sum = 0;
-      let wSum = 0;
-
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          const nx = cx + dx;
-          const ny = cy + dy;
-          if (nx < 0 || nx >= lowW || ny < 0 || ny >= lowH) continue;
-
-          const depth = depthLow[ny * lowW + nx];
-
-          const spatialDist = Math.sqrt(dx * dx + dy * dy);
-          const ws = Math.exp(
-            -(spatialDist * spatialDist) / (2 * sigmaSpace * sigmaSpace),
-          );
-
-          const corrHighX = Math.min(Math.round(nx / xRatio), highW - 1);
-          const corrHighY = Math.min(Math.round(ny / yRatio), highH - 1);
-          const corrIdx = (corrHighY * highW + corrHighX) * 4;
-          const colorDist = Math.sqrt(
-            (rH - rgbHigh[corrIdx]) ** 2 +
-              (gH - rgbHigh[corrIdx + 1]) ** 2 +
-              (bH - rgbHigh[corrIdx + 2]) ** 2,
-          );
-          const wc = Math.exp(
-            -(colorDist * colorDist) / (2 * sigmaColor * sigmaColor),
-          );
-
-          const weight = ws * wc;
-          sum += depth * weight;
-          wSum += weight;
-        }
-      }
-
-      result[y * highW + x] =
-        wSum > 0 ? sum / wSum : depthLow[cy * lowW + cx] || 0;
+  if (variance) {
+    const halfVariance = TTA_STD_HALF_CONFIDENCE * TTA_STD_HALF_CONFIDENCE;
+    for (let i = 0; i < data.length; i++) {
+      confidence[i] *= 1 / (1 + variance[i] / halfVariance);
     }
   }
 
-  return result;
+  return confidence;
 }
 
-export function disposeModel(): void {
-  depthPipeline = null;
-  currentModelSize = null;
+export async function disposeModel(): Promise<void> {
+  const backend = activeBackend;
+  activeBackend = null;
+  activeDevice = null;
+  await backend?.dispose();
 }
@@ -0,0 +1,788 @@
+/**
+ * DepthMapImporter — Read depth maps captured by other tools or sensors so
+ * photos can skip depth estimation. Supported inputs:
+ *
+ * - 16-bit PNG: millimeters (0 = no data — ARKit / RealSense / Kinect style)
+ *   or a normalized disparity / relative-depth export (Depth Anything, MiDaS);
+ *   see `DepthImportOptions`. 8-bit PNGs are read as normalized disparity
+ *   (white = near)
+ * - OpenEXR (R or Y channel, meters)
+ * - NumPy `.npy` (float: meters, uint16: millimeters, uint8: disparity)
+ * - Depth embedded in JPEGs: Google Camera (GDepth XMP and Dynamic Depth
+ *   containers) and iPhone Portrait mode (MPF auxiliary depth image). Photos
+ *   are scanned from their header segments; only the embedded depth image
+ *   is read from the rest of the file.
+ *
+ * HEIC portraits keep their depth in HEIF auxiliary items, which are not
+ * parsed — export them as JPEG (Most Compatible) to keep the depth.
+ */
+
+import { FloatType, RedFormat } from "three";
+import { EXRLoader } from "three/addons/loaders/EXRLoader.js";
+import type {
+  ExternalDepth,
+  ExternalDepthSource,
+  RelativeDepthEncoding,
+} from "../types";
+import { convertDepthEncoding } from "./DepthEstimator";
+
+/**
+ * How 16-bit PNG values are read: "millimeters" for sensor depth,
+ * "disparity" (white = near) or "depth" (white = far) for normalized
+ * exports. "auto" reads maps that reach past MAX_SENSOR_MILLIMETERS as
+ * disparity and everything else as millimeters.
+ */
+export type PngDepthEncoding = "auto" | "millimeters" | RelativeDepthEncoding;
+
+export interface DepthImportOptions {
+  pngEncoding?: PngDepthEncoding;
+}
+
+interface DecodedMap {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Hole-filling passes before the remaining gaps fall back to the background
+const MAX_FILL_PASSES = 64;
+
+// 60 m in millimeters is beyond any depth sensor; 16-bit maps that reach
+// past it are normalized exports stretched over the full 0–65535 range
+const MAX_SENSOR_MILLIMETERS = 60000;
+
+// First read of a photo when looking for embedded depth; grown until the
+// header segments fit
+const JPEG_HEADER_CHUNK = 64 * 1024;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const EXR_MAGIC = 0x762f3101;
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const XMP_EXTENSION_HEADER = "http://ns.adobe.com/xmp/extension/\0";
+const APPLE_DEPTH_NAMESPACE = "http://ns.apple.com/depthData/1.0/";
+
+// ---------- Public API ----------
+
+/**
+ * Imports a standalone depth file (PNG, EXR, NPY) or a JPEG with embedded
+ * depth. Throws if the format is not recognised or carries no depth.
+ */
+export async function importDepthFile(
+  file: File,
+  { pngEncoding = "auto" }: DepthImportOptions = {},
+): Promise<ExternalDepth> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+
+  if (startsWith(bytes, PNG_SIGNATURE)) {
+    const png = await decodePNG(bytes);
+    if (png.bitDepth !== 16) return finalizeDisparity("png", file.name, png);
+
+    const encoding =
+      pngEncoding === "auto"
+        ? png.data.some((v) => v > MAX_SENSOR_MILLIMETERS)
+          ? "disparity"
+          : "millimeters"
+        : pngEncoding;
+    return encoding === "millimeters"
+      ? finalizeMetric("png", file.name, png, 1 / 1000)
+      : finalizeDisparity("png", file.name, png, encoding);
+  }
+
+  if (
+    bytes.length >= 4 &&
+    new DataView(buffer).getUint32(0, true) === EXR_MAGIC
+  ) {
+    return finalizeMetric("exr", file.name, decodeEXR(buffer), 1);
+  }
+
+  if (readAscii(bytes, 1, 5) === "NUMPY" && bytes[0] === 0x93) {
+    const npy = decodeNPY(buffer);
+    if (npy.kind === "u1") return finalizeDisparity("npy", file.name, npy);
+    return finalizeMetric(
+      "npy",
+      file.name,
+      npy,
+      npy.kind === "u2" ? 1 / 1000 : 1,
+    );
+  }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const embedded = await extractDepthFromJPEG(
+      bytes,
+      bytes.length,
+      async (offset, length) => bytes.subarray(offset, offset + length),
+      file.name,
+    );
+    if (embedded) return embedded;
+    throw new Error(`No embedded depth map found in ${file.name}`);
+  }
+
+  throw new Error(`Unsupported depth map format: ${file.name}`);
+}
+
+/**
+ * Looks for depth embedded in a photo (Google Camera XMP, iPhone Portrait
+ * MPF). Returns null when the photo has none or cannot be read. Only the
+ * header segments and the depth image itself are read, not the whole photo.
+ */
+export async function extractEmbeddedDepth(
+  file: File,
+): Promise<ExternalDepth | null> {
+  try {
+    const header = await readJPEGHeader(file);
+    if (!header) return null;
+    return await extractDepthFromJPEG(
+      header,
+      file.size,
+      async (offset, length) =>
+        new Uint8Array(await file.slice(offset, offset + length).arrayBuffer()),
+      file.name,
+    );
+  } catch {
+    return null;
+  }
+}
+
+// ---------- Finalizing ----------
+
+/**
+ * Scales raw values to meters, marks invalid samples as holes and fills them.
+ */
+function finalizeMetric(
+  source: ExternalDepthSource,
+  fileName: string,
+  map: DecodedMap,
+  toMeters: number,
+): ExternalDepth {
+  const data = new Float32Array(map.data.length);
+  for (let i = 0; i < data.length; i++) {
+    const v = map.data[i] * toMeters;
+    data[i] = Number.isFinite(v) && v > 0 ? v : NaN;
+  }
+  fillHoles(data, map.width, map.height);
+  return {
+    source,
+    fileName,
+    data,
+    width: map.width,
+    height: map.height,
+    encoding: "metric",
+  };
+}
+
+/**
+ * Normalizes a relative map to [0, 1] disparity (higher = nearer). Maps
+ * that store depth (higher = farther) are converted.
+ */
+function finalizeDisparity(
+  source: ExternalDepthSource,
+  fileName: string,
+  map: DecodedMap,
+  encoding: RelativeDepthEncoding = "disparity",
+): ExternalDepth {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < map.data.length; i++) {
+    if (map.data[i] < min) min = map.data[i];
+    if (map.data[i] > max) max = map.data[i];
+  }
+  const range = max - min || 1;
+  const normalized = new Float32Array(map.data.length);
+  for (let i = 0; i < normalized.length; i++) {
+    normalized[i] = (map.data[i] - min) / range;
+  }
+  return {
+    source,
+    fileName,
+    data: convertDepthEncoding(normalized, encoding, "disparity"),
+    width: map.width,
+    height: map.height,
+    encoding: "disparity",
+  };
+}
+
+/**
+ * Fills NaN samples with the mean of valid 5×5 neighbours, growing inwards
+ * pass by pass. Whatever is left is pushed to the farthest valid depth.
+ */
+function fillHoles(data: Float32Array, w: number, h: number): void {
+  let far = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] > far) far = data[i];
+  }
+
+  for (let pass = 0; pass < MAX_FILL_PASSES; pass++) {
+    const source = new Float32Array(data);
+    let remaining = 0;
+
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const idx = y * w + x;
+        if (!Number.isNaN(source[idx])) continue;
+
+        let sum = 0;
+        let count = 0;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            const ny = y + dy;
+            const nx = x + dx;
+            if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
+            const nv = source[ny * w + nx];
+            if (!Number.isNaN(nv)) {
+              sum += nv;
+              count++;
+            }
+          }
+        }
+        if (count > 0) data[idx] = sum / count;
+        else remaining++;
+      }
+    }
+
+    if (remaining === 0) return;
+  }
+
+  for (let i = 0; i < data.length; i++) {
+    if (Number.isNaN(data[i])) data[i] = far;
+  }
+}
+
+// ---------- PNG ----------
+
+/**
+ * Minimal PNG decoder (non-interlaced, 8/16-bit, grayscale or RGB(A)).
+ * Returns the first channel; values keep their integer range.
+ */
+async function decodePNG(
+  bytes: Uint8Array,
+): Promise<DecodedMap & { bitDepth: number }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 0;
+  const idat: Uint8Array[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset, false);
+    const type = readAscii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8, false);
+      height = view.getUint32(offset + 12, false);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0)
+        throw new Error("Interlaced PNG depth maps are not supported");
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = { 0: 1, 2: 3, 4: 2, 6: 4 }[colorType];
+  if (!channels || (bitDepth !== 8 && bitDepth !== 16))
+    throw new Error(
+      `Unsupported PNG layout (color type ${colorType}, ${bitDepth}-bit)`,
+    );
+
+  const raw = await inflate(concatBytes(idat));
+  const bytesPerPixel = channels * (bitDepth / 8);
+  const stride = width * bytesPerPixel;
+  const pixels = unfilterScanlines(raw, height, stride, bytesPerPixel);
+
+  const out = new Float32Array(width * height);
+  for (let i = 0; i < out.length; i++) {
+    const p = i * bytesPerPixel;
+    out[i] = bitDepth === 16 ? (pixels[p] << 8) | pixels[p + 1] : pixels[p];
+  }
+  return { data: out, width, height, bitDepth };
+}
+
+/**
+ * Reverses the per-scanline PNG filters (None, Sub, Up, Average, Paeth).
+ */
+function unfilterScanlines(
+  raw: Uint8Array,
+  height: number,
+  stride: number,
+  bpp: number,
+): Uint8Array {
+  const out = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[dst + x - bpp] : 0;
+      const b = y > 0 ? out[dst - stride + x] : 0;
+      const c = x >= bpp && y > 0 ? out[dst - stride + x - bpp] : 0;
+      let predictor = 0;
+
+      switch (filter) {
+        case 1:
+          predictor = a;
+          break;
+        case 2:
+          predictor = b;
+          break;
+        case 3:
+          predictor = (a + b) >> 1;
+          break;
+        case 4: {
+          const p = a + b - c;
+          const pa = Math.abs(p - a);
+          const pb = Math.abs(p - b);
+          const pc = Math.abs(p - c);
+          predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+          break;
+        }
+      }
+      out[dst + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ---------- OpenEXR ----------
+
+function decodeEXR(buffer: ArrayBuffer): DecodedMap {
+  const exr = new EXRLoader()
+    .setDataType(FloatType)
+    .setOutputFormat(RedFormat)
+    .parse(buffer);
+  const { width, height } = exr;
+  const data = exr.data as Float32Array;
+
+  // EXRLoader returns rows bottom-up (texture layout)
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    out.set(
+      data.subarray((height - 1 - y) * width, (height - y) * width),
+      y * width,
+    );
+  }
+  return { data: out, width, height };
+}
+
+// ---------- NumPy ----------
+
+/**
+ * Reads a 2-D (or H×W×1) C-ordered `.npy` array.
+ */
+function decodeNPY(buffer: ArrayBuffer): DecodedMap & { kind: string } {
+  const view = new DataView(buffer);
+  const major = view.getUint8(6);
+  const headerLength =
+    major >= 2 ? view.getUint32(8, true) : view.getUint16(8, true);
+  const headerStart = major >= 2 ? 12 : 10;
+  const header = readAscii(new Uint8Array(buffer), headerStart, headerLength);
+
+  const descr = /'descr':\s*'([<>|=])(\w)(\d+)'/.exec(header);
+  const shape = /'shape':\s*\(([^)]*)\)/.exec(header);
+  if (!descr || !shape) throw new Error("Malformed .npy header");
+  if (/'fortran_order':\s*True/.test(header))
+    throw new Error("Fortran-ordered .npy arrays are not supported");
+
+  const dims = shape[1]
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map(Number);
+  if (
+    dims.length < 2 ||
+    (dims.length === 3 && dims[2] !== 1) ||
+    dims.length > 3
+  )
+    throw new Error(`Expected a 2-D depth array, got shape (${shape[1]})`);
+
+  const [height, width] = dims;
+  const littleEndian = descr[1] !== ">";
+  const kind = descr[2] + descr[3];
+  const size = Number(descr[3]);
+  const dataStart = headerStart + headerLength;
+  const out = new Float32Array(width * height);
+
+  for (let i = 0; i < out.length; i++) {
+    const o = dataStart + i * size;
+    switch (kind) {
+      case "f4":
+        out[i] = view.getFloat32(o, littleEndian);
+        break;
+      case "f8":
+        out[i] = view.getFloat64(o, littleEndian);
+        break;
+      case "f2":
+        out[i] = halfToFloat(view.getUint16(o, littleEndian));
+        break;
+      case "u1":
+        out[i] = view.getUint8(o);
+        break;
+      case "u2":
+        out[i] = view.getUint16(o, littleEndian);
+        break;
+      case "i4":
+        out[i] = view.getInt32(o, littleEndian);
+        break;
+      default:
+        throw new Error(`Unsupported .npy dtype: ${descr[2]}${descr[3]}`);
+    }
+  }
+
+  return { data: out, width, height, kind };
+}
+
+function halfToFloat(h: number): number {
+  const sign = h & 0x8000 ? -1 : 1;
+  const exponent = (h >> 10) & 0x1f;
+  const fraction = h & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+// ---------- Embedded JPEG depth ----------
+
+/** Reads `length` bytes at `offset` of the JPEG being scanned */
+type ByteReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+/**
+ * Finds the depth in a JPEG from its `header` segments, reading embedded
+ * depth images from the rest of the `size`-byte file through `read`.
+ */
+async function extractDepthFromJPEG(
+  header: Uint8Array,
+  size: number,
+  read: ByteReader,
+  fileName: string,
+): Promise<ExternalDepth | null> {
+  const { xmp, mpfEntries } = scanJPEGSegments(header);
+  return (
+    (await readGoogleDepth(xmp, size, read, fileName)) ??
+    (await readAppleDepth(mpfEntries, read, fileName))
+  );
+}
+
+/**
+ * Reads the start of a JPEG up to its first scan, growing the read until
+ * the header segments fit. Returns null for anything but a JPEG.
+ */
+async function readJPEGHeader(file: File): Promise<Uint8Array | null> {
+  for (let length = JPEG_HEADER_CHUNK; ; length *= 4) {
+    const bytes = new Uint8Array(await file.slice(0, length).arrayBuffer());
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    if (scanJPEGSegments(bytes).complete || length >= file.size) return bytes;
+  }
+}
+
+interface MPFEntry {
+  offset: number;
+  size: number;
+}
+
+/**
+ * Collects the XMP packet (standard + extended parts) and the MPF image
+ * directory from the JPEG header segments. `complete` is false when
+ * `bytes` ends before the first scan.
+ */
+function scanJPEGSegments(bytes: Uint8Array): {
+  xmp: string;
+  mpfEntries: MPFEntry[];
+  complete: boolean;
+} {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let standard = "";
+  const extended: { offset: number; text: string }[] = [];
+  let mpfEntries: MPFEntry[] = [];
+  let complete = false;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) {
+      complete = true;
+      break;
+    }
+
+    const length = view.getUint16(offset + 2, false);
+    const start = offset + 4;
+    const end = offset + 2 + length;
+    if (end > bytes.length) break;
+
+    if (marker === 0xe1) {
+      if (readAscii(bytes, start, XMP_HEADER.length) === XMP_HEADER) {
+        standard = decodeText(bytes.subarray(start + XMP_HEADER.length, end));
+      } else if (
+        readAscii(bytes, start, XMP_EXTENSION_HEADER.length) ===
+        XMP_EXTENSION_HEADER
+      ) {
+        // GUID (32) + full length (4) + chunk offset (4), then the chunk
+        const chunk = start + XMP_EXTENSION_HEADER.length;
+        extended.push({
+          offset: view.getUint32(chunk + 36, false),
+          text: decodeText(bytes.subarray(chunk + 40, end)),
+        });
+      }
+    } else if (marker === 0xe2 && readAscii(bytes, start, 4) === "MPF\0") {
+      mpfEntries = parseMPF(view, start + 4);
+    }
+
+    offset = end;
+  }
+
+  extended.sort((a, b) => a.offset - b.offset);
+  return {
+    xmp: standard + extended.map((e) => e.text).join(""),
+    mpfEntries,
+    complete,
+  };
+}
+
+/**
+ * Parses the MP Entry table (tag 0xB002). Offsets are made absolute.
+ */
+function parseMPF(view: DataView, tiffOffset: number): MPFEntry[] {
+  const littleEndian = view.getUint16(tiffOffset, false) === 0x4949;
+  const ifdOffset = view.getUint32(tiffOffset + 4, littleEndian);
+  const count = view.getUint16(tiffOffset + ifdOffset, littleEndian);
+  const entries: MPFEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const entry = tiffOffset + ifdOffset + 2 + i * 12;
+    if (view.getUint16(entry, littleEndian) !== 0xb002) continue;
+
+    const byteCount = view.getUint32(entry + 4, littleEndian);
+    const tableOffset = tiffOffset + view.getUint32(entry + 8, littleEndian);
+    for (let e = 0; e + 16 <= byteCount; e += 16) {
+      const size = view.getUint32(tableOffset + e + 4, littleEndian);
+      const offset = view.getUint32(tableOffset + e + 8, littleEndian);
+      // The first image (offset 0) is the primary photo itself
+      if (offset > 0) entries.push({ offset: tiffOffset + offset, size });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Google Camera: legacy GDepth (base64 image in extended XMP) or a Dynamic
+ * Depth container with the depth image appended after the primary JPEG.
+ */
+async function readGoogleDepth(
+  xmp: string,
+  size: number,
+  read: ByteReader,
+  fileName: string,
+): Promise<ExternalDepth | null> {
+  if (!xmp) return null;
+
+  const format = xmpValue(xmp, ["GDepth:Format", "Depth:Format"]);
+  const near = Number(xmpValue(xmp, ["GDepth:Near", "Depth:Near"]));
+  const far = Number(xmpValue(xmp, ["GDepth:Far", "Depth:Far"]));
+  if (!format || !Number.isFinite(near) || !Number.isFinite(far)) return null;
+
+  let image: Uint8Array | null = null;
+  let mime = xmpValue(xmp, ["GDepth:Mime"]) ?? "image/png";
+
+  const base64 = xmpValue(xmp, ["GDepth:Data"]);
+  if (base64) {
+    image = Uint8Array.from(atob(base64.replace(/\s+/g, "")), (c) =>
+      c.charCodeAt(0),
+    );
+  } else {
+    const item = findContainerItem(size, xmp, "Depth");
+    if (item) {
+      image = await read(item.offset, item.length);
+      mime = item.mime;
+    }
+  }
+  if (!image) return null;
+
+  const map = await decodeDepthImage(image, mime);
+  const data = new Float32Array(map.data.length);
+  for (let i = 0; i < data.length; i++) {
+    const n = map.data[i];
+    data[i] =
+      format === "RangeInverse"
+        ? (far * near) / (far - n * (far - near))
+        : n * (far - near) + near;
+  }
+
+  return {
+    source: "google-depth",
+    fileName,
+    data,
+    width: map.width,
+    height: map.height,
+    encoding: "metric",
+  };
+}
+
+/**
+ * Dynamic Depth: items after the primary image are concatenated at the end
+ * of the file in directory order, so offsets are counted back from the end.
+ */
+function findContainerItem(
+  fileLength: number,
+  xmp: string,
+  semantic: string,
+): { offset: number; length: number; mime: string } | null {
+  const items = [...xmp.matchAll(/<Container:Item\b([^>]*)>/g)].map((m) => ({
+    semantic: attribute(m[1], "Item:Semantic"),
+    mime: attribute(m[1], "Item:Mime") ?? "image/jpeg",
+    length: Number(attribute(m[1], "Item:Length") ?? 0),
+  }));
+
+  let end = fileLength;
+  for (let i = items.length - 1; i > 0; i--) {
+    const start = end - items[i].length;
+    if (items[i].semantic === semantic && items[i].length > 0) {
+      return { offset: start, length: items[i].length, mime: items[i].mime };
+    }
+    end = start;
+  }
+  return null;
+}
+
+/**
+ * iPhone Portrait JPEGs carry the depth (normalized disparity) as an extra
+ * MPF image tagged with the Apple depthData XMP namespace.
+ */
+async function readAppleDepth(
+  entries: MPFEntry[],
+  read: ByteReader,
+  fileName: string,
+): Promise<ExternalDepth | null> {
+  for (const entry of entries) {
+    // Other entries (gain maps, previews) are told apart by their header
+    const head = await read(
+      entry.offset,
+      Math.min(entry.size, JPEG_HEADER_CHUNK),
+    );
+    if (head[0] !== 0xff || head[1] !== 0xd8) continue;
+
+    const { xmp } = scanJPEGSegments(head);
+    if (!xmp.includes(APPLE_DEPTH_NAMESPACE)) continue;
+
+    const image = await read(entry.offset, entry.size);
+    const map = await decodeDepthImage(image, "image/jpeg");
+    const min = Number(xmpValue(xmp, ["depthData:FloatMinValue"]));
+    const max = Number(xmpValue(xmp, ["depthData:FloatMaxValue"]));
+
+    // Without the float range only relative disparity is known
+    if (!Number.isFinite(min) || !Number.isFinite(max) || max <= min) {
+      return finalizeDisparity("apple-portrait", fileName, map);
+    }
+
+    const data = new Float32Array(map.data.length);
+    for (let i = 0; i < data.length; i++) {
+      const disparity = min + map.data[i] * (max - min);
+      data[i] = disparity > 0 ? 1 / disparity : NaN;
+    }
+    fillHoles(data, map.width, map.height);
+    return {
+      source: "apple-portrait",
+      fileName,
+      data,
+      width: map.width,
+      height: map.height,
+      encoding: "metric",
+    };
+  }
+  return null;
+}
+
+/**
+ * Decodes an embedded depth image to values normalized to [0, 1].
+ */
+async function decodeDepthImage(
+  image: Uint8Array,
+  mime: string,
+): Promise<DecodedMap> {
+  if (mime === "image/png" && startsWith(image, PNG_SIGNATURE)) {
+    const png = await decodePNG(image);
+    const maxValue = png.bitDepth === 16 ? 65535 : 255;
+    for (let i = 0; i < png.data.length; i++) png.data[i] /= maxValue;
+    return png;
+  }
+
+  const bitmap = await createImageBitmap(
+    new Blob([image.slice()], { type: mime }),
+  );
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("2D canvas context unavailable");
+  ctx.drawImage(bitmap, 0, 0);
+  const pixels = ctx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+
+  const data = new Float32Array(bitmap.width * bitmap.height);
+  for (let i = 0; i < data.length; i++) data[i] = pixels[i * 4] / 255;
+  const map = { data, width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return map;
+}
+
+// ---------- Helpers ----------
+
+/**
+ * Reads an XMP property written either as an attribute or as an element.
+ */
+function xmpValue(xmp: string, names: string[]): string | null {
+  for (const name of names) {
+    const value =
+      attribute(xmp, name) ??
+      new RegExp(`<${name}>([^<]*)</${name}>`).exec(xmp)?.[1] ??
+      null;
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+function attribute(text: string, name: string): string | null {
+  return new RegExp(`${name}="([^"]*)"`).exec(text)?.[1] ?? null;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((b, i) => bytes[i] === b);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let str = "";
+  for (let i = 0; i < length && offset + i < bytes.length; i++) {
+    str += String.fromCharCode(bytes[offset + i]);
+  }
+  return str;
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,512 @@
+/**
+ * DepthPostProcess.ts
+ *
+ * Depth map refinement shared by the main thread and the processing worker.
+ * The chain (bilateral → median → hole filling → bilateral → JBU by
+ * default) is an ordered list of `DepthPostStage`s from QualitySettings, so
+ * stages can be reordered, tuned or switched off. All stages operate on
+ * maps normalized to [0, 1].
+ */
+
+import type {
+  DepthPostStage,
+  DepthPostStageKind,
+  DepthSnapshot,
+} from "../types";
+
+/** Display names of the stage kinds */
+export const POST_STAGE_LABELS: Record<DepthPostStageKind, string> = {
+  bilateral: "Bilateral",
+  median: "Medyan",
+  holeFill: "Delik doldurma",
+  sharpen: "Kenar keskinleştirme",
+  jbu: "RGB yönlendirmeli büyütme",
+};
+
+// Longest side of the raw map kept for stage previews
+const SNAPSHOT_MAX_SIZE = 256;
+
+export interface PostProcessOptions {
+  /** Output resolution; defaults to the input resolution */
+  targetWidth?: number;
+  targetHeight?: number;
+  /** RGBA pixels at the target resolution, guiding the JBU stage */
+  guide?: Uint8ClampedArray | null;
+  /**
+   * Scale of this map relative to the one the stage radii were tuned for
+   * (< 1 for downsampled previews).
+   */
+  radiusScale?: number;
+  /** Checked before every stage */
+  signal?: AbortSignal;
+  /** Called after every stage, including disabled ones (data unchanged) */
+  onStage?: (
+    stage: DepthPostStage,
+    index: number,
+    result: DepthSnapshot,
+  ) => void;
+}
+
+/**
+ * Normalizes a depth map to [0, 1]. `min` and `range` map it back.
+ */
+export function normalizeDepth(data: Float32Array): {
+  normalized: Float32Array;
+  min: number;
+  range: number;
+} {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] < min) min = data[i];
+    if (data[i] > max) max = data[i];
+  }
+
+  const range = max - min || 1;
+  const normalized = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    normalized[i] = (data[i] - min) / range;
+  }
+  return { normalized, min, range };
+}
+
+/**
+ * Runs the enabled stages in order on a normalized depth map and returns
+ * the result at the target resolution. The JBU stage is where the map is
+ * resized; without a guide (or when shrinking) it falls back to bilinear,
+ * and a chain without JBU is resized bilinearly at the end.
+ */
+export function runDepthPostProcess(
+  data: Float32Array,
+  width: number,
+  height: number,
+  stages: DepthPostStage[],
+  {
+    targetWidth = width,
+    targetHeight = height,
+    guide = null,
+    radiusScale = 1,
+    signal,
+    onStage,
+  }: PostProcessOptions = {},
+): DepthSnapshot {
+  let current = data;
+  let w = width;
+  let h = height;
+  let bilateralPasses = 0;
+
+  for (let s = 0; s < stages.length; s++) {
+    signal?.throwIfAborted();
+    const stage = stages[s];
+    if (stage.enabled) {
+      switch (stage.kind) {
+        case "bilateral": {
+          const { radius, sigma } = bilateralParams(
+            stage,
+            w,
+            h,
+            radiusScale,
+            bilateralPasses++,
+          );
+          current = bilateralFilter(current, w, h, radius, sigma);
+          break;
+        }
+        case "median":
+          current = medianFilter(
+            current,
+            w,
+            h,
+            scaleRadius(stage.radius, radiusScale),
+          );
+          break;
+        case "holeFill":
+          current = holeFilling(
+            current,
+            w,
+            h,
+            scaleRadius(stage.radius, radiusScale),
+          );
+          break;
+        case "sharpen":
+          current = edgeSharpening(current, w, h, stage.sigma);
+          break;
+        case "jbu":
+          if (w === targetWidth && h === targetHeight) break;
+          current =
+            guide && w * h < targetWidth * targetHeight
+              ? jointBilateralUpsample(
+                  current,
+                  w,
+                  h,
+                  targetWidth,
+                  targetHeight,
+                  guide,
+                  stage.radius,
+                  stage.sigma,
+                )
+              : resizeDepthMap(current, w, h, targetWidth, targetHeight);
+          w = targetWidth;
+          h = targetHeight;
+          break;
+      }
+    }
+    onStage?.(stage, s, { data: current, width: w, height: h, sourceWidth: w });
+  }
+
+  if (w !== targetWidth || h !== targetHeight) {
+    current = resizeDepthMap(current, w, h, targetWidth, targetHeight);
+  }
+
+  return {
+    data: current,
+    width: targetWidth,
+    height: targetHeight,
+    sourceWidth: targetWidth,
+  };
+}
+
+/**
+ * Downsampled copy of a depth map for previewing the stages later.
+ */
+export function createDepthSnapshot(
+  data: Float32Array,
+  width: number,
+  height: number,
+  maxSize: number = SNAPSHOT_MAX_SIZE,
+): DepthSnapshot {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  return {
+    data: Float32Array.from(resizeDepthMap(data, width, height, w, h)),
+    width: w,
+    height: h,
+    sourceWidth: width,
+  };
+}
+
+// ---------- Stage parameters ----------
+
+/**
+ * A radius / sigma of 0 adapts to the map size; each further bilateral
+ * pass gets a slightly smaller window and range sigma.
+ */
+function bilateralParams(
+  stage: DepthPostStage,
+  w: number,
+  h: number,
+  radiusScale: number,
+  pass: number,
+): { radius: number; sigma: number } {
+  const minDim = Math.min(w, h) / radiusScale;
+  const autoRadius = Math.max(2, Math.round(minDim / 128) - pass);
+  const autoSigma =
+    (minDim < 512 ? 0.08 : minDim > 1024 ? 0.15 : 0.12) * 0.8 ** pass;
+
+  return {
+    radius: scaleRadius(stage.radius || autoRadius, radiusScale),
+    sigma: stage.sigma || autoSigma,
+  };
+}
+
+function scaleRadius(radius: number, scale: number): number {
+  return Math.max(1, Math.round(radius * scale));
+}
+
+// ---------- Filters ----------
+
+export function bilateralFilter(
+  data: Float32Array,
+  w: number,
+  h: number,
+  radius: number,
+  sigmaRange: number,
+): Float32Array {
+  const result = new Float32Array(data.length);
+  const sigmaSpace = radius / 2;
+  const earlyExitThreshold = 0.01;
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const idx = y * w + x;
+      const center = data[idx];
+
+      // Fast early-exit: check if all neighbors are within threshold
+      let allClose = true;
+      outer: for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (dy === 0 && dx === 0) continue;
+          const ny = y + dy;
+          const nx = x + dx;
+          if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
+          if (Math.abs(data[ny * w + nx] - center) > earlyExitThreshold) {
+            allClose = false;
+            break outer;
+          }
+        }
+      }
+      if (allClose) {
+        result[idx] = center;
+        continue;
+      }
+
+      let sum = 0;
+      let wSum = 0;
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const ny = y + dy;
+          const nx = x + dx;
+          if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
+
+          const nIdx = ny * w + nx;
+          const neighbor = data[nIdx];
+          const spatialDist = Math.sqrt(dx * dx + dy * dy);
+          const rangeDist = Math.abs(center - neighbor);
+
+          const ws = Math.exp(
+            -(spatialDist * spatialDist) / (2 * sigmaSpace * sigmaSpace),
+          );
+          const wr = Math.exp(
+            -(rangeDist * rangeDist) / (2 * sigmaRange * sigmaRange),
+          );
+          const weight = ws * wr;
+
+          sum += neighbor * weight;
+          wSum += weight;
+        }
+      }
+
+      result[idx] = wSum > 0 ? sum / wSum : center;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fills zero/NaN depth values by averaging valid neighbors in a
+ * (2·radius + 1)² window.
+ */
+function holeFilling(
+  data: Float32Array,
+  w: number,
+  h: number,
+  radius: number,
+): Float32Array {
+  const result = new Float32Array(data);
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const idx = y * w + x;
+      const val = result[idx];
+      if (val !== 0 && !Number.isNaN(val)) continue;
+
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const ny = y + dy;
+          const nx = x + dx;
+          if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
+          const nv = data[ny * w + nx];
+          if (nv !== 0 && !Number.isNaN(nv)) {
+            sum += nv;
+            count++;
+          }
+        }
+      }
+      result[idx] = count > 0 ? sum / count : 0;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Median filter over a (2·radius + 1)² window — removes salt-and-pepper
+ * noise from depth maps without blurring edges like Gaussian.
+ */
+function medianFilter(
+  data: Float32Array,
+  w: number,
+  h: number,
+  radius: number,
+): Float32Array {
+  const result = new Float32Array(data.length);
+  const window: number[] = [];
+  const mid = ((2 * radius + 1) ** 2 - 1) / 2;
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      window.length = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const ny = Math.max(0, Math.min(h - 1, y + dy));
+          const nx = Math.max(0, Math.min(w - 1, x + dx));
+          window.push(data[ny * w + nx]);
+        }
+      }
+      window.sort((a, b) => a - b);
+      result[y * w + x] = window[mid];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Laplacian of Gaussian edge enhancement on depth discontinuities.
+ * Sharpens edges while keeping smooth regions intact.
+ */
+function edgeSharpening(
+  data: Float32Array,
+  w: number,
+  h: number,
+  sharpenStrength: number,
+): Float32Array {
+  const result = new Float32Array(data.length);
+
+  // LoG-inspired 3×3 kernel: approximation of Laplacian of Gaussian
+  // [ 0, -1,  0 ]
+  // [-1,  4, -1 ]
+  // [ 0, -1,  0 ]
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const idx = y * w + x;
+
+      if (y === 0 || y === h - 1 || x === 0 || x === w - 1) {
+        result[idx] = data[idx];
+        continue;
+      }
+
+      const laplacian =
+        4 * data[idx] -
+        data[(y - 1) * w + x] -
+        data[(y + 1) * w + x] -
+        data[y * w + (x - 1)] -
+        data[y * w + (x + 1)];
+
+      const enhanced = data[idx] + sharpenStrength * laplacian;
+      result[idx] = Math.max(0, Math.min(1, enhanced));
+    }
+  }
+
+  return result;
+}
+
+// ---------- Resampling ----------
+
+export function resizeDepthMap(
+  source: Float32Array,
+  srcW: number,
+  srcH: number,
+  dstW: number,
+  dstH: number,
+): Float32Array {
+  if (srcW === dstW && srcH === dstH) return source;
+
+  const result = new Float32Array(dstW * dstH);
+  const xRatio = srcW / dstW;
+  const yRatio = srcH / dstH;
+
+  for (let y = 0; y < dstH; y++) {
+    for (let x = 0; x < dstW; x++) {
+      // Bilinear interpolation
+      const srcX = x * xRatio;
+      const srcY = y * yRatio;
+      const x0 = Math.floor(srcX);
+      const y0 = Math.floor(srcY);
+      const x1 = Math.min(x0 + 1, srcW - 1);
+      const y1 = Math.min(y0 + 1, srcH - 1);
+      const fx = srcX - x0;
+      const fy = srcY - y0;
+
+      const v00 = source[y0 * srcW + x0];
+      const v10 = source[y0 * srcW + x1];
+      const v01 = source[y1 * srcW + x0];
+      const v11 = source[y1 * srcW + x1];
+
+      result[y * dstW + x] =
+        v00 * (1 - fx) * (1 - fy) +
+        v10 * fx * (1 - fy) +
+        v01 * (1 - fx) * fy +
+        v11 * fx * fy;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Joint Bilateral Upsampling — upsamples a low-res depth map guided by
+ * a high-res RGB image. Preserves depth discontinuities at color edges.
+ */
+function jointBilateralUpsample(
+  depthLow: Float32Array,
+  lowW: number,
+  lowH: number,
+  highW: number,
+  highH: number,
+  rgbHigh: Uint8ClampedArray,
+  radius: number,
+  sigmaColor: number,
+): Float32Array {
+  const result = new Float32Array(highW * highH);
+  const sigmaSpace = Math.max(radius * 0.75, 0.5);
+  const xRatio = lowW / highW;
+  const yRatio = lowH / highH;
+
+  for (let y = 0; y < highH; y++) {
+    for (let x = 0; x < highW; x++) {
+      const highIdx = (y * highW + x) * 4;
+      const rH = rgbHigh[highIdx];
+      const gH = rgbHigh[highIdx + 1];
+      const bH = rgbHigh[highIdx + 2];
+
+      const srcX = x * xRatio;
+      const srcY = y * yRatio;
+      const cx = Math.min(Math.round(srcX), lowW - 1);
+      const cy = Math.min(Math.round(srcY), lowH - 1);
+
+      let sum = 0;
+      let wSum = 0;
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || nx >= lowW || ny < 0 || ny >= lowH) continue;
+
+          const depth = depthLow[ny * lowW + nx];
+
+          const spatialDist = Math.sqrt(dx * dx + dy * dy);
+          const ws = Math.exp(
+            -(spatialDist * spatialDist) / (2 * sigmaSpace * sigmaSpace),
+          );
+
+          const corrHighX = Math.min(Math.round(nx / xRatio), highW - 1);
+          const corrHighY = Math.min(Math.round(ny / yRatio), highH - 1);
+          const corrIdx = (corrHighY * highW + corrHighX) * 4;
+          const colorDist = Math.sqrt(
+            (rH - rgbHigh[corrIdx]) ** 2 +
+              (gH - rgbHigh[corrIdx + 1]) ** 2 +
+              (bH - rgbHigh[corrIdx + 2]) ** 2,
+          );
+          const wc = Math.exp(
+            -(colorDist * colorDist) / (2 * sigmaColor * sigmaColor),
+          );
+
+          const weight = ws * wc;
+          sum += depth * weight;
+          wSum += weight;
+        }
+      }
+
+      result[y * highW + x] =
+        wSum > 0 ? sum / wSum : depthLow[cy * lowW + cx] || 0;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,145 @@
+/**
+ * Errors.ts
+ *
+ * Typed errors for the failures the user can do something about. Each one
+ * carries a stable `code` and plain-data `details`, so it survives the
+ * worker boundary and can be stored in AppState, where ErrorDisplay offers
+ * recovery actions by code. Errors thrown by the browser or ONNX Runtime
+ * are mapped onto this hierarchy by `toAppError`.
+ */
+
+import type { AppErrorCode, AppErrorDetails, AppErrorInfo } from "../types";
+import { isAbortError } from "./Abort";
+import type { ManifoldReport } from "./Solidify";
+
+// ---------- Hierarchy ----------
+
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+  readonly details: AppErrorDetails;
+
+  constructor(
+    code: AppErrorCode,
+    message: string,
+    details: AppErrorDetails = {},
+    cause?: unknown,
+  ) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = "AppError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Model weights could not be fetched or the inference session not created */
+export class ModelDownloadError extends AppError {
+  constructor(model: string, cause?: unknown) {
+    super(
+      "model-download",
+      `Model ${model} could not be loaded: ${messageOf(cause)}`,
+      { model },
+      cause,
+    );
+    this.name = "ModelDownloadError";
+  }
+}
+
+/** An allocation failed — in the JS heap, WASM memory or on the GPU */
+export class OutOfMemoryError extends AppError {
+  constructor(operation: string, cause?: unknown) {
+    super(
+      "out-of-memory",
+      `Out of memory during ${operation}: ${messageOf(cause)}`,
+      { operation },
+      cause,
+    );
+    this.name = "OutOfMemoryError";
+  }
+}
+
+/** A photo or depth file could not be read or decoded */
+export class ImageDecodeError extends AppError {
+  constructor(source: string, cause?: unknown, details: AppErrorDetails = {}) {
+    super(
+      "image-decode",
+      `Image ${source} could not be decoded: ${messageOf(cause)}`,
+      { source, ...details },
+      cause,
+    );
+    this.name = "ImageDecodeError";
+  }
+}
+
+/** The browser dropped the WebGL context (GPU reset, too many contexts) */
+export class WebGLContextLostError extends AppError {
+  constructor(operation: string) {
+    super("webgl-context-lost", `WebGL context lost during ${operation}`, {
+      operation,
+    });
+    this.name = "WebGLContextLostError";
+  }
+}
+
+/** A solid for 3D printing still has open or shared edges */
+export class NonManifoldError extends AppError {
+  constructor(mesh: string, { openEdges, nonManifoldEdges }: ManifoldReport) {
+    super(
+      "non-manifold",
+      `Mesh ${mesh} is not watertight: ${openEdges} open and ${nonManifoldEdges} non-manifold edges`,
+      { mesh, openEdges, nonManifoldEdges },
+    );
+    this.name = "NonManifoldError";
+  }
+}
+
+// ---------- Mapping ----------
+
+// Allocation failures as reported by V8, Firefox, Safari and ONNX Runtime
+const OUT_OF_MEMORY_PATTERN =
+  /out of memory|allocation failed|failed to allocate|invalid array length|invalid string length|bad_alloc/i;
+
+function messageOf(err: unknown): string {
+  if (err === undefined) return "unknown reason";
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function isOutOfMemory(err: unknown): boolean {
+  if (err instanceof AppError) return err.code === "out-of-memory";
+  return OUT_OF_MEMORY_PATTERN.test(messageOf(err));
+}
+
+/**
+ * Wraps any thrown value in an AppError, recognising allocation failures.
+ * AppErrors pass through unchanged.
+ */
+export function toAppError(err: unknown, operation = "processing"): AppError {
+  if (err instanceof AppError) return err;
+  if (isOutOfMemory(err)) return new OutOfMemoryError(operation, err);
+  return new AppError("unknown", messageOf(err), {}, err);
+}
+
+/**
+ * Maps a failed model load: allocation failures stay out-of-memory, and
+ * anything else is treated as a download or session-creation failure.
+ * Aborts are returned as they are.
+ */
+export function toModelLoadError(err: unknown, model: string): Error {
+  if (isAbortError(err) || err instanceof AppError) return err as Error;
+  if (isOutOfMemory(err)) return new OutOfMemoryError("model load", err);
+  return new ModelDownloadError(model, err);
+}
+
+/** Rebuilds an error from its code, e.g. after a worker posted it */
+export function fromErrorInfo({
+  code,
+  message,
+  details,
+}: AppErrorInfo): AppError {
+  return new AppError(code, message, details);
+}
+
+/** The plain-data form kept in AppState */
+export function errorInfo(err: unknown): AppErrorInfo {
+  const { code, message, details } = toAppError(err);
+  return { code, message, details };
+}
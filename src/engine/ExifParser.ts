@@ -3,6 +3,8 @@
  * Reads the APP1 (Exif) marker from raw JPEG bytes and parses IFD entries.
  */
 
+import { ImageDecodeError } from "./Errors";
+
 export interface CameraIntrinsics {
   focalLength: number;
   fov: number;
@@ -287,16 +289,21 @@ function calculateFOV(sensorWidth: number, focalLength: number): number {
 
 /**
  * Extract camera intrinsics from a JPEG File.
- * Returns null only if file reading fails entirely; otherwise provides
- * defaults when EXIF is missing (50mm, APS-C sensor).
+ * Throws ImageDecodeError if the file can't be read at all; otherwise
+ * provides defaults when EXIF is missing (50mm, APS-C sensor).
  */
 export async function extractCameraIntrinsics(
   file: File,
 ): Promise<CameraIntrinsics | null> {
+  let buffer: ArrayBuffer;
   try {
     // Read first 128KB — EXIF is always near the start of the file
-    const slice = file.slice(0, 128 * 1024);
-    const buffer = await slice.arrayBuffer();
+    buffer = await file.slice(0, 128 * 1024).arrayBuffer();
+  } catch (err) {
+    throw new ImageDecodeError(file.name, err);
+  }
+
+  try {
     const exif = parseExifFromBuffer(buffer);
 
     const focalLength = exif?.focalLength ?? DEFAULT_FOCAL_LENGTH;
@@ -317,7 +324,7 @@ export async function extractCameraIntrinsics(
       aspectRatio,
     };
   } catch {
-    // File reading failed — return defaults
+    // Malformed EXIF — return defaults
     return {
       focalLength: DEFAULT_FOCAL_LENGTH,
       fov: calculateFOV(DEFAULT_SENSOR_WIDTH, DEFAULT_FOCAL_LENGTH),
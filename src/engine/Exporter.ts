@@ -5,10 +5,29 @@ import {
   BufferGeometry,
   WebGLRenderTarget,
   Vector2,
+  LOD,
+  Group,
+  Points,
 } from "three";
-import { GLTFExporter } from "three/addons/exporters/GLTFExporter.js";
+import {
+  GLTFExporter,
+  type GLTFExporterPlugin,
+  type GLTFWriter,
+} from "three/addons/exporters/GLTFExporter.js";
 import { OBJExporter } from "three/addons/exporters/OBJExporter.js";
 import { STLExporter } from "three/addons/exporters/STLExporter.js";
+import { strToU8, zipSync } from "three/addons/libs/fflate.module.js";
+import type { RunTimingReport } from "../types";
+import type { BenchmarkReport } from "./Benchmark";
+import { AppError, WebGLContextLostError, toAppError } from "./Errors";
+import { assertManifold, solidifyMesh } from "./Solidify";
+
+export interface ExportOptions {
+  /** Scene geometry is in meters (metric depth mode) */
+  metric?: boolean;
+  /** Base of printable solids, as a fraction of the relief depth */
+  baseThickness?: number;
+}
 
 function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
@@ -19,6 +38,25 @@ function downloadBlob(blob: Blob, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Runs an exporter, reporting allocation failures on large scenes as
+ * OutOfMemoryError.
+ */
+function runExport<T>(format: string, exportFn: () => T): T {
+  try {
+    return exportFn();
+  } catch (err) {
+    throw toAppError(err, `${format} export`);
+  }
+}
+
+/** Reading pixels from a lost context silently yields a blank image */
+function assertContext(renderer: WebGLRenderer, operation: string): void {
+  if (renderer.getContext().isContextLost()) {
+    throw new WebGLContextLostError(operation);
+  }
+}
+
 function downloadText(
   text: string,
   filename: string,
@@ -28,51 +66,269 @@ function downloadText(
   downloadBlob(blob, filename);
 }
 
-export async function exportGLTF(scene: Scene): Promise<void> {
-  const exporter = new GLTFExporter();
-  const result = await exporter.parseAsync(scene, {
-    binary: true,
-    includeCustomExtensions: true,
+// Vertical field of view the viewer renders with, for screen coverage hints
+const VIEWER_FOV = 50;
+
+/**
+ * Prepares every LOD in the scene for an exporter: "all" makes each level
+ * visible, "finest" also detaches the coarser levels so formats without
+ * LOD support get one copy of each mesh. Returns a function that puts the
+ * scene back.
+ */
+function showLodLevels(scene: Scene, mode: "all" | "finest"): () => void {
+  const lods: LOD[] = [];
+  scene.traverse((obj) => {
+    if (obj instanceof LOD) lods.push(obj);
   });
+
+  const restores: (() => void)[] = [];
+  for (const lod of lods) {
+    const objects = lod.levels.map((level) => level.object);
+    const visible = objects.map((object) => object.visible);
+    const detached = mode === "finest" ? objects.slice(1) : [];
+    for (const object of objects) object.visible = true;
+    for (const object of detached) lod.remove(object);
+    restores.push(() => {
+      // Re-adding in level order keeps children and levels aligned
+      for (const object of detached) lod.add(object);
+      objects.forEach((object, i) => (object.visible = visible[i]));
+    });
+  }
+  return () => restores.forEach((restore) => restore());
+}
+
+function withFinestLevels<T>(scene: Scene, exportFn: () => T): T {
+  const restore = showLodLevels(scene, "finest");
+  try {
+    return exportFn();
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Writes each LOD as MSFT_lod: the finest level stays in the node tree and
+ * lists the coarser levels, which are left as detached nodes, together with
+ * MSFT_screencoverage hints taken from the viewer's switch distances.
+ */
+function msftLodPlugin(writer: GLTFWriter): GLTFExporterPlugin {
+  const finestNodes = new Map<LOD, { [key: string]: unknown }>();
+
+  return {
+    writeNode(object, nodeDef) {
+      // Children are written before their parent
+      const parent = object.parent;
+      if (parent instanceof LOD && parent.levels[0]?.object === object) {
+        finestNodes.set(parent, nodeDef);
+        return;
+      }
+      if (!(object instanceof LOD)) return;
+
+      const children = nodeDef.children as number[] | undefined;
+      const finest = finestNodes.get(object);
+      if (!finest || !children || children.length < 2) return;
+
+      nodeDef.children = [children[0]];
+      finest.extensions = {
+        ...(finest.extensions as object | undefined),
+        MSFT_lod: { ids: children.slice(1) },
+      };
+      finest.extras = {
+        ...(finest.extras as object | undefined),
+        MSFT_screencoverage: screenCoverage(object),
+      };
+      writer.extensionsUsed.MSFT_lod = true;
+    },
+  };
+}
+
+/**
+ * Fraction of the screen height each level's bounding sphere covers when
+ * the next level takes over; the coarsest level is shown down to zero.
+ */
+function screenCoverage(lod: LOD): number[] {
+  const finest = lod.levels[0].object;
+  const radius =
+    finest instanceof Mesh ? (finest.geometry.boundingSphere?.radius ?? 1) : 1;
+  const halfHeight = Math.tan(((VIEWER_FOV / 2) * Math.PI) / 180);
+  return lod.levels.map((_, i) => {
+    const next = lod.levels[i + 1];
+    if (!next || next.distance <= 0) return 0;
+    return Math.min(1, radius / (next.distance * halfHeight));
+  });
+}
+
+/**
+ * Binary glTF. Custom vertex attributes such as depth confidence are kept
+ * as application-specific accessors ("_CONFIDENCE").
+ */
+export async function exportGLTF(scene: Scene): Promise<void> {
+  const exporter = new GLTFExporter().register(msftLodPlugin);
+  let result: ArrayBuffer | object;
+  // The exporter skips hidden objects, and an LOD hides all but one level
+  const restore = showLodLevels(scene, "all");
+  try {
+    result = await exporter.parseAsync(scene, {
+      binary: true,
+      includeCustomExtensions: true,
+    });
+  } catch (err) {
+    throw toAppError(err, "GLB export");
+  } finally {
+    restore();
+  }
   const blob = new Blob([result as ArrayBuffer], {
     type: "application/octet-stream",
   });
   downloadBlob(blob, "venue-3d-model.glb");
 }
 
-export function exportOBJ(scene: Scene): void {
+export function exportOBJ(scene: Scene, options: ExportOptions = {}): void {
   const exporter = new OBJExporter();
-  const result = exporter.parse(scene);
+  let result = runExport("OBJ", () =>
+    withFinestLevels(scene, () => exporter.parse(scene)),
+  );
+  // OBJ has no unit field — record it as a header comment
+  if (options.metric) result = "# units: meters\n" + result;
   downloadText(result, "venue-3d-model.obj");
 }
 
-export function exportSTL(scene: Scene): void {
+/** Binary STL of the depth meshes, each closed into a printable solid */
+export function exportSTL(scene: Scene, options: ExportOptions = {}): void {
   const exporter = new STLExporter();
-  const result = exporter.parse(scene, { binary: true });
+  const result = runExport("STL", () => {
+    const group = new Group();
+    for (const solid of solidifyScene(scene, options)) {
+      group.add(new Mesh(solid));
+    }
+    return exporter.parse(group, { binary: true });
+  });
   const blob = new Blob([result], { type: "application/octet-stream" });
   downloadBlob(blob, "venue-3d-model.stl");
 }
 
+/** 3D Manufacturing Format: one printable solid per depth mesh */
+export function export3MF(scene: Scene, options: ExportOptions = {}): void {
+  const archive = runExport("3MF", () =>
+    build3MF(solidifyScene(scene, options), options),
+  );
+  const blob = new Blob([archive as Uint8Array<ArrayBuffer>], {
+    type: "model/3mf",
+  });
+  downloadBlob(blob, "venue-3d-model.3mf");
+}
+
+/**
+ * Watertight copies of the scene's depth surfaces in world space, each
+ * validated before anything is written. The surfaces are tagged by
+ * DepthMesh, so ground planes and helpers are left out.
+ */
+function solidifyScene(scene: Scene, options: ExportOptions): BufferGeometry[] {
+  return withFinestLevels(scene, () => {
+    scene.updateMatrixWorld();
+    const solids: BufferGeometry[] = [];
+    scene.traverse((obj) => {
+      if (!(obj instanceof Mesh || obj instanceof Points)) return;
+      if (!obj.userData.depthSurface) return;
+      const solid = solidifyMesh(obj.geometry, {
+        baseThickness: options.baseThickness,
+        camera: obj.userData.camera,
+      });
+      assertManifold(solid, String(solids.length + 1));
+      solids.push(solid.applyMatrix4(obj.matrixWorld));
+    });
+    if (solids.length === 0) {
+      throw new AppError("unknown", "No depth mesh in the scene to export");
+    }
+    return solids;
+  });
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/></Types>`;
+
+const RELS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/></Relationships>`;
+
+function build3MF(
+  solids: BufferGeometry[],
+  options: ExportOptions,
+): Uint8Array {
+  const coord = (n: number) => String(Math.round(n * 1e6) / 1e6);
+  const objects: string[] = [];
+  const items: string[] = [];
+
+  solids.forEach((solid, i) => {
+    const pos = solid.getAttribute("position");
+    const index = solid.index;
+    if (!index) return;
+
+    const parts = ["<mesh><vertices>"];
+    for (let v = 0; v < pos.count; v++) {
+      parts.push(
+        `<vertex x="${coord(pos.getX(v))}" y="${coord(pos.getY(v))}" z="${coord(pos.getZ(v))}"/>`,
+      );
+    }
+    parts.push("</vertices><triangles>");
+    for (let t = 0; t < index.count; t += 3) {
+      parts.push(
+        `<triangle v1="${index.getX(t)}" v2="${index.getX(t + 1)}" v3="${index.getX(t + 2)}"/>`,
+      );
+    }
+    parts.push("</triangles></mesh>");
+
+    objects.push(
+      `<object id="${i + 1}" type="model">${parts.join("")}</object>`,
+    );
+    items.push(`<item objectid="${i + 1}"/>`);
+  });
+
+  // 3MF is Z-up like the meshes' depth axis, so the base sits on the bed
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${options.metric ? "meter" : "millimeter"}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+<resources>${objects.join("\n")}</resources>
+<build>${items.join("")}</build>
+</model>`;
+
+  return zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES_XML),
+    "_rels/.rels": strToU8(RELS_XML),
+    "3D/3dmodel.model": strToU8(model),
+  });
+}
+
 export function exportScreenshot(
   renderer: WebGLRenderer,
   filename = "venue-3d-screenshot.png",
 ): void {
+  assertContext(renderer, "screenshot");
   renderer.domElement.toBlob((blob) => {
     if (blob) downloadBlob(blob, filename);
   }, "image/png");
 }
 
-export function exportPLY(scene: Scene): void {
+export function exportPLY(scene: Scene, options: ExportOptions = {}): void {
+  const ply = runExport("PLY", () =>
+    withFinestLevels(scene, () => buildPLY(scene, options)),
+  );
+  downloadText(ply, "venue-3d-model.ply");
+}
+
+function buildPLY(scene: Scene, options: ExportOptions): string {
   const vertices: number[] = [];
   const colors: number[] = [];
+  const confidence: number[] = [];
+  let hasConfidence = false;
 
   scene.traverse((obj) => {
     if (obj instanceof Mesh && obj.geometry instanceof BufferGeometry) {
       const geo = obj.geometry;
       const pos = geo.getAttribute("position");
       const col = geo.getAttribute("color");
+      const conf = geo.getAttribute("confidence");
 
       if (!pos) return;
+      if (conf) hasConfidence = true;
 
       for (let i = 0; i < pos.count; i++) {
         vertices.push(pos.getX(i), pos.getY(i), pos.getZ(i));
@@ -85,6 +341,7 @@ export function exportPLY(scene: Scene): void {
         } else {
           colors.push(200, 200, 200);
         }
+        confidence.push(conf ? conf.getX(i) : 1);
       }
     }
   });
@@ -92,6 +349,7 @@ export function exportPLY(scene: Scene): void {
   const vertexCount = vertices.length / 3;
   let ply = "ply\n";
   ply += "format ascii 1.0\n";
+  if (options.metric) ply += "comment units: meters\n";
   ply += `element vertex ${vertexCount}\n`;
   ply += "property float x\n";
   ply += "property float y\n";
@@ -99,14 +357,34 @@ export function exportPLY(scene: Scene): void {
   ply += "property uchar red\n";
   ply += "property uchar green\n";
   ply += "property uchar blue\n";
+  if (hasConfidence) ply += "property float confidence\n";
   ply += "end_header\n";
 
   for (let i = 0; i < vertexCount; i++) {
     const vi = i * 3;
-    ply += `${vertices[vi].toFixed(6)} ${vertices[vi + 1].toFixed(6)} ${vertices[vi + 2].toFixed(6)} ${colors[vi]} ${colors[vi + 1]} ${colors[vi + 2]}\n`;
+    ply += `${vertices[vi].toFixed(6)} ${vertices[vi + 1].toFixed(6)} ${vertices[vi + 2].toFixed(6)} ${colors[vi]} ${colors[vi + 1]} ${colors[vi + 2]}`;
+    ply += hasConfidence ? ` ${confidence[i].toFixed(4)}\n` : "\n";
   }
 
-  downloadText(ply, "venue-3d-model.ply");
+  return ply;
+}
+
+/** The timing report of the last processing run, for profiling */
+export function exportTimingReport(report: RunTimingReport): void {
+  downloadText(
+    JSON.stringify(report, null, 2),
+    "venue-3d-timing.json",
+    "application/json",
+  );
+}
+
+/** Benchmark results, to compare machines */
+export function exportBenchmarkReport(report: BenchmarkReport): void {
+  downloadText(
+    JSON.stringify(report, null, 2),
+    "venue-3d-benchmark.json",
+    "application/json",
+  );
 }
 
 export function exportScreenshotHD(
@@ -114,6 +392,7 @@ export function exportScreenshotHD(
   width?: number,
   height?: number,
 ): void {
+  assertContext(renderer, "HD screenshot");
   const currentSize = new Vector2();
   renderer.getSize(currentSize);
 
@@ -0,0 +1,115 @@
+/**
+ * GeometryTransfer.ts
+ *
+ * Packs Three.js geometry into plain typed arrays that can cross the
+ * worker boundary as Transferables, and wraps them back into a
+ * `BufferGeometry` on the other side. Used by the ProcessingWorker and the
+ * WorkerBridge, so meshes are built off the main thread without copies.
+ */
+
+import { BufferAttribute, BufferGeometry } from "three";
+import type { ProcessedMesh } from "../types";
+
+// ---------- Types ----------
+
+export interface AttributeBuffer {
+  array: Float32Array;
+  itemSize: number;
+}
+
+/** Attributes and index of a geometry as bare typed arrays */
+export interface GeometryBuffers {
+  attributes: Record<string, AttributeBuffer>;
+  index: Uint16Array | Uint32Array | null;
+}
+
+/**
+ * A ProcessedMesh with its geometry packed. The normal texture and the raw
+ * depth snapshot stay on the main thread.
+ */
+export interface TransferableMesh extends Omit<
+  ProcessedMesh,
+  "geometry" | "normalMap" | "rawDepth"
+> {
+  geometry: GeometryBuffers;
+}
+
+// ---------- Geometry ----------
+
+export function packGeometry(geometry: BufferGeometry): GeometryBuffers {
+  const attributes: Record<string, AttributeBuffer> = {};
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    attributes[name] = {
+      array: attribute.array as Float32Array,
+      itemSize: attribute.itemSize,
+    };
+  }
+
+  return {
+    attributes,
+    index: (geometry.index?.array as Uint16Array | Uint32Array) ?? null,
+  };
+}
+
+export function unpackGeometry(buffers: GeometryBuffers): BufferGeometry {
+  const geometry = new BufferGeometry();
+  for (const [name, { array, itemSize }] of Object.entries(
+    buffers.attributes,
+  )) {
+    geometry.setAttribute(name, new BufferAttribute(array, itemSize));
+  }
+  if (buffers.index) geometry.setIndex(new BufferAttribute(buffers.index, 1));
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+// ---------- Meshes ----------
+
+export function packMesh({
+  geometry,
+  ...mesh
+}: ProcessedMesh): TransferableMesh {
+  const packed = { ...mesh, geometry: packGeometry(geometry) };
+  delete packed.normalMap;
+  delete packed.rawDepth;
+  return packed;
+}
+
+/**
+ * Rebuilds a ProcessedMesh, re-attaching the main-thread parts kept by
+ * `source` (matched on photoId).
+ */
+export function unpackMesh(
+  mesh: TransferableMesh,
+  source?: ProcessedMesh,
+): ProcessedMesh {
+  return {
+    ...mesh,
+    geometry: unpackGeometry(mesh.geometry),
+    ...(source?.normalMap ? { normalMap: source.normalMap } : {}),
+    ...(source?.rawDepth ? { rawDepth: source.rawDepth } : {}),
+  };
+}
+
+/**
+ * Every buffer of the given geometries and meshes, each listed once —
+ * meshes may share a depth map, and postMessage rejects duplicates.
+ */
+export function collectTransferables(
+  items: (GeometryBuffers | TransferableMesh)[],
+): Transferable[] {
+  const buffers = new Set<ArrayBufferLike>();
+  for (const item of items) {
+    const geometry = "attributes" in item ? item : item.geometry;
+    for (const { array } of Object.values(geometry.attributes)) {
+      buffers.add(array.buffer);
+    }
+    if (geometry.index) buffers.add(geometry.index.buffer);
+    if (!("attributes" in item)) {
+      buffers.add(item.depthMap.buffer);
+      if (item.confidence) buffers.add(item.confidence.buffer);
+      item.lods?.forEach((lod) => buffers.add(lod.buffer));
+    }
+  }
+  return [...buffers] as Transferable[];
+}
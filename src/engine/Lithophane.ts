@@ -0,0 +1,355 @@
+/**
+ * Lithophane.ts
+ *
+ * Printable plates from a single photo. A lithophane is thin where the
+ * photo is bright, so the picture appears when it is lit from behind; a
+ * relief is thick where the scene is near (or bright) and is seen under
+ * normal light.
+ *
+ * Heights come from the photo's luminance or from its depth map and go
+ * through the same grid and smoothing as the depth meshes, with one grid
+ * vertex per `resolutionMm`. The surface is then closed with a flat back
+ * and side walls, optionally framed at full thickness and bent around a
+ * vertical cylinder, and is measured in millimetres throughout.
+ */
+
+import { BufferGeometry, Float32BufferAttribute } from "three";
+import type { PlaneGeometry } from "three";
+import type { DepthEncoding, PhotoFile } from "../types";
+import { ImageDecodeError } from "./Errors";
+import { generateDepthMesh, smoothMesh } from "./MeshGenerator";
+
+// ---------- Types ----------
+
+/** Lithophanes are thin where bright; reliefs are thick where high */
+export type PlateStyle = "lithophane" | "relief";
+
+export type HeightSource = "luminance" | "depth";
+
+export interface LithophaneOptions {
+  style: PlateStyle;
+  source: HeightSource;
+  /** Plate width including the frame; the height follows the photo */
+  widthMm: number;
+  /** Thickness of the picture at its lowest and highest points */
+  minThicknessMm: number;
+  maxThicknessMm: number;
+  /** Frame around the picture at full thickness; 0 for none */
+  borderMm: number;
+  /** Arc the plate is bent around a vertical axis, in degrees; 0 is flat */
+  curveDegrees: number;
+  /** Grid spacing; coarsened when the plate would exceed the grid cap */
+  resolutionMm?: number;
+  smoothingIterations?: number;
+}
+
+export const DEFAULT_LITHOPHANE_OPTIONS: LithophaneOptions = {
+  style: "lithophane",
+  source: "luminance",
+  widthMm: 100,
+  minThicknessMm: 0.8,
+  maxThicknessMm: 3,
+  borderMm: 3,
+  curveDegrees: 0,
+};
+
+/** A depth map to raise the plate from, as kept with meshes and photos */
+export interface PlateDepth {
+  data: Float32Array;
+  width: number;
+  height: number;
+  encoding: DepthEncoding;
+}
+
+export interface Lithophane {
+  /** Closed solid in millimetres, back face at z = 0 when flat */
+  geometry: BufferGeometry;
+  widthMm: number;
+  heightMm: number;
+}
+
+// Half a common 0.4 mm nozzle — finer detail doesn't print
+const DEFAULT_RESOLUTION_MM = 0.2;
+
+// Grid vertices per side, as generateDepthMesh caps photo meshes
+const MAX_GRID_SIDE = 800;
+
+// Longest side luminance is decoded at before resampling to the grid
+const MAX_DECODE_SIZE = 2048;
+
+/** A single-channel map with values in [0, 1] */
+interface HeightMap {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// ---------- Build ----------
+
+/**
+ * Builds a printable plate from `photo`. `depth` is required when the
+ * heights come from depth; luminance is decoded from the photo itself.
+ */
+export async function buildLithophane(
+  photo: PhotoFile,
+  depth: PlateDepth | null,
+  options: LithophaneOptions,
+  signal?: AbortSignal,
+): Promise<Lithophane> {
+  const {
+    style,
+    source,
+    widthMm,
+    minThicknessMm,
+    maxThicknessMm,
+    borderMm,
+    curveDegrees,
+    resolutionMm = DEFAULT_RESOLUTION_MM,
+    smoothingIterations = 1,
+  } = options;
+
+  const pictureWidth = widthMm - 2 * borderMm;
+  if (pictureWidth <= 0) {
+    throw new RangeError("The frame leaves no room for the picture");
+  }
+
+  let picture: HeightMap;
+  if (source === "depth") {
+    if (!depth) throw new Error(`No depth map for ${photo.name}`);
+    picture = normalizeDepth(depth);
+  } else {
+    picture = await decodeLuminance(photo);
+  }
+  signal?.throwIfAborted();
+
+  const heightMm =
+    (pictureWidth * picture.height) / picture.width + 2 * borderMm;
+  const spacing = Math.max(
+    resolutionMm,
+    Math.max(widthMm, heightMm) / (MAX_GRID_SIDE - 1),
+  );
+  const columns = Math.round(widthMm / spacing) + 1;
+  const rows = Math.round(heightMm / spacing) + 1;
+  const border = Math.min(
+    Math.round(borderMm / spacing),
+    Math.floor((Math.min(columns, rows) - 2) / 2),
+  );
+
+  // Heights in [0, 1]; the frame sits at full thickness
+  const heights = new Float32Array(columns * rows).fill(
+    style === "lithophane" ? 0 : 1,
+  );
+  const inner = resample(picture, columns - 2 * border, rows - 2 * border);
+  for (let y = 0; y < inner.height; y++) {
+    heights.set(
+      inner.data.subarray(y * inner.width, (y + 1) * inner.width),
+      (y + border) * columns + border,
+    );
+  }
+
+  const surface = generateDepthMesh({
+    depthMap: heights,
+    width: columns,
+    height: rows,
+    segmentsX: columns - 1,
+    segmentsY: rows - 1,
+    depthScale: 1,
+    encoding: "disparity",
+    perspective: false,
+    stretchRemoval: false,
+    outlierRemoval: false,
+    edgeMargin: 0,
+    signal,
+  });
+  smoothMesh(surface, smoothingIterations, signal);
+
+  const geometry = closePlate(surface, {
+    columns,
+    rows,
+    widthMm,
+    heightMm,
+    thickness: (h) =>
+      style === "lithophane"
+        ? maxThicknessMm - h * (maxThicknessMm - minThicknessMm)
+        : minThicknessMm + h * (maxThicknessMm - minThicknessMm),
+  });
+  surface.dispose();
+
+  if (curveDegrees > 0) bendPlate(geometry, widthMm, curveDegrees);
+  geometry.computeVertexNormals();
+  return { geometry, widthMm, heightMm };
+}
+
+// ---------- Height sources ----------
+
+/** Relative luminance of the photo, decoded at most MAX_DECODE_SIZE wide */
+async function decodeLuminance(photo: PhotoFile): Promise<HeightMap> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(photo.file);
+  } catch (err) {
+    throw new ImageDecodeError(photo.name, err, { photoId: photo.id });
+  }
+
+  const scale = Math.min(
+    1,
+    MAX_DECODE_SIZE / Math.max(bitmap.width, bitmap.height),
+  );
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("2D canvas context unavailable");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] =
+      (0.2126 * pixels[i * 4] +
+        0.7152 * pixels[i * 4 + 1] +
+        0.0722 * pixels[i * 4 + 2]) /
+      255;
+  }
+  return { data, width, height };
+}
+
+/**
+ * Depth as nearness in [0, 1], 1 nearest. Metric maps mark missing
+ * readings with 0 or less; those are treated as farthest.
+ */
+function normalizeDepth({
+  data,
+  width,
+  height,
+  encoding,
+}: PlateDepth): HeightMap {
+  const valid = (v: number) =>
+    Number.isFinite(v) && (encoding !== "metric" || v > 0);
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of data) {
+    if (!valid(v)) continue;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  const range = max - min || 1;
+
+  const heights = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    if (!valid(data[i])) continue;
+    const t = (data[i] - min) / range;
+    heights[i] = encoding === "disparity" ? t : 1 - t;
+  }
+  return { data: heights, width, height };
+}
+
+/** Bilinear resample of `map` to `width` × `height`, corners aligned */
+function resample(map: HeightMap, width: number, height: number): HeightMap {
+  const data = new Float32Array(width * height);
+  const sx = (map.width - 1) / Math.max(1, width - 1);
+  const sy = (map.height - 1) / Math.max(1, height - 1);
+
+  for (let y = 0; y < height; y++) {
+    const fy = y * sy;
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(map.height - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = x * sx;
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(map.width - 1, x0 + 1);
+      const tx = fx - x0;
+      const top =
+        map.data[y0 * map.width + x0] * (1 - tx) +
+        map.data[y0 * map.width + x1] * tx;
+      const bottom =
+        map.data[y1 * map.width + x0] * (1 - tx) +
+        map.data[y1 * map.width + x1] * tx;
+      data[y * width + x] = top * (1 - ty) + bottom * ty;
+    }
+  }
+  return { data, width, height };
+}
+
+// ---------- Plate ----------
+
+interface PlateLayout {
+  columns: number;
+  rows: number;
+  widthMm: number;
+  heightMm: number;
+  /** Plate thickness for a height in [0, 1] */
+  thickness: (h: number) => number;
+}
+
+/**
+ * Closes a full grid surface into a plate: the surface on top, a copy of
+ * the grid flat at z = 0 below it, and walls around the grid border. The
+ * back keeps the grid's density so it bends as smoothly as the front.
+ */
+function closePlate(
+  surface: PlaneGeometry,
+  { columns, rows, widthMm, heightMm, thickness }: PlateLayout,
+): BufferGeometry {
+  const uv = surface.attributes.uv;
+  const position = surface.attributes.position;
+  const count = position.count;
+
+  const positions = new Float32Array(count * 6);
+  for (let i = 0; i < count; i++) {
+    const x = (uv.getX(i) - 0.5) * widthMm;
+    const y = (uv.getY(i) - 0.5) * heightMm;
+    const h = Math.max(0, Math.min(1, position.getZ(i)));
+    positions.set([x, y, thickness(h)], i * 3);
+    positions.set([x, y, 0], (count + i) * 3);
+  }
+
+  const index = surface.index?.array ?? [];
+  const faces: number[] = Array.from(index);
+  for (let i = 0; i < index.length; i += 3) {
+    faces.push(count + index[i], count + index[i + 2], count + index[i + 1]);
+  }
+
+  // The grid border counter-clockwise from the bottom-left corner, the way
+  // the top faces run along it; row 0 is the top of the picture
+  const vertex = (x: number, y: number) => y * columns + x;
+  const loop: number[] = [];
+  for (let x = 0; x < columns - 1; x++) loop.push(vertex(x, rows - 1));
+  for (let y = rows - 1; y > 0; y--) loop.push(vertex(columns - 1, y));
+  for (let x = columns - 1; x > 0; x--) loop.push(vertex(x, 0));
+  for (let y = 0; y < rows - 1; y++) loop.push(vertex(0, y));
+
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i];
+    const b = loop[(i + 1) % loop.length];
+    faces.push(b, a, count + a, b, count + a, count + b);
+  }
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+  geometry.setIndex(faces);
+  return geometry;
+}
+
+/**
+ * Wraps the plate's width around a vertical cylinder, picture outward;
+ * the back becomes the inner wall and the middle of the back stays at z = 0.
+ */
+function bendPlate(
+  geometry: BufferGeometry,
+  widthMm: number,
+  curveDegrees: number,
+): void {
+  const radius = widthMm / ((curveDegrees * Math.PI) / 180);
+  const position = geometry.attributes.position;
+  for (let i = 0; i < position.count; i++) {
+    const angle = position.getX(i) / radius;
+    const r = radius + position.getZ(i);
+    position.setX(i, r * Math.sin(angle));
+    position.setZ(i, r * Math.cos(angle) - radius);
+  }
+  position.needsUpdate = true;
+}
@@ -7,9 +7,24 @@ import {
   FloatType,
   LinearFilter,
 } from "three";
-import type { CameraIntrinsics } from "../types";
-
-interface MeshOptions {
+import type {
+  CameraIntrinsics,
+  CameraPose,
+  ConfidenceMode,
+  DepthEncoding,
+} from "../types";
+import { checkpoint } from "./Abort";
+import {
+  DEFAULT_FOV,
+  cameraZ,
+  createCameraPose,
+  rescaleCameraPose,
+  slideAlongRay,
+  unproject,
+} from "./CameraModel";
+import { createLodChain, simplifyMesh } from "./MeshSimplifier";
+
+export interface MeshOptions {
   depthMap: Float32Array;
   width: number;
   height: number;
@@ -21,15 +36,31 @@ interface MeshOptions {
   perspective?: boolean;
   stretchRemoval?: boolean;
   stretchThreshold?: number;
+  /** Fraction of each side culled as unreliable border; 0 keeps the full grid */
+  edgeMargin?: number;
   fov?: number;
   cameraIntrinsics?: CameraIntrinsics;
+  /** Camera to back-project through; derived from the intrinsics if missing */
+  camera?: CameraPose;
+  /** Encoding of depthMap — "metric" builds the mesh at real scale, ignoring depthScale */
+  encoding?: DepthEncoding;
+  /** Per-pixel confidence (0–1) at depthMap resolution */
+  confidence?: Float32Array;
+  /** Vertices below this confidence are dropped or relaxed; 0 disables */
+  confidenceThreshold?: number;
+  confidenceMode?: ConfidenceMode;
+  /** Checked between build stages */
+  signal?: AbortSignal;
 }
 
+// Relief depth of relative meshes when the caller doesn't set one
+const DEFAULT_DEPTH_SCALE = 2.0;
+
 export function generateDepthMesh({
   depthMap,
   width,
   height,
-  depthScale = 2.0,
+  depthScale = DEFAULT_DEPTH_SCALE,
   segmentsX,
   segmentsY,
   enhancedNormals = false,
@@ -37,15 +68,25 @@ export function generateDepthMesh({
   perspective = true,
   stretchRemoval = true,
   stretchThreshold = 0.2,
-  fov = 60,
+  edgeMargin = 0.03,
+  fov = DEFAULT_FOV,
   cameraIntrinsics,
+  camera,
+  encoding = "disparity",
+  confidence,
+  confidenceThreshold = 0,
+  confidenceMode = "weight",
+  signal,
 }: MeshOptions): PlaneGeometry {
+  const metric = encoding === "metric";
   const maxSegments = 800; // Increased from 200 for smoother details
   const aspect = width / height;
 
   const segsX = segmentsX ?? Math.min(width, maxSegments);
   const segsY = segmentsY ?? Math.min(height, maxSegments);
 
+  // The plane only lays out the vertex grid and UVs; every vertex is then
+  // back-projected through the camera
   const planeWidth = aspect * 4;
   const planeHeight = 4;
 
@@ -53,46 +94,74 @@ export function generateDepthMesh({
   const positions = geometry.attributes.position;
   const vertexCount = positions.count;
 
+  const pose =
+    camera ??
+    createCameraPose({
+      width,
+      height,
+      cameraIntrinsics,
+      fov,
+      encoding,
+      depthScale,
+      perspective,
+    });
+  const poseZ = cameraZ(pose);
+  const point: [number, number, number] = [0, 0, 0];
+  const vertexConfidence = new Float32Array(vertexCount).fill(1);
+
+  // UVs rather than plane positions: they are exact grid fractions
+  const uvs = geometry.attributes.uv;
   for (let i = 0; i < vertexCount; i++) {
-    const u = positions.getX(i) / planeWidth + 0.5;
-    const v = 1.0 - (positions.getY(i) / planeHeight + 0.5);
+    const u = uvs.getX(i);
+    const v = 1.0 - uvs.getY(i);
 
     const px = Math.floor(u * (width - 1));
     const py = Math.floor(v * (height - 1));
     const idx = py * width + px;
 
     const depth = depthMap[idx] ?? 0;
-    const z = depth * depthScale;
-    positions.setZ(i, z);
-
-    // Perspective Projection: Expand X/Y based on Z
-    if (perspective) {
-      const effectiveFov = cameraIntrinsics?.fov ?? fov;
-      const perspectiveFactor =
-        Math.tan((effectiveFov * Math.PI) / 180 / 2) * 0.5;
-      const scale = 1 + z * perspectiveFactor;
-
-      const originalX = positions.getX(i);
-      const originalY = positions.getY(i);
+    if (confidence) vertexConfidence[i] = confidence[idx] ?? 1;
+
+    // Metric values are distances; relative ones become a relief of
+    // depthScale in front of the far plane, z = nearness * depthScale
+    const distance = metric
+      ? depth
+      : poseZ - nearness(depth, encoding) * depthScale;
+    unproject(pose, u * width, v * height, distance, point);
+    positions.setXYZ(i, point[0], point[1], point[2] + poseZ);
+  }
 
-      positions.setX(i, originalX * scale);
-      positions.setY(i, originalY * scale);
-    }
+  signal?.throwIfAborted();
+  const useConfidence = confidence !== undefined && confidenceThreshold > 0;
+  if (useConfidence && confidenceMode === "weight") {
+    relaxLowConfidence(
+      geometry,
+      vertexConfidence,
+      confidenceThreshold,
+      segsX + 1,
+    );
   }
 
   // Edge/Stretch Removal
+  signal?.throwIfAborted();
   if (stretchRemoval && geometry.index) {
-    removeStretchedFaces(geometry, stretchThreshold);
+    removeStretchedFaces(geometry, stretchThreshold, metric);
   }
 
-  // Edge Margin Culling — remove outer 3% of mesh faces
+  if (useConfidence && confidenceMode === "drop" && geometry.index) {
+    dropLowConfidenceFaces(geometry, vertexConfidence, confidenceThreshold);
+  }
+
+  // Edge Margin Culling — remove outer 3% (by default) of mesh faces
   // to eliminate noisy/distorted border regions from depth estimation
-  if (geometry.index) {
-    cullEdgeMargin(geometry, width, height, 0.03);
+  if (geometry.index && edgeMargin > 0) {
+    cullEdgeMargin(geometry, edgeMargin);
   }
 
   // Statistical Outlier Removal
-  if (outlierRemoval) {
+  if (outlierRemoval && metric) {
+    clampMetricOutliers(geometry);
+  } else if (outlierRemoval) {
     let mean = 0;
     let count = 0;
     // 1. Calculate Mean
@@ -115,45 +184,150 @@ export function generateDepthMesh({
     }
     const stdDev = Math.sqrt(variance / (count || 1));
 
-    // 3. Filter Outliers — clamp to threshold instead of zeroing
+    // 3. Filter Outliers — clamp to threshold instead of zeroing, sliding
+    // back along the pixel's ray
     const threshold = mean + 2.5 * stdDev;
 
     for (let i = 0; i < vertexCount; i++) {
       if (positions.getZ(i) > threshold) {
-        positions.setZ(i, threshold);
+        point[0] = positions.getX(i);
+        point[1] = positions.getY(i);
+        point[2] = positions.getZ(i);
+        slideAlongRay(pose, point, threshold);
+        positions.setXYZ(i, point[0], point[1], point[2]);
       }
     }
   }
 
   positions.needsUpdate = true;
 
+  signal?.throwIfAborted();
   if (enhancedNormals) {
     computeEnhancedNormals(geometry);
   } else {
     geometry.computeVertexNormals();
   }
 
-  // Vertex colors from depth for solid mode
+  // Vertex colors from depth for solid mode (near = high t)
+  let minZ = 0;
+  let rangeZ = depthScale;
+  if (metric) {
+    minZ = Infinity;
+    let maxZ = -Infinity;
+    for (let i = 0; i < vertexCount; i++) {
+      minZ = Math.min(minZ, positions.getZ(i));
+      maxZ = Math.max(maxZ, positions.getZ(i));
+    }
+    rangeZ = maxZ - minZ || 1;
+  }
+
   const colors = new Float32Array(vertexCount * 3);
   for (let i = 0; i < vertexCount; i++) {
     const z = positions.getZ(i);
-    const t = z / depthScale;
+    const t = (z - minZ) / rangeZ;
     colors[i * 3] = lerp(0.1, 0.0, t);
     colors[i * 3 + 1] = lerp(0.6, 0.9, t);
     colors[i * 3 + 2] = lerp(0.9, 0.3, t);
   }
   geometry.setAttribute("color", new Float32BufferAttribute(colors, 3));
+  geometry.setAttribute(
+    "confidence",
+    new Float32BufferAttribute(vertexConfidence, 1),
+  );
 
   return geometry;
 }
 
+/**
+ * Pulls vertices below the confidence threshold toward the
+ * confidence-weighted average of their 5×5 grid neighbourhood — the lower
+ * the confidence, the stronger the pull.
+ */
+function relaxLowConfidence(
+  geometry: PlaneGeometry,
+  confidence: Float32Array,
+  threshold: number,
+  columns: number,
+): void {
+  const positions = geometry.attributes.position;
+  const source = Float32Array.from(positions.array as Float32Array);
+  const rows = positions.count / columns;
+  const radius = 2;
+
+  for (let i = 0; i < positions.count; i++) {
+    const c = confidence[i];
+    if (c >= threshold) continue;
+
+    const row = Math.floor(i / columns);
+    const col = i % columns;
+    let x = 0;
+    let y = 0;
+    let z = 0;
+    let wSum = 0;
+
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const r = row + dy;
+        const k = col + dx;
+        if (r < 0 || r >= rows || k < 0 || k >= columns) continue;
+        const n = r * columns + k;
+        const w = confidence[n];
+        x += source[n * 3] * w;
+        y += source[n * 3 + 1] * w;
+        z += source[n * 3 + 2] * w;
+        wSum += w;
+      }
+    }
+    if (wSum <= 0) continue;
+
+    const t = 1 - c / threshold;
+    positions.setXYZ(
+      i,
+      source[i * 3] + (x / wSum - source[i * 3]) * t,
+      source[i * 3 + 1] + (y / wSum - source[i * 3 + 1]) * t,
+      source[i * 3 + 2] + (z / wSum - source[i * 3 + 2]) * t,
+    );
+  }
+}
+
+/**
+ * Removes triangles touching a vertex below the confidence threshold.
+ */
+function dropLowConfidenceFaces(
+  geometry: PlaneGeometry,
+  confidence: Float32Array,
+  threshold: number,
+): void {
+  const index = geometry.index;
+  if (!index) return;
+
+  const kept: number[] = [];
+  for (let i = 0; i < index.count; i += 3) {
+    const a = index.getX(i);
+    const b = index.getX(i + 1);
+    const c = index.getX(i + 2);
+
+    if (
+      confidence[a] >= threshold &&
+      confidence[b] >= threshold &&
+      confidence[c] >= threshold
+    ) {
+      kept.push(a, b, c);
+    }
+  }
+
+  geometry.setIndex(kept);
+}
+
 /**
  * Removes faces (triangles) that have edges longer than the threshold in the Z-axis.
  * This fixes the "curtain" effect where foreground connects to background.
+ * For metric meshes the threshold is relative to the triangle's distance.
  */
 function removeStretchedFaces(
   geometry: PlaneGeometry,
   threshold: number,
+  metric: boolean = false,
 ): void {
   const index = geometry.index;
   const positions = geometry.attributes.position;
@@ -175,7 +349,9 @@ function removeStretchedFaces(
     const d2 = Math.abs(z2 - z3);
     const d3 = Math.abs(z3 - z1);
 
-    if (d1 <= threshold && d2 <= threshold && d3 <= threshold) {
+    const limit = metric ? threshold * Math.max(-z1, -z2, -z3) : threshold;
+
+    if (d1 <= limit && d2 <= limit && d3 <= limit) {
       kept.push(a, b, c);
     }
   }
@@ -187,25 +363,22 @@ function removeStretchedFaces(
 /**
  * Culls triangles whose vertices fall within the outer margin of the mesh.
  * Depth estimation at image borders is unreliable and creates artifacts.
+ * Uses the UV attribute, which stays put when vertices are displaced.
  */
 function cullEdgeMargin(
   geometry: PlaneGeometry,
-  imageWidth: number,
-  imageHeight: number,
   marginPercent: number = 0.03,
 ): void {
   const index = geometry.index;
-  const positions = geometry.attributes.position;
+  const uvs = geometry.attributes.uv;
   if (!index) return;
 
-  const planeWidth = geometry.parameters.width;
-  const planeHeight = geometry.parameters.height;
   const marginU = marginPercent;
   const marginV = marginPercent;
 
   const isInMargin = (vertexIndex: number): boolean => {
-    const u = positions.getX(vertexIndex) / planeWidth + 0.5;
-    const v = 1.0 - (positions.getY(vertexIndex) / planeHeight + 0.5);
+    const u = uvs.getX(vertexIndex);
+    const v = uvs.getY(vertexIndex);
     return u < marginU || u > 1 - marginU || v < marginV || v > 1 - marginV;
   };
 
@@ -224,13 +397,50 @@ function cullEdgeMargin(
   geometry.setIndex(kept);
 }
 
+/**
+ * Metric counterpart of the outlier clamp: distances beyond mean + 2.5σ are
+ * pulled back along their camera ray so X/Y stay consistent with Z.
+ */
+function clampMetricOutliers(geometry: PlaneGeometry): void {
+  const positions = geometry.attributes.position;
+  const count = positions.count;
+
+  let mean = 0;
+  for (let i = 0; i < count; i++) mean -= positions.getZ(i);
+  mean /= count || 1;
+
+  let variance = 0;
+  for (let i = 0; i < count; i++) {
+    variance += Math.pow(-positions.getZ(i) - mean, 2);
+  }
+  const threshold = mean + 2.5 * Math.sqrt(variance / (count || 1));
+
+  for (let i = 0; i < count; i++) {
+    const distance = -positions.getZ(i);
+    if (distance > threshold) {
+      const k = threshold / distance;
+      positions.setXYZ(
+        i,
+        positions.getX(i) * k,
+        positions.getY(i) * k,
+        positions.getZ(i) * k,
+      );
+    }
+  }
+}
+
 /**
  * Taubin mesh smoothing — alternates lambda (smooth) and mu (inflate) passes.
  * Unlike pure Laplacian, this prevents mesh shrinkage while still removing noise.
+ * Only depth is smoothed: with the `camera` the mesh was back-projected
+ * through, every vertex slides along its pixel's ray, so X/Y scale stays
+ * consistent with the new depth; without one, X/Y stay put.
  */
 export function smoothMesh(
   geometry: PlaneGeometry,
   iterations: number = 3,
+  signal?: AbortSignal,
+  camera?: CameraPose,
 ): PlaneGeometry {
   const positions = geometry.attributes.position;
   const count = positions.count;
@@ -256,11 +466,29 @@ export function smoothMesh(
     }
   }
 
-  // Taubin smoothing (only Z axis — keep XY for texture coords)
+  // Moves every vertex to its new depth, along its ray when there is a camera
+  const point: [number, number, number] = [0, 0, 0];
+  const setDepths = (depths: Float32Array) => {
+    for (let i = 0; i < count; i++) {
+      if (!camera) {
+        positions.setZ(i, depths[i]);
+        continue;
+      }
+      point[0] = positions.getX(i);
+      point[1] = positions.getY(i);
+      point[2] = positions.getZ(i);
+      slideAlongRay(camera, point, depths[i]);
+      positions.setXYZ(i, point[0], point[1], point[2]);
+    }
+  };
+
+  // Taubin smoothing (only depth — the UVs keep their pixels)
   // lambda > 0 smooths, mu < 0 and |mu| > lambda prevents shrinkage
   const lambda = 0.5;
   const mu = -0.53; // Must satisfy |mu| > lambda
   for (let iter = 0; iter < iterations; iter++) {
+    signal?.throwIfAborted();
+
     // Lambda pass (smooth)
     const afterLambda = new Float32Array(count);
     for (let i = 0; i < count; i++) {
@@ -276,9 +504,7 @@ export function smoothMesh(
       avgZ /= nbrs.size;
       afterLambda[i] = positions.getZ(i) + lambda * (avgZ - positions.getZ(i));
     }
-    for (let i = 0; i < count; i++) {
-      positions.setZ(i, afterLambda[i]);
-    }
+    setDepths(afterLambda);
 
     // Mu pass (un-shrink)
     const afterMu = new Float32Array(count);
@@ -295,9 +521,7 @@ export function smoothMesh(
       avgZ /= nbrs.size;
       afterMu[i] = positions.getZ(i) + mu * (avgZ - positions.getZ(i));
     }
-    for (let i = 0; i < count; i++) {
-      positions.setZ(i, afterMu[i]);
-    }
+    setDepths(afterMu);
   }
 
   positions.needsUpdate = true;
@@ -369,6 +593,114 @@ function computeEnhancedNormals(geometry: PlaneGeometry): void {
   geometry.setAttribute("normal", new Float32BufferAttribute(normals, 3));
 }
 
+/** Per-photo geometry settings, everything but the depth data itself */
+export type PhotoMeshOptions = Omit<
+  MeshOptions,
+  | "depthMap"
+  | "width"
+  | "height"
+  | "encoding"
+  | "confidence"
+  | "camera"
+  | "signal"
+> & {
+  /** Taubin smoothing passes; 0 disables */
+  smoothingIterations: number;
+  /** Triangles the mesh is simplified down to; 0 keeps the full grid */
+  triangleBudget?: number;
+  /** Also build the coarser levels of detail (`ProcessedMesh.lods`) */
+  levelsOfDetail?: boolean;
+};
+
+// Gain of the normal map baked from each photo's depth
+const NORMAL_MAP_STRENGTH = 1.5;
+
+/**
+ * Runs every per-photo geometry stage — mesh build (with confidence and
+ * stretch handling), smoothing, simplification to the triangle budget, the
+ * levels of detail and the normal map. Needs no DOM, so the
+ * ProcessingWorker runs it as well as the main-thread fallback. Yields
+ * between stages so an abort lands without waiting for the whole build.
+ * Reports how long smoothing took, for the run's timing report, and the
+ * camera the mesh was back-projected through.
+ */
+export async function buildPhotoMesh(
+  depthMap: Float32Array,
+  width: number,
+  height: number,
+  encoding: DepthEncoding,
+  confidence: Float32Array | undefined,
+  {
+    smoothingIterations,
+    triangleBudget = 0,
+    levelsOfDetail = false,
+    ...options
+  }: PhotoMeshOptions,
+  signal?: AbortSignal,
+): Promise<{
+  geometry: PlaneGeometry;
+  normalData: Float32Array;
+  smoothingMs: number;
+  camera: CameraPose;
+  lods: Uint32Array[];
+}> {
+  await checkpoint(signal);
+  const camera = createCameraPose({
+    ...options,
+    width,
+    height,
+    encoding,
+    depthScale: options.depthScale ?? DEFAULT_DEPTH_SCALE,
+  });
+  let geometry = generateDepthMesh({
+    ...options,
+    depthMap,
+    width,
+    height,
+    encoding,
+    confidence,
+    camera,
+    signal,
+  });
+  let smoothingMs = 0;
+  if (smoothingIterations > 0) {
+    await checkpoint(signal);
+    const smoothingStart = performance.now();
+    geometry = smoothMesh(geometry, smoothingIterations, signal, camera);
+    smoothingMs = performance.now() - smoothingStart;
+  }
+
+  // After smoothing, which relies on the dense grid's neighbourhoods
+  if (triangleBudget > 0) {
+    await checkpoint(signal);
+    const stats = simplifyMesh(geometry, {
+      targetTriangles: triangleBudget,
+      signal,
+    });
+    if (!stats.withinBudget) {
+      console.warn(
+        `[MeshGenerator] Triangle budget missed: ${stats.trianglesAfter} of ${triangleBudget} triangles left`,
+      );
+    }
+  }
+
+  let lods: Uint32Array[] = [];
+  if (levelsOfDetail) {
+    await checkpoint(signal);
+    lods = createLodChain(geometry, signal);
+  }
+
+  await checkpoint(signal);
+  const normalData = generateNormalMapFromDepth(
+    depthMap,
+    width,
+    height,
+    NORMAL_MAP_STRENGTH,
+    encoding,
+  );
+  return { geometry, normalData, smoothingMs, camera, lods };
+}
+
 /**
  * Generates a normal map from a depth map using Sobel operators (3×3).
  * Returns RGBA Float32Array (width × height × 4).
@@ -378,8 +710,11 @@ export function generateNormalMapFromDepth(
   width: number,
   height: number,
   strength: number = 1.0,
+  encoding: DepthEncoding = "disparity",
 ): Float32Array {
   const output = new Float32Array(width * height * 4);
+  // Gradients are taken on nearness — depth-like encodings grow away from us
+  const sign = encoding === "disparity" ? 1 : -1;
 
   // Scharr kernels — more rotationally symmetric than Sobel
   const sobelX = [-3, 0, 3, -10, 0, 10, -3, 0, 3];
@@ -394,7 +729,7 @@ export function generateNormalMapFromDepth(
         for (let kx = -1; kx <= 1; kx++) {
           const sx = Math.min(Math.max(x + kx, 0), width - 1);
           const sy = Math.min(Math.max(y + ky, 0), height - 1);
-          const sample = depthMap[sy * width + sx];
+          const sample = sign * depthMap[sy * width + sx];
           const ki = (ky + 1) * 3 + (kx + 1);
           dzdx += sample * sobelX[ki];
           dzdy += sample * sobelY[ki];
@@ -440,31 +775,50 @@ export function createNormalTexture(
   return texture;
 }
 
+/**
+ * Rebuilds a relative mesh's relief for a new depth scale, re-projecting
+ * every vertex through its (unaligned) camera. The camera moves with the
+ * scale, so the updated pose is returned.
+ */
 export function updateDepthScale(
   geometry: PlaneGeometry,
   depthMap: Float32Array,
   width: number,
   height: number,
   depthScale: number,
-): void {
+  camera: CameraPose,
+  encoding: DepthEncoding = "disparity",
+): CameraPose {
   const positions = geometry.attributes.position;
-  const planeWidth = geometry.parameters.width;
-  const planeHeight = geometry.parameters.height;
+  const uvs = geometry.attributes.uv;
+  const pose = rescaleCameraPose(camera, depthScale);
+  const poseZ = cameraZ(pose);
+  const point: [number, number, number] = [0, 0, 0];
 
   for (let i = 0; i < positions.count; i++) {
-    const u = positions.getX(i) / planeWidth + 0.5;
-    const v = 1.0 - (positions.getY(i) / planeHeight + 0.5);
+    const u = uvs.getX(i);
+    const v = 1.0 - uvs.getY(i);
 
     const px = Math.floor(u * (width - 1));
     const py = Math.floor(v * (height - 1));
     const idx = py * width + px;
 
     const depth = depthMap[idx] ?? 0;
-    positions.setZ(i, depth * depthScale);
+    const distance = poseZ - nearness(depth, encoding) * depthScale;
+    unproject(pose, u * width, v * height, distance, point);
+    positions.setXYZ(i, point[0], point[1], point[2] + poseZ);
   }
 
   positions.needsUpdate = true;
   geometry.computeVertexNormals();
+  return pose;
+}
+
+/**
+ * Relief height in [0, 1] (1 = nearest) for a normalized relative value.
+ */
+function nearness(value: number, encoding: DepthEncoding): number {
+  return encoding === "depth" ? 1 - value : value;
 }
 
 function lerp(a: number, b: number, t: number): number {
@@ -0,0 +1,642 @@
+/**
+ * MeshSimplifier.ts
+ *
+ * Quadric-error mesh simplification (Garland & Heckbert) for depth meshes.
+ * The uniform depth grid spends as many triangles on a flat wall as on a
+ * face; collapsing edges in order of the error they add leaves triangles
+ * only where the surface actually bends.
+ *
+ * Collapses are half-edge collapses — a vertex merges into one of its
+ * neighbours, which keeps its position and attributes — so UVs, colours,
+ * confidence and the full-resolution normals stay exactly those of the
+ * grid and nothing has to be interpolated. Vertices on open boundaries
+ * (the silhouettes left by stretch removal, confidence dropping and edge
+ * culling) only merge along the outline, and extra quadric planes standing
+ * on each boundary edge keep outlines as sharp as on the dense mesh.
+ *
+ * The same collapses build each mesh's chain of coarser levels of detail.
+ */
+
+import { BufferAttribute, BufferGeometry } from "three";
+
+// ---------- Types ----------
+
+export interface SimplifyOptions {
+  /** Triangles to stop at; meshes already within budget are left alone */
+  targetTriangles: number;
+  /** Checked every few thousand collapses */
+  signal?: AbortSignal;
+}
+
+export interface SimplifyStats {
+  trianglesBefore: number;
+  trianglesAfter: number;
+  /**
+   * False when collapses ran out above `targetTriangles` — e.g. on meshes
+   * mostly made of outline, where every further collapse would fold or tear
+   */
+  withinBudget: boolean;
+}
+
+// Collapses between abort checks
+const ABORT_INTERVAL = 4096;
+
+// Faces around a collapse may not turn further than this (cos of ~70°)
+const MIN_NORMAL_DOT = 0.35;
+
+// Weight of the planes standing on boundary edges, relative to face planes
+const BOUNDARY_WEIGHT = 100;
+
+// Other merge targets tried when a vertex's cheapest collapse is rejected
+const FALLBACK_TARGETS = 2;
+
+// ---------- Quadrics ----------
+
+// Symmetric 4×4 quadric as 10 floats: a², ab, ac, ad, b², bc, bd, c², cd, d²
+const Q = 10;
+
+function addPlaneQuadric(
+  quadrics: Float64Array,
+  v: number,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  weight: number,
+): void {
+  const o = v * Q;
+  quadrics[o] += weight * a * a;
+  quadrics[o + 1] += weight * a * b;
+  quadrics[o + 2] += weight * a * c;
+  quadrics[o + 3] += weight * a * d;
+  quadrics[o + 4] += weight * b * b;
+  quadrics[o + 5] += weight * b * c;
+  quadrics[o + 6] += weight * b * d;
+  quadrics[o + 7] += weight * c * c;
+  quadrics[o + 8] += weight * c * d;
+  quadrics[o + 9] += weight * d * d;
+}
+
+/** Error of (q1 + q2) at point (x, y, z) */
+function quadricError(
+  quadrics: Float64Array,
+  v1: number,
+  v2: number,
+  x: number,
+  y: number,
+  z: number,
+): number {
+  const a = v1 * Q;
+  const b = v2 * Q;
+  const error =
+    (quadrics[a] + quadrics[b]) * x * x +
+    2 * (quadrics[a + 1] + quadrics[b + 1]) * x * y +
+    2 * (quadrics[a + 2] + quadrics[b + 2]) * x * z +
+    2 * (quadrics[a + 3] + quadrics[b + 3]) * x +
+    (quadrics[a + 4] + quadrics[b + 4]) * y * y +
+    2 * (quadrics[a + 5] + quadrics[b + 5]) * y * z +
+    2 * (quadrics[a + 6] + quadrics[b + 6]) * y +
+    (quadrics[a + 7] + quadrics[b + 7]) * z * z +
+    2 * (quadrics[a + 8] + quadrics[b + 8]) * z +
+    (quadrics[a + 9] + quadrics[b + 9]);
+  return Math.max(0, error);
+}
+
+// ---------- Heap ----------
+
+/** Min-heap of vertices keyed by their cheapest collapse, with updates */
+function createVertexHeap(size: number) {
+  const heap = new Int32Array(size);
+  const slot = new Int32Array(size).fill(-1);
+  const key = new Float64Array(size);
+  let length = 0;
+
+  const swap = (i: number, j: number) => {
+    const a = heap[i];
+    const b = heap[j];
+    heap[i] = b;
+    heap[j] = a;
+    slot[b] = i;
+    slot[a] = j;
+  };
+
+  const up = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (key[heap[parent]] <= key[heap[i]]) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const down = (i: number) => {
+    for (;;) {
+      const l = i * 2 + 1;
+      const r = l + 1;
+      let min = i;
+      if (l < length && key[heap[l]] < key[heap[min]]) min = l;
+      if (r < length && key[heap[r]] < key[heap[min]]) min = r;
+      if (min === i) break;
+      swap(i, min);
+      i = min;
+    }
+  };
+
+  const remove = (v: number) => {
+    const i = slot[v];
+    if (i < 0) return;
+    length--;
+    if (i !== length) {
+      swap(i, length);
+      up(i);
+      down(i);
+    }
+    slot[v] = -1;
+  };
+
+  return {
+    get size() {
+      return length;
+    },
+    /** Inserts, moves or (for Infinity) removes a vertex */
+    set(v: number, cost: number) {
+      if (!Number.isFinite(cost)) {
+        remove(v);
+        return;
+      }
+      key[v] = cost;
+      let i = slot[v];
+      if (i < 0) {
+        i = length++;
+        heap[i] = v;
+        slot[v] = i;
+      }
+      up(i);
+      down(slot[v]);
+    },
+    pop(): number {
+      const v = heap[0];
+      remove(v);
+      return v;
+    },
+  };
+}
+
+// ---------- Simplification ----------
+
+/**
+ * Simplifies the geometry in place towards `targetTriangles` triangles:
+ * vertices that end up unused are dropped and every attribute is compacted
+ * to match. The stats tell whether the budget was actually reached.
+ */
+export function simplifyMesh(
+  geometry: BufferGeometry,
+  options: SimplifyOptions,
+): SimplifyStats {
+  const trianglesBefore = geometry.index ? geometry.index.count / 3 : 0;
+  const index = simplifyIndex(geometry, options);
+  if (!index) {
+    return {
+      trianglesBefore,
+      trianglesAfter: trianglesBefore,
+      withinBudget: trianglesBefore <= options.targetTriangles,
+    };
+  }
+
+  compact(geometry, index);
+  const trianglesAfter = index.length / 3;
+  return {
+    trianglesBefore,
+    trianglesAfter,
+    withinBudget: trianglesAfter <= options.targetTriangles,
+  };
+}
+
+/**
+ * Collapses edges in order of quadric error until at most `targetTriangles`
+ * triangles are left, or no collapse is left that keeps the mesh manifold
+ * and unfolded. Leaves the geometry untouched and returns the surviving
+ * triangles over its vertices, or null when it is already within budget.
+ */
+export function simplifyIndex(
+  geometry: BufferGeometry,
+  { targetTriangles, signal }: SimplifyOptions,
+): Uint32Array | null {
+  const index = geometry.index;
+  const position = geometry.attributes.position;
+  if (!index) return null;
+
+  const faceCount = index.count / 3;
+  if (faceCount <= targetTriangles) return null;
+
+  const vertexCount = position.count;
+  const positions = position.array as Float32Array;
+  const faces = Uint32Array.from(index.array as ArrayLike<number>);
+  const faceAlive = new Uint8Array(faceCount).fill(1);
+  let aliveFaces = faceCount;
+
+  // Corners (face * 3 + k) around each vertex as singly linked lists
+  const head = new Int32Array(vertexCount).fill(-1);
+  const next = new Int32Array(faces.length);
+  for (let c = faces.length - 1; c >= 0; c--) {
+    next[c] = head[faces[c]];
+    head[faces[c]] = c;
+  }
+
+  // Area-weighted plane quadrics of the faces around each vertex
+  const quadrics = new Float64Array(vertexCount * Q);
+  for (let f = 0; f < faceCount; f++) {
+    const a = faces[f * 3] * 3;
+    const b = faces[f * 3 + 1] * 3;
+    const c = faces[f * 3 + 2] * 3;
+    const e1x = positions[b] - positions[a];
+    const e1y = positions[b + 1] - positions[a + 1];
+    const e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[c] - positions[a];
+    const e2y = positions[c + 1] - positions[a + 1];
+    const e2z = positions[c + 2] - positions[a + 2];
+    let nx = e1y * e2z - e1z * e2y;
+    let ny = e1z * e2x - e1x * e2z;
+    let nz = e1x * e2y - e1y * e2x;
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length === 0) continue;
+    nx /= length;
+    ny /= length;
+    nz /= length;
+    const d = -(
+      nx * positions[a] +
+      ny * positions[a + 1] +
+      nz * positions[a + 2]
+    );
+    for (let k = 0; k < 3; k++) {
+      addPlaneQuadric(quadrics, faces[f * 3 + k], nx, ny, nz, d, length / 2);
+    }
+  }
+
+  // Reused scratch: live corners, neighbours and a visit stamp per vertex.
+  // `sharedFaces` counts the faces each neighbour shares with the vertex,
+  // valid until the next neighboursOf call; 1 means an open edge
+  const stamp = new Int32Array(vertexCount);
+  const sharedFaces = new Int32Array(vertexCount);
+  let stampId = 0;
+  const cornersOf = (v: number, out: number[]) => {
+    out.length = 0;
+    let prev = -1;
+    for (let c = head[v]; c !== -1; c = next[c]) {
+      if (faceAlive[(c / 3) | 0] && faces[c] === v) {
+        out.push(c);
+        prev = c;
+      } else if (prev === -1) {
+        head[v] = next[c];
+      } else {
+        next[prev] = next[c];
+      }
+    }
+    return out;
+  };
+  const neighboursOf = (corners: number[], out: number[]) => {
+    out.length = 0;
+    stampId++;
+    for (const c of corners) {
+      const base = c - (c % 3);
+      for (let k = 0; k < 3; k++) {
+        const w = faces[base + k];
+        if (base + k === c) continue;
+        if (stamp[w] === stampId) {
+          sharedFaces[w]++;
+          continue;
+        }
+        stamp[w] = stampId;
+        sharedFaces[w] = 1;
+        out.push(w);
+      }
+    }
+    return out;
+  };
+
+  // A vertex on a single open boundary has one more neighbour than faces
+  // and two open edges; anything else but a closed fan is non-manifold and
+  // never moves. Each open edge also gets a plane standing on it, so
+  // sliding an outline vertex costs as much as the outline bends there.
+  const removed = new Uint8Array(vertexCount);
+  const boundary = new Uint8Array(vertexCount);
+  const locked = new Uint8Array(vertexCount);
+  const corners: number[] = [];
+  const neighbours: number[] = [];
+  for (let v = 0; v < vertexCount; v++) {
+    cornersOf(v, corners);
+    if (corners.length === 0) {
+      removed[v] = 1;
+      continue;
+    }
+    neighboursOf(corners, neighbours);
+    let open = 0;
+    for (const w of neighbours) if (sharedFaces[w] === 1) open++;
+    if (open === 2 && neighbours.length === corners.length + 1) {
+      boundary[v] = 1;
+    } else if (open > 0 || neighbours.length !== corners.length) {
+      locked[v] = 1;
+    }
+
+    // Open edges leaving v in face winding order, each found exactly once
+    for (const c of corners) {
+      const base = c - (c % 3);
+      const w = faces[base + ((c - base + 1) % 3)];
+      if (sharedFaces[w] !== 1) continue;
+      const n = faceNormal(
+        positions,
+        faces[base],
+        faces[base + 1],
+        faces[base + 2],
+        -1,
+        0,
+      );
+      const ex = positions[w * 3] - positions[v * 3];
+      const ey = positions[w * 3 + 1] - positions[v * 3 + 1];
+      const ez = positions[w * 3 + 2] - positions[v * 3 + 2];
+      let px = ey * n[2] - ez * n[1];
+      let py = ez * n[0] - ex * n[2];
+      let pz = ex * n[1] - ey * n[0];
+      const length = Math.sqrt(px * px + py * py + pz * pz);
+      if (length === 0) continue;
+      px /= length;
+      py /= length;
+      pz /= length;
+      const d = -(
+        px * positions[v * 3] +
+        py * positions[v * 3 + 1] +
+        pz * positions[v * 3 + 2]
+      );
+      const weight = BOUNDARY_WEIGHT * (ex * ex + ey * ey + ez * ez);
+      addPlaneQuadric(quadrics, v, px, py, pz, d, weight);
+      addPlaneQuadric(quadrics, w, px, py, pz, d, weight);
+    }
+  }
+
+  const collapseCost = (u: number, w: number) => {
+    const o = w * 3;
+    return quadricError(
+      quadrics,
+      u,
+      w,
+      positions[o],
+      positions[o + 1],
+      positions[o + 2],
+    );
+  };
+
+  // Every free vertex is keyed by its cheapest neighbour to merge into;
+  // outline vertices only merge along the outline
+  const heap = createVertexHeap(vertexCount);
+  const target = new Int32Array(vertexCount).fill(-1);
+  const dirty = new Uint8Array(vertexCount);
+  const evaluate = (u: number) => {
+    if (removed[u] || locked[u]) return;
+    neighboursOf(cornersOf(u, corners), neighbours);
+    let best = Infinity;
+    for (const w of neighbours) {
+      if (boundary[u] && sharedFaces[w] !== 1) continue;
+      const cost = collapseCost(u, w);
+      if (cost < best) {
+        best = cost;
+        target[u] = w;
+      }
+    }
+    heap.set(u, best);
+  };
+  for (let v = 0; v < vertexCount; v++) evaluate(v);
+
+  const uCorners: number[] = [];
+  const vCorners: number[] = [];
+  const uNeighbours: number[] = [];
+  const vNeighbours: number[] = [];
+
+  /** Whether merging u into v keeps the mesh manifold and unfolded */
+  const canCollapse = (u: number, v: number): boolean => {
+    // An outline vertex with a single face would take the face with it
+    if (boundary[u] && uCorners.length < 2) return false;
+
+    // Link condition: u and v may only share the vertices opposite their
+    // shared faces, otherwise the collapse pinches the surface
+    let shared = 0;
+    for (const c of uCorners) {
+      const base = c - (c % 3);
+      if (faces[base] === v || faces[base + 1] === v || faces[base + 2] === v) {
+        shared++;
+      }
+    }
+    if (shared === 0) return false;
+    neighboursOf(vCorners, vNeighbours);
+    neighboursOf(uCorners, uNeighbours);
+    // The stamp now marks u's neighbours
+    let common = 0;
+    for (const w of vNeighbours) {
+      if (w !== u && stamp[w] === stampId) common++;
+    }
+    if (common !== shared) return false;
+
+    // No face around u may flip or collapse when u moves onto v
+    const vo = v * 3;
+    for (const c of uCorners) {
+      const base = c - (c % 3);
+      const a = faces[base];
+      const b = faces[base + 1];
+      const d = faces[base + 2];
+      if (a === v || b === v || d === v) continue;
+      const before = faceNormal(positions, a, b, d, -1, 0);
+      const after = faceNormal(positions, a, b, d, u, vo);
+      const dot =
+        before[0] * after[0] + before[1] * after[1] + before[2] * after[2];
+      const lengths =
+        Math.hypot(before[0], before[1], before[2]) *
+        Math.hypot(after[0], after[1], after[2]);
+      if (lengths === 0 || dot < MIN_NORMAL_DOT * lengths) return false;
+    }
+    return true;
+  };
+
+  /**
+   * After u's collapse into its target was rejected, re-keys u by the
+   * cheapest of its next few targets that canCollapse accepts. With none,
+   * u is parked until a collapse next to it changes its fan, instead of
+   * leaving the heap for good.
+   */
+  const parked = new Uint8Array(vertexCount);
+  const rekey = (u: number) => {
+    neighboursOf(uCorners, neighbours);
+    const candidates = neighbours
+      .filter((w) => w !== target[u] && (!boundary[u] || sharedFaces[w] === 1))
+      .map((w) => ({ w, cost: collapseCost(u, w) }))
+      .sort((a, b) => a.cost - b.cost)
+      .slice(0, FALLBACK_TARGETS);
+    for (const { w, cost } of candidates) {
+      cornersOf(w, vCorners);
+      if (!canCollapse(u, w)) continue;
+      target[u] = w;
+      heap.set(u, cost);
+      return;
+    }
+    parked[u] = 1;
+  };
+
+  let collapses = 0;
+  while (aliveFaces > targetTriangles && heap.size > 0) {
+    if (++collapses % ABORT_INTERVAL === 0) signal?.throwIfAborted();
+
+    const u = heap.pop();
+    if (dirty[u]) {
+      // Its neighbourhood changed since it was keyed: re-key, try later
+      dirty[u] = 0;
+      evaluate(u);
+      continue;
+    }
+    const v = target[u];
+    cornersOf(u, uCorners);
+    cornersOf(v, vCorners);
+    if (!canCollapse(u, v)) {
+      rekey(u);
+      continue;
+    }
+
+    // Faces spanning the edge disappear; the rest of u's fan moves to v
+    for (const c of uCorners) {
+      const f = (c / 3) | 0;
+      const base = f * 3;
+      if (faces[base] === v || faces[base + 1] === v || faces[base + 2] === v) {
+        faceAlive[f] = 0;
+        aliveFaces--;
+      } else {
+        faces[c] = v;
+        next[c] = head[v];
+        head[v] = c;
+      }
+    }
+    head[u] = -1;
+    removed[u] = 1;
+    for (let k = 0; k < Q; k++) quadrics[v * Q + k] += quadrics[u * Q + k];
+
+    // v's quadric and fan changed; its neighbours are re-keyed lazily,
+    // when they come up, and parked ones go back into the heap
+    parked[v] = 0;
+    evaluate(v);
+    neighboursOf(cornersOf(v, vCorners), vNeighbours);
+    for (const w of vNeighbours) {
+      if (parked[w]) {
+        parked[w] = 0;
+        evaluate(w);
+      } else {
+        dirty[w] = 1;
+      }
+    }
+  }
+
+  const kept = new Uint32Array(aliveFaces * 3);
+  let k = 0;
+  for (let f = 0; f < faceCount; f++) {
+    if (!faceAlive[f]) continue;
+    kept[k++] = faces[f * 3];
+    kept[k++] = faces[f * 3 + 1];
+    kept[k++] = faces[f * 3 + 2];
+  }
+  return kept;
+}
+
+/**
+ * Unnormalized normal of triangle (a, b, c); `moved` is drawn at the
+ * position starting at `movedTo` instead of its own.
+ */
+function faceNormal(
+  positions: Float32Array,
+  a: number,
+  b: number,
+  c: number,
+  moved: number,
+  movedTo: number,
+): number[] {
+  const at = (v: number) => (v === moved ? movedTo : v * 3);
+  const pa = at(a);
+  const pb = at(b);
+  const pc = at(c);
+  const e1x = positions[pb] - positions[pa];
+  const e1y = positions[pb + 1] - positions[pa + 1];
+  const e1z = positions[pb + 2] - positions[pa + 2];
+  const e2x = positions[pc] - positions[pa];
+  const e2y = positions[pc + 1] - positions[pa + 1];
+  const e2z = positions[pc + 2] - positions[pa + 2];
+  return [e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x];
+}
+
+// ---------- Levels of detail ----------
+
+// Each level keeps this share of the previous level's triangles
+const LOD_REDUCTION = 0.25;
+
+// Levels below the full mesh, and the smallest one worth switching to
+const MAX_LOD_LEVELS = 3;
+const MIN_LOD_TRIANGLES = 1000;
+
+/**
+ * Index buffers of up to three coarser levels of detail, each simplified
+ * from the one before to a quarter of its triangles. They index the
+ * geometry's own vertices, so a level is just another index over the same
+ * buffers. Stops early once a level no longer gets meaningfully smaller,
+ * e.g. when boundary vertices make up most of what is left.
+ */
+export function createLodChain(
+  geometry: BufferGeometry,
+  signal?: AbortSignal,
+): Uint32Array[] {
+  const levels: Uint32Array[] = [];
+  if (!geometry.index) return levels;
+
+  const level = new BufferGeometry();
+  level.setAttribute("position", geometry.attributes.position);
+  let index: Uint32Array = Uint32Array.from(
+    geometry.index.array as ArrayLike<number>,
+  );
+  while (levels.length < MAX_LOD_LEVELS) {
+    const triangles = index.length / 3;
+    const targetTriangles = Math.floor(triangles * LOD_REDUCTION);
+    if (targetTriangles < MIN_LOD_TRIANGLES) break;
+
+    level.setIndex(new BufferAttribute(index, 1));
+    const next = simplifyIndex(level, { targetTriangles, signal });
+    if (!next || next.length / 3 > triangles * 0.75) break;
+    levels.push(next);
+    index = next;
+  }
+  return levels;
+}
+
+/**
+ * Rewrites the geometry to the given triangles and only the vertices they
+ * use, carrying every attribute along.
+ */
+function compact(geometry: BufferGeometry, faces: Uint32Array): void {
+  const vertexCount = geometry.attributes.position.count;
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const order: number[] = [];
+  const index = new Uint32Array(faces.length);
+  for (let i = 0; i < faces.length; i++) {
+    const v = faces[i];
+    if (remap[v] < 0) {
+      remap[v] = order.length;
+      order.push(v);
+    }
+    index[i] = remap[v];
+  }
+
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    const { itemSize } = attribute;
+    const source = attribute.array as Float32Array;
+    const array = new Float32Array(order.length * itemSize);
+    for (let n = 0; n < order.length; n++) {
+      for (let k = 0; k < itemSize; k++) {
+        array[n * itemSize + k] = source[order[n] * itemSize + k];
+      }
+    }
+    geometry.setAttribute(name, new BufferAttribute(array, itemSize));
+  }
+  geometry.setIndex(new BufferAttribute(index, 1));
+  geometry.computeBoundingSphere();
+}
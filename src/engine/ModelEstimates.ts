@@ -0,0 +1,117 @@
+/**
+ * ModelEstimates.ts
+ *
+ * Rough download size, memory and speed figures for each Depth Anything V2
+ * checkpoint × weight precision × inference device, so the model picker can
+ * warn before a combination is too heavy for the machine. Figures come from
+ * the onnx-community exports and typical laptop measurements at the model's
+ * native 518 px input; they are estimates, not guarantees.
+ */
+
+import type { ModelDtype, ModelSize } from "../types";
+import type { InferenceDevice } from "./DepthBackend";
+import { TTA_VIEWS } from "./TestTimeAugmentation";
+
+/** Parameter counts of the ViT-S / ViT-B / ViT-L checkpoints, in millions */
+const MODEL_PARAMS_M: Record<ModelSize, number> = {
+  small: 24.8,
+  base: 97.5,
+  large: 335.3,
+};
+
+/**
+ * Bytes per parameter of each ONNX export. q4 only packs the MatMul weights,
+ * so it lands above the nominal half byte.
+ */
+const BYTES_PER_PARAM: Record<ModelDtype, number> = {
+  fp32: 4,
+  fp16: 2,
+  q8: 1.1,
+  q4: 0.75,
+};
+
+/** Peak activation memory of one fp32 pass (attention + DPT head), in MB */
+const ACTIVATION_MB: Record<ModelSize, number> = {
+  small: 250,
+  base: 350,
+  large: 550,
+};
+
+/** ONNX Runtime keeps a working copy next to the loaded weights */
+const WEIGHT_RAM_OVERHEAD = 1.3;
+
+/** Seconds per fp32 pass at 518 px */
+const BASE_SECONDS: Record<"webgpu" | "wasm", Record<ModelSize, number>> = {
+  webgpu: { small: 0.12, base: 0.35, large: 1.1 },
+  wasm: { small: 1.2, base: 4, large: 13 },
+};
+
+/**
+ * Speed multiplier per dtype. WASM has no native fp16 kernels, so fp16 is
+ * upcast and slower there, while int8 kernels are fast; WebGPU is the
+ * other way round.
+ */
+const DTYPE_SPEED: Record<"webgpu" | "wasm", Record<ModelDtype, number>> = {
+  webgpu: { fp32: 1, fp16: 0.6, q8: 1.3, q4: 0.85 },
+  wasm: { fp32: 1, fp16: 1.4, q8: 0.55, q4: 0.75 },
+};
+
+export interface ModelCostEstimate {
+  /** ONNX weights plus config files */
+  downloadBytes: number;
+  /** Peak working set of the inference session */
+  ramBytes: number;
+  /** Wall time per photo for the given number of passes */
+  secondsPerPhoto: number;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Estimates the cost of running a checkpoint at a given precision on a
+ * device. `passes` multiplies the per-photo time for tiled or TTA runs.
+ */
+export function estimateModelCost(
+  modelSize: ModelSize,
+  dtype: ModelDtype,
+  device: InferenceDevice,
+  passes: number = 1,
+): ModelCostEstimate {
+  const weightBytes = MODEL_PARAMS_M[modelSize] * 1e6 * BYTES_PER_PARAM[dtype];
+  const runtime = device === "webgpu" ? "webgpu" : "wasm";
+
+  // Half-precision activations only stay half-size on the GPU
+  const activationScale = runtime === "webgpu" && dtype === "fp16" ? 0.5 : 1;
+
+  return {
+    downloadBytes: weightBytes,
+    ramBytes:
+      weightBytes * WEIGHT_RAM_OVERHEAD +
+      ACTIVATION_MB[modelSize] * activationScale * MB,
+    secondsPerPhoto:
+      BASE_SECONDS[runtime][modelSize] *
+      DTYPE_SPEED[runtime][dtype] *
+      Math.max(1, passes),
+  };
+}
+
+/**
+ * Inference passes per photo for the given tiling and TTA settings: one
+ * global pass plus one per tile, repeated for every TTA view.
+ */
+export function inferencePasses(tileGrid: number, enableTTA: boolean): number {
+  const tiles = tileGrid > 1 ? tileGrid * tileGrid + 1 : 1;
+  return tiles * (enableTTA ? TTA_VIEWS.length : 1);
+}
+
+/**
+ * Whether a combination is likely to exhaust memory or take minutes per
+ * photo on this device.
+ */
+export function isHeavyCombination(
+  estimate: ModelCostEstimate,
+  deviceMemoryGB?: number,
+): boolean {
+  const budget = (deviceMemoryGB ?? 8) * 1024 * MB * 0.25;
+  return estimate.ramBytes > budget || estimate.secondsPerPhoto > 30;
+}
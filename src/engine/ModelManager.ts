@@ -0,0 +1,292 @@
+/**
+ * ModelManager.ts
+ *
+ * Inspects and manages the model weights that @huggingface/transformers
+ * keeps in the browser Cache API. Models can be fetched ahead of time,
+ * verified and deleted one by one, from the Hugging Face Hub or from the
+ * self-hosted `/models/` path served by nginx. Cache keys are the URLs the
+ * library itself uses, so a pre-downloaded model is a cache hit on load.
+ */
+
+import type { DepthMode, ModelDtype, ModelSize, ModelSource } from "../types";
+import { getModelId, LOCAL_MODEL_PATH } from "./TransformersBackend";
+
+/** Cache the transformers library stores downloaded files in */
+export const MODEL_CACHE_NAME = "transformers-cache";
+
+const HUB_HOST = "https://huggingface.co/";
+
+/** Config files a depth-estimation pipeline fetches, shared by every dtype */
+const CONFIG_FILES = ["config.json", "preprocessor_config.json"];
+
+/** ONNX weights the library picks for each dtype */
+const ONNX_FILES: Record<ModelDtype, string> = {
+  fp32: "onnx/model.onnx",
+  fp16: "onnx/model_fp16.onnx",
+  q8: "onnx/model_quantized.onnx",
+  q4: "onnx/model_q4.onnx",
+};
+
+const MODEL_DTYPES = Object.keys(ONNX_FILES) as ModelDtype[];
+
+const MODEL_SIZES: ModelSize[] = ["small", "base", "large"];
+const DEPTH_MODES: DepthMode[] = [
+  "relative",
+  "metric-indoor",
+  "metric-outdoor",
+];
+
+// ONNX files are protobuf ModelProtos; the first field is ir_version (tag 0x08)
+const ONNX_FIRST_BYTE = 0x08;
+
+export interface CachedModelFile {
+  name: string;
+  bytes: number;
+}
+
+export interface CachedModelInfo {
+  modelId: string;
+  modelSize: ModelSize;
+  depthMode: DepthMode;
+  dtype: ModelDtype;
+  files: CachedModelFile[];
+  totalBytes: number;
+  /** Every file the pipeline needs is cached */
+  complete: boolean;
+}
+
+export interface ModelVerification {
+  ok: boolean;
+  /** Human-readable findings, empty when ok */
+  problems: string[];
+}
+
+/** Files a depth-estimation pipeline fetches for a dtype, relative to the model root */
+export function modelFiles(dtype: ModelDtype = "fp32"): string[] {
+  return [...CONFIG_FILES, ONNX_FILES[dtype]];
+}
+
+/**
+ * Lists every known checkpoint × dtype with what is cached of it, grouped
+ * in ModelSize order. Config files are shared, so they show up under each
+ * dtype of a checkpoint.
+ */
+export async function listCachedModels(): Promise<CachedModelInfo[]> {
+  const cache = await openModelCache();
+  const models: CachedModelInfo[] = [];
+
+  for (const modelSize of MODEL_SIZES) {
+    for (const depthMode of DEPTH_MODES) {
+      const modelId = getModelId({ modelSize, depthMode });
+
+      for (const dtype of MODEL_DTYPES) {
+        const names = modelFiles(dtype);
+        const files: CachedModelFile[] = [];
+
+        if (cache) {
+          for (const name of names) {
+            const response = await matchFile(cache, modelId, name);
+            if (response) {
+              files.push({ name, bytes: await responseSize(response) });
+            }
+          }
+        }
+
+        models.push({
+          modelId,
+          modelSize,
+          depthMode,
+          dtype,
+          files,
+          totalBytes: files.reduce((sum, f) => sum + f.bytes, 0),
+          complete: files.length === names.length,
+        });
+      }
+    }
+  }
+
+  return models;
+}
+
+/**
+ * Total size of the cached model files, counting shared config files once.
+ */
+export async function cachedModelBytes(): Promise<number> {
+  const cache = await openModelCache();
+  if (!cache) return 0;
+
+  let total = 0;
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    if (response) total += await responseSize(response);
+  }
+  return total;
+}
+
+/**
+ * Downloads the files of a model that are not cached yet. Self-hosted
+ * files missing on the server are fetched from the Hub instead.
+ */
+export async function downloadModel(
+  modelId: string,
+  dtype: ModelDtype = "fp32",
+  source: ModelSource = "hub",
+  onProgress?: (fraction: number, file: string) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const cache = await openModelCache();
+  if (!cache) throw new Error("Cache Storage is not available");
+
+  const names = modelFiles(dtype);
+  for (let f = 0; f < names.length; f++) {
+    const name = names[f];
+    if (await matchFile(cache, modelId, name)) continue;
+
+    let url = fileUrl(modelId, name, source);
+    let response = await fetch(url, { signal });
+    if (source === "self-hosted" && response.status === 404) {
+      url = fileUrl(modelId, name, "hub");
+      response = await fetch(url, { signal });
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `Download of ${modelId}/${name} failed (HTTP ${response.status})`,
+      );
+    }
+
+    // Stream the body to report progress, then store it under the same URL
+    const total = Number(response.headers.get("content-length")) || 0;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    let received = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+      const fileFraction = total > 0 ? Math.min(received / total, 1) : 0;
+      onProgress?.((f + fileFraction) / names.length, name);
+    }
+
+    await cache.put(
+      url,
+      new Response(new Blob(chunks), {
+        headers: {
+          "content-type":
+            response.headers.get("content-type") ?? "application/octet-stream",
+          "content-length": String(received),
+        },
+      }),
+    );
+  }
+
+  onProgress?.(1, "");
+}
+
+/**
+ * Checks that every file of a model is cached and intact: JSON parses,
+ * the ONNX graph is non-empty, starts like a protobuf ModelProto and
+ * matches its recorded length.
+ */
+export async function verifyModel(
+  modelId: string,
+  dtype: ModelDtype = "fp32",
+): Promise<ModelVerification> {
+  const cache = await openModelCache();
+  if (!cache) return { ok: false, problems: ["Önbellek kullanılamıyor"] };
+
+  const problems: string[] = [];
+  for (const name of modelFiles(dtype)) {
+    const response = await matchFile(cache, modelId, name);
+    if (!response) {
+      problems.push(`${name} eksik`);
+      continue;
+    }
+
+    const blob = await response.blob();
+    const expected = Number(response.headers.get("content-length")) || 0;
+    if (blob.size === 0) {
+      problems.push(`${name} boş`);
+    } else if (expected > 0 && blob.size !== expected) {
+      problems.push(`${name} yarım (${blob.size}/${expected} bayt)`);
+    } else if (name.endsWith(".json")) {
+      try {
+        JSON.parse(await blob.text());
+      } catch {
+        problems.push(`${name} bozuk (geçersiz JSON)`);
+      }
+    } else if (name.endsWith(".onnx")) {
+      const head = new Uint8Array(await blob.slice(0, 1).arrayBuffer());
+      if (head[0] !== ONNX_FIRST_BYTE) {
+        problems.push(`${name} bozuk (ONNX başlığı yok)`);
+      }
+    }
+  }
+
+  return { ok: problems.length === 0, problems };
+}
+
+/**
+ * Removes the cached weights of one dtype of a model, whichever source they
+ * came from. The shared config files go with the last cached dtype.
+ */
+export async function deleteModel(
+  modelId: string,
+  dtype: ModelDtype = "fp32",
+): Promise<void> {
+  const cache = await openModelCache();
+  if (!cache) return;
+
+  const others = MODEL_DTYPES.filter((d) => d !== dtype);
+  const othersCached = (
+    await Promise.all(
+      others.map((d) => matchFile(cache, modelId, ONNX_FILES[d])),
+    )
+  ).some(Boolean);
+  const names = othersCached ? [ONNX_FILES[dtype]] : modelFiles(dtype);
+
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .filter((request) => request.url.includes(`/${modelId}/`))
+      .filter((request) =>
+        names.some((name) => request.url.endsWith(`/${name}`)),
+      )
+      .map((request) => cache.delete(request)),
+  );
+}
+
+// ---------- Helpers ----------
+
+async function openModelCache(): Promise<Cache | null> {
+  if (typeof caches === "undefined") return null;
+  try {
+    return await caches.open(MODEL_CACHE_NAME);
+  } catch {
+    // Cache Storage can be blocked, e.g. in private windows
+    return null;
+  }
+}
+
+function fileUrl(modelId: string, name: string, source: ModelSource): string {
+  return source === "self-hosted"
+    ? `${LOCAL_MODEL_PATH}${modelId}/${name}`
+    : `${HUB_HOST}${modelId}/resolve/main/${name}`;
+}
+
+/** Looks a file up under both keys the library may have stored it with */
+async function matchFile(
+  cache: Cache,
+  modelId: string,
+  name: string,
+): Promise<Response | undefined> {
+  return (
+    (await cache.match(fileUrl(modelId, name, "hub"))) ??
+    (await cache.match(fileUrl(modelId, name, "self-hosted")))
+  );
+}
+
+async function responseSize(response: Response): Promise<number> {
+  const header = Number(response.headers.get("content-length"));
+  return header > 0 ? header : (await response.blob()).size;
+}
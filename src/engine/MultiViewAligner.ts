@@ -1,5 +1,12 @@
 import { BufferGeometry, Float32BufferAttribute, Matrix4 } from "three";
-import type { ProcessedMesh } from "../types";
+import type { CameraPose, ProcessedMesh } from "../types";
+import { checkpoint } from "./Abort";
+
+/** Multi-view stages, run in order after every photo has its mesh */
+export type MultiViewStage = "align" | "merge";
+
+// Floor for confidence weights so voxels of only uncertain points survive
+const MIN_MERGE_WEIGHT = 0.05;
 
 // ─── Feature descriptor for a grid cell ────────────────────────────────────
 interface CellDescriptor {
@@ -13,15 +20,19 @@ interface CellDescriptor {
 /**
  * Simple multi-view alignment using depth-map overlap correlation.
  * Computes a translation offset to align mesh centers based on
- * shared depth-value histograms.
+ * shared depth-value histograms. Yields between meshes so `signal` can stop it.
  */
-export function alignMeshes(meshes: ProcessedMesh[]): ProcessedMesh[] {
+export async function alignMeshes(
+  meshes: ProcessedMesh[],
+  signal?: AbortSignal,
+): Promise<ProcessedMesh[]> {
   if (meshes.length <= 1) return meshes;
 
   const aligned = [meshes[0]];
   const spacing = 5; // base spacing between mesh origins
 
   for (let i = 1; i < meshes.length; i++) {
+    await checkpoint(signal);
     const prev = meshes[i - 1];
     const curr = meshes[i];
 
@@ -50,26 +61,44 @@ export function alignMeshes(meshes: ProcessedMesh[]): ProcessedMesh[] {
     aligned.push({
       ...curr,
       geometry: translatedGeo,
+      camera: moveCamera(curr.camera, transform),
     });
   }
 
   return aligned;
 }
 
+/** A camera pose carried along with a transform of its mesh's geometry */
+function moveCamera(
+  camera: CameraPose | undefined,
+  transform: Matrix4,
+): CameraPose | undefined {
+  if (!camera) return undefined;
+  const matrix = new Matrix4().fromArray(camera.matrix).premultiply(transform);
+  return { ...camera, matrix: matrix.toArray() };
+}
+
 /**
  * Merge multiple meshes into a combined point cloud geometry
- * for unified 3D visualization.
+ * for unified 3D visualization. Yields between meshes, ICP pairs and
+ * merge stages so `signal` can stop it.
  */
-export function mergePointClouds(meshes: ProcessedMesh[]): ProcessedMesh[] {
+export async function mergePointClouds(
+  meshes: ProcessedMesh[],
+  signal?: AbortSignal,
+): Promise<ProcessedMesh[]> {
   if (meshes.length <= 1) return meshes;
 
   // Collect all vertices from all meshes
   const allPositions: number[] = [];
   const allColors: number[] = [];
+  const allConfidence: number[] = [];
 
   for (const mesh of meshes) {
+    await checkpoint(signal);
     const positions = mesh.geometry.attributes.position;
     const colors = mesh.geometry.attributes.color;
+    const confidence = mesh.geometry.attributes.confidence;
 
     for (let i = 0; i < positions.count; i++) {
       allPositions.push(
@@ -83,12 +112,15 @@ export function mergePointClouds(meshes: ProcessedMesh[]): ProcessedMesh[] {
       } else {
         allColors.push(0.5, 0.8, 1.0);
       }
+
+      allConfidence.push(confidence ? confidence.getX(i) : 1);
     }
   }
 
   // Attempt ICP alignment between consecutive mesh pairs
   if (meshes.length >= 2) {
     for (let i = 1; i < meshes.length; i++) {
+      await checkpoint(signal);
       const srcPos = meshes[i].geometry.attributes.position;
       const tgtPos = meshes[i - 1].geometry.attributes.position;
 
@@ -105,64 +137,81 @@ export function mergePointClouds(meshes: ProcessedMesh[]): ProcessedMesh[] {
         tgtArr[j * 3 + 2] = tgtPos.getZ(j);
       }
 
-      const icpTransform = icpAlign(srcArr, tgtArr);
+      const icpTransform = icpAlign(srcArr, tgtArr, 20, 0.001, signal);
       meshes[i].geometry.applyMatrix4(icpTransform);
+      meshes[i].camera = moveCamera(meshes[i].camera, icpTransform);
     }
   }
 
   // Adaptive voxel size based on total point count
+  await checkpoint(signal);
   const totalPoints = allPositions.length / 3;
   const voxelSize = totalPoints > 500_000 ? 0.1 : totalPoints > 100_000 ? 0.07 : 0.05;
 
+  // Points are averaged per voxel, weighted by their depth confidence
   const voxelMap = new Map<
     string,
-    { pos: number[]; col: number[]; count: number }
+    { pos: number[]; col: number[]; weight: number; count: number }
   >();
 
   for (let i = 0; i < allPositions.length; i += 3) {
     const x = allPositions[i];
     const y = allPositions[i + 1];
     const z = allPositions[i + 2];
+    const w = Math.max(allConfidence[i / 3], MIN_MERGE_WEIGHT);
     const key = `${Math.round(x / voxelSize)},${Math.round(y / voxelSize)},${Math.round(z / voxelSize)}`;
 
     const existing = voxelMap.get(key);
     if (existing) {
-      existing.pos[0] += x;
-      existing.pos[1] += y;
-      existing.pos[2] += z;
-      existing.col[0] += allColors[i];
-      existing.col[1] += allColors[i + 1];
-      existing.col[2] += allColors[i + 2];
+      existing.pos[0] += x * w;
+      existing.pos[1] += y * w;
+      existing.pos[2] += z * w;
+      existing.col[0] += allColors[i] * w;
+      existing.col[1] += allColors[i + 1] * w;
+      existing.col[2] += allColors[i + 2] * w;
+      existing.weight += w;
       existing.count++;
     } else {
       voxelMap.set(key, {
-        pos: [x, y, z],
-        col: [allColors[i], allColors[i + 1], allColors[i + 2]],
+        pos: [x * w, y * w, z * w],
+        col: [allColors[i] * w, allColors[i + 1] * w, allColors[i + 2] * w],
+        weight: w,
         count: 1,
       });
     }
   }
 
-  // Average positions & colors
+  // Average positions & colors; voxel confidence is the mean of its points
   const mergedPositions: number[] = [];
   const mergedColors: number[] = [];
+  const mergedConfidence: number[] = [];
   voxelMap.forEach((voxel) => {
     mergedPositions.push(
-      voxel.pos[0] / voxel.count,
-      voxel.pos[1] / voxel.count,
-      voxel.pos[2] / voxel.count,
+      voxel.pos[0] / voxel.weight,
+      voxel.pos[1] / voxel.weight,
+      voxel.pos[2] / voxel.weight,
     );
     mergedColors.push(
-      voxel.col[0] / voxel.count,
-      voxel.col[1] / voxel.count,
-      voxel.col[2] / voxel.count,
+      voxel.col[0] / voxel.weight,
+      voxel.col[1] / voxel.weight,
+      voxel.col[2] / voxel.weight,
     );
+    mergedConfidence.push(voxel.weight / voxel.count);
   });
 
   // Statistical outlier removal on merged cloud
+  await checkpoint(signal);
   const filteredPositions: number[] = [];
   const filteredColors: number[] = [];
-  statisticalOutlierRemoval(mergedPositions, mergedColors, filteredPositions, filteredColors);
+  const filteredConfidence: number[] = [];
+  statisticalOutlierRemoval(
+    mergedPositions,
+    mergedColors,
+    mergedConfidence,
+    filteredPositions,
+    filteredColors,
+    filteredConfidence,
+  );
 
   const mergedGeometry = new BufferGeometry();
   mergedGeometry.setAttribute(
@@ -173,6 +222,10 @@ export function mergePointClouds(meshes: ProcessedMesh[]): ProcessedMesh[] {
     "color",
     new Float32BufferAttribute(filteredColors, 3),
   );
+  mergedGeometry.setAttribute(
+    "confidence",
+    new Float32BufferAttribute(filteredConfidence, 1),
+  );
 
   // Return merged as first mesh + original individual meshes
   const mergedMesh: ProcessedMesh = {
@@ -182,6 +235,7 @@ export function mergePointClouds(meshes: ProcessedMesh[]): ProcessedMesh[] {
     depthMap: meshes[0].depthMap,
     width: meshes[0].width,
     height: meshes[0].height,
+    camera: meshes[0].camera,
   };
 
   return [mergedMesh, ...meshes];
@@ -197,6 +251,7 @@ export function icpAlign(
   targetPoints: Float32Array,
   maxIterations: number = 20,
   tolerance: number = 0.001,
+  signal?: AbortSignal,
 ): Matrix4 {
   const srcCount = sourcePoints.length / 3;
   const tgtCount = targetPoints.length / 3;
@@ -224,6 +279,8 @@ export function icpAlign(
   const cumulativeTranslation = [0, 0, 0];
 
   for (let iter = 0; iter < maxIterations; iter++) {
+    signal?.throwIfAborted();
+
     // Compute centroid of matched pairs
     let srcCx = 0, srcCy = 0, srcCz = 0;
     let tgtCx = 0, tgtCy = 0, tgtCz = 0;
@@ -452,8 +509,10 @@ function computeFeatureOffset(
 function statisticalOutlierRemoval(
   positions: number[],
   colors: number[],
+  confidence: number[],
   outPositions: number[],
   outColors: number[],
+  outConfidence: number[],
   k: number = 8,
 ): void {
   const count = positions.length / 3;
@@ -461,6 +520,7 @@ function statisticalOutlierRemoval(
     // Not enough points, copy through
     outPositions.push(...positions);
     outColors.push(...colors);
+    outConfidence.push(...confidence);
     return;
   }
 
@@ -551,6 +611,7 @@ function statisticalOutlierRemoval(
     if (avgDists[i] <= cutoff || avgDists[i] === 0) {
       outPositions.push(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
       outColors.push(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]);
+      outConfidence.push(confidence[i]);
     }
   }
 }
@@ -567,12 +628,25 @@ function computeDepthOverlap(
   const histA = new Float32Array(bins);
   const histB = new Float32Array(bins);
 
+  // Shared range so metric maps (meters) bin the same way as [0, 1] maps
+  let min = Infinity;
+  let max = -Infinity;
+  for (const map of [depthA, depthB]) {
+    for (let i = 0; i < map.length; i++) {
+      if (map[i] < min) min = map[i];
+      if (map[i] > max) max = map[i];
+    }
+  }
+  const range = max - min || 1;
+
   for (let i = 0; i < depthA.length; i++) {
-    const bin = Math.min(Math.floor(depthA[i] * bins), bins - 1);
+    const t = (depthA[i] - min) / range;
+    const bin = Math.min(Math.floor(t * bins), bins - 1);
     histA[bin]++;
   }
   for (let i = 0; i < depthB.length; i++) {
-    const bin = Math.min(Math.floor(depthB[i] * bins), bins - 1);
+    const t = (depthB[i] - min) / range;
+    const bin = Math.min(Math.floor(t * bins), bins - 1);
     histB[bin]++;
   }
 
@@ -1,11 +1,41 @@
 // Native IndexedDB implementation
 
-import type { AppState, PhotoFile, ProcessedMesh } from "../types";
+import type {
+  AppState,
+  CameraPose,
+  DepthResult,
+  DepthSnapshot,
+  PhotoFile,
+  ProcessedMesh,
+  RunManifest,
+} from "../types";
+import { DEFAULT_QUALITY } from "../types";
 import * as THREE from "three";
+import { MODEL_CACHE_NAME } from "./ModelManager";
+import type { GeometryBuffers } from "./GeometryTransfer";
 
 const DB_NAME = "3d-venue-db";
 const STORE_NAME = "app-state";
-const DB_VERSION = 1;
+// Per-photo results of the current run, keyed by photo id
+const RUN_STORE_NAME = "run-results";
+const RUN_MANIFEST_KEY = "run-manifest";
+const DB_VERSION = 2;
+
+/** What a finished photo of a run leaves behind — enough to skip it on resume */
+export interface RunPhotoResult {
+  depth: DepthResult & { rawDepth?: DepthSnapshot };
+  geometry: GeometryBuffers;
+  /** RGBA normal map at depth-map resolution */
+  normalData: Float32Array;
+  /** Missing for photos saved before meshes kept their camera */
+  camera?: CameraPose;
+  lods?: Uint32Array[];
+}
+
+export interface ResumableRun {
+  manifest: RunManifest;
+  results: Map<string, RunPhotoResult>;
+}
 
 interface SerializedMesh extends Omit<ProcessedMesh, "geometry"> {
   geometry: any; // JSON representation
@@ -27,6 +57,9 @@ export const PersistenceService = {
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME);
         }
+        if (!db.objectStoreNames.contains(RUN_STORE_NAME)) {
+          db.createObjectStore(RUN_STORE_NAME);
+        }
       };
     });
   },
@@ -47,6 +80,9 @@ export const PersistenceService = {
             depthMap: Array.from(mesh.depthMap),
             width: mesh.width,
             height: mesh.height,
+            encoding: mesh.encoding,
+            camera: mesh.camera,
+            lods: mesh.lods?.map((lod) => Array.from(lod)),
             geometry: geomJSON,
           };
         } catch {
@@ -62,11 +98,13 @@ export const PersistenceService = {
         meshes: serializedMeshes as SerializedMesh[],
         progress: null,
         error: null,
+        photoErrors: [],
         qualitySettings: state.qualitySettings,
         viewMode: state.viewMode,
         showGrid: state.showGrid,
         depthScale: state.depthScale,
         selectedMeshIndex: state.selectedMeshIndex,
+        timingReport: state.timingReport,
       };
 
       store.put(serializedState, "current");
@@ -118,6 +156,9 @@ export const PersistenceService = {
                 depthMap,
                 width: m.width,
                 height: m.height,
+                encoding: m.encoding,
+                camera: m.camera,
+                lods: m.lods?.map((lod) => Uint32Array.from(lod)),
               });
             } catch (err) {
               console.warn("Mesh restore skipped:", err);
@@ -126,6 +167,12 @@ export const PersistenceService = {
 
           resolve({
             ...data,
+            // A run cut short by a reload is offered for resume instead
+            step: data.step === "processing" ? "upload" : data.step,
+            photoErrors: [],
+            timingReport: data.timingReport ?? null,
+            // Fill in settings added since this state was saved
+            qualitySettings: { ...DEFAULT_QUALITY, ...data.qualitySettings },
             photos: restoredPhotos,
             meshes: restoredMeshes,
           } as AppState);
@@ -140,17 +187,99 @@ export const PersistenceService = {
 
   async clearState() {
     const db = await this.initDB();
-    const tx = db.transaction(STORE_NAME, "readwrite");
+    const tx = db.transaction([STORE_NAME, RUN_STORE_NAME], "readwrite");
     tx.objectStore(STORE_NAME).clear();
+    tx.objectStore(RUN_STORE_NAME).clear();
+    return new Promise<void>((resolve) => {
+      tx.oncomplete = () => resolve();
+    });
+  },
+
+  // ---------- Resumable runs ----------
+
+  /** Records a new run, dropping the results of any earlier one */
+  async startRun(manifest: RunManifest) {
+    const db = await this.initDB();
+    const tx = db.transaction([STORE_NAME, RUN_STORE_NAME], "readwrite");
+    tx.objectStore(RUN_STORE_NAME).clear();
+    tx.objectStore(STORE_NAME).put(manifest, RUN_MANIFEST_KEY);
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async savePhotoResult(photoId: string, result: RunPhotoResult) {
+    const db = await this.initDB();
+    const tx = db.transaction(RUN_STORE_NAME, "readwrite");
+    tx.objectStore(RUN_STORE_NAME).put(result, photoId);
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  /** The unfinished run with the results saved so far, if there is one */
+  async loadRun(): Promise<ResumableRun | null> {
+    try {
+      const db = await this.initDB();
+      const tx = db.transaction([STORE_NAME, RUN_STORE_NAME], "readonly");
+      const manifestRequest = tx.objectStore(STORE_NAME).get(RUN_MANIFEST_KEY);
+      const results = new Map<string, RunPhotoResult>();
+      const cursorRequest = tx.objectStore(RUN_STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        results.set(String(cursor.key), cursor.value as RunPhotoResult);
+        cursor.continue();
+      };
+
+      return new Promise((resolve, reject) => {
+        tx.oncomplete = () => {
+          const manifest = manifestRequest.result as RunManifest | undefined;
+          resolve(
+            manifest
+              ? {
+                  manifest: {
+                    ...manifest,
+                    qualitySettings: {
+                      ...DEFAULT_QUALITY,
+                      ...manifest.qualitySettings,
+                    },
+                  },
+                  results,
+                }
+              : null,
+          );
+        };
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch (e) {
+      console.error("Load run failed:", e);
+      return null;
+    }
+  },
+
+  /** Forgets the run once it completed or was dismissed */
+  async finishRun() {
+    const db = await this.initDB();
+    const tx = db.transaction([STORE_NAME, RUN_STORE_NAME], "readwrite");
+    tx.objectStore(STORE_NAME).delete(RUN_MANIFEST_KEY);
+    tx.objectStore(RUN_STORE_NAME).clear();
     return new Promise<void>((resolve) => {
       tx.oncomplete = () => resolve();
     });
   },
 
+  // Model weights are kept — they are managed in the model manager
   async clearAppCache() {
     if ("caches" in window) {
       const keys = await caches.keys();
-      await Promise.all(keys.map((key) => caches.delete(key)));
+      await Promise.all(
+        keys
+          .filter((key) => key !== MODEL_CACHE_NAME)
+          .map((key) => caches.delete(key)),
+      );
     }
   },
 };
@@ -1,401 +1,352 @@
 /**
  * ProcessingWorker.ts
  *
- * Web Worker for offloading depth estimation and mesh generation
- * from the main thread. Communicates via structured messages and
- * uses Transferable objects (Float32Array buffers) to avoid copies.
+ * Web Worker for offloading depth estimation, mesh generation and the
+ * multi-view stages from the main thread. Communicates via structured
+ * messages and uses Transferable objects (Float32Array buffers) to avoid
+ * copies. Three.js geometry math needs no DOM, so meshes are built with the
+ * same MeshGenerator / MultiViewAligner code as on the main thread.
  *
- * NOTE: @huggingface/transformers relies on dynamic imports and DOM APIs
- * that may not be available in all Worker contexts. If the pipeline fails
+ * Messages follow the shared protocol in WorkerProtocol.ts.
+ *
+ * Inference goes through the same `DepthBackend` registry as the main
+ * thread. NOTE: @huggingface/transformers relies on dynamic imports and DOM
+ * APIs that may not be available in all Worker contexts. If the backend fails
  * to load inside the worker, an error message is posted back so the
  * WorkerBridge can fall back to main-thread execution.
  */
 
-// ---------- Types ----------
-
-interface LoadModelMessage {
-  type: "loadModel";
-  id: string;
-  modelSize: "small" | "base" | "large";
-}
-
-interface EstimateDepthMessage {
-  type: "estimateDepth";
-  id: string;
-  imageData: string; // base64 data-URL or object-URL (string-serialisable)
-  maxResolution: number;
-}
+import { getDepthBackend } from "./DepthBackend";
+import type { DepthBackend, DepthView, InferenceDevice } from "./DepthBackend";
+import { refineDepth, type DepthEstimate } from "./DepthEstimator";
+import { estimateTiled } from "./TiledInference";
+import { estimateWithTTA } from "./TestTimeAugmentation";
+import { buildPhotoMesh } from "./MeshGenerator";
+import { alignMeshes, mergePointClouds } from "./MultiViewAligner";
+import {
+  collectTransferables,
+  packGeometry,
+  packMesh,
+  unpackMesh,
+} from "./GeometryTransfer";
+import { errorInfo, toModelLoadError } from "./Errors";
+import {
+  INIT_MESSAGE_ID,
+  PROTOCOL_VERSION,
+  parseWorkerIncoming,
+  type DisposeRequest,
+  type EstimateDepthRequest,
+  type GenerateMeshRequest,
+  type LoadModelRequest,
+  type MultiViewRequest,
+  type PrepareDepthRequest,
+  type WorkerOperation,
+  type WorkerOutgoing,
+  type WorkerResult,
+} from "./WorkerProtocol";
 
-interface GenerateMeshMessage {
-  type: "generateMesh";
-  id: string;
-  depthMap: Float32Array;
-  width: number;
-  height: number;
-  depthScale: number;
-}
+// ---------- Types ----------
 
-interface DisposeMessage {
-  type: "dispose";
-  id: string;
-}
-
-type WorkerIncoming =
-  | LoadModelMessage
-  | EstimateDepthMessage
-  | GenerateMeshMessage
-  | DisposeMessage;
-
-interface WorkerResponse {
-  type: "result" | "progress" | "error";
-  id: string;
-  payload?: Record<string, unknown>;
-  transfer?: Transferable[];
-}
+/** A request as received, with the id its reply must carry */
+type Received<R> = R & { id: string };
 
 // ---------- State ----------
 
-let pipeline: ((input: unknown) => Promise<unknown>) | null = null;
-let currentModelSize: string | null = null;
-let deviceUsed: "webgpu" | "wasm" = "wasm";
+let backend: DepthBackend | null = null;
+let deviceUsed: InferenceDevice = "wasm";
+
+/** Running jobs by message id, so a "cancel" message can abort them */
+const jobs = new Map<string, AbortController>();
 
 // ---------- Helpers ----------
 
-function post(msg: WorkerResponse, transfer?: Transferable[]) {
+function post(msg: WorkerOutgoing, transfer?: Transferable[]) {
   (self as unknown as Worker).postMessage(msg, { transfer: transfer ?? [] });
 }
 
 function postProgress(id: string, message: string) {
-  post({ type: "progress", id, payload: { message } });
+  post({ type: "progress", id, message });
 }
 
-function postResult(
+function postResult<K extends WorkerOperation>(
   id: string,
-  payload: Record<string, unknown>,
+  op: K,
+  payload: WorkerResult<K>,
   transfer?: Transferable[],
 ) {
-  post({ type: "result", id, payload }, transfer);
+  post({ type: "result", id, op, payload } as WorkerOutgoing, transfer);
 }
 
-function postError(id: string, error: string) {
-  post({ type: "error", id, payload: { error } });
+/** Posts a failure with its error code, so the bridge can rethrow it typed */
+function postError(id: string, err: unknown, context?: string) {
+  const { code, message, details } = errorInfo(err);
+  post({
+    type: "error",
+    id,
+    error: context ? `${context}: ${message}` : message,
+    code,
+    details,
+  });
 }
 
-// ---------- Device detection (mirrors DepthEstimator) ----------
-
-async function detectBestDevice(): Promise<"webgpu" | "wasm"> {
-  try {
-    if (typeof navigator !== "undefined" && "gpu" in navigator) {
-      const gpu = (
-        navigator as unknown as { gpu?: { requestAdapter(): Promise<unknown> } }
-      ).gpu;
-      if (gpu) {
-        const adapter = await gpu.requestAdapter();
-        if (adapter) return "webgpu";
-      }
-    }
-  } catch {
-    // WebGPU unavailable
-  }
-  return "wasm";
+/** Posts a refined depth estimate, transferring its buffers */
+function postEstimate(
+  id: string,
+  op: "estimateDepth" | "prepareDepth",
+  estimate: DepthEstimate,
+) {
+  const { depthMap, confidence, rawDepth } = estimate;
+  // A buffer may only be listed once, and small maps can share one
+  const transfer = new Set<Transferable>([
+    depthMap.buffer,
+    confidence.buffer,
+    rawDepth.data.buffer,
+  ]);
+  postResult(id, op, estimate, [...transfer]);
 }
 
 // ---------- Handlers ----------
 
-async function handleLoadModel(msg: LoadModelMessage) {
+async function handleLoadModel(msg: Received<LoadModelRequest>) {
   try {
-    if (pipeline && currentModelSize === msg.modelSize) {
-      postResult(msg.id, { alreadyLoaded: true, device: deviceUsed });
+    const next = getDepthBackend(msg.backend);
+    const loaded = next.loadedSpec();
+    if (
+      backend === next &&
+      loaded?.modelSize === msg.modelSize &&
+      loaded.depthMode === msg.depthMode &&
+      (loaded.dtype ?? "fp32") === msg.dtype
+    ) {
+      postResult(msg.id, "loadModel", {
+        alreadyLoaded: true,
+        device: deviceUsed,
+      });
       return;
     }
 
     postProgress(msg.id, "Worker: model yükleniyor...");
 
-    // Dynamic import — this is the step that may fail in a worker context
-    const transformers = await import("@huggingface/transformers");
-    transformers.env.allowLocalModels = false;
-
-    const MODEL_MAP: Record<string, string> = {
-      small: "onnx-community/depth-anything-v2-small",
-      base: "onnx-community/depth-anything-v2-base",
-      large: "onnx-community/depth-anything-v2-large",
-    };
+    // Switching backends releases the previous one's weights
+    if (backend && backend !== next) await backend.dispose();
+    backend = next;
 
-    deviceUsed = await detectBestDevice();
-    postProgress(
-      msg.id,
-      `Worker: ${deviceUsed === "webgpu" ? "WebGPU" : "WASM"} backend kullanılıyor`,
+    // For the transformers backend this dynamic import is the step that
+    // may fail in a worker context
+    deviceUsed = await next.load(
+      {
+        modelSize: msg.modelSize,
+        depthMode: msg.depthMode,
+        modelSource: msg.modelSource,
+        dtype: msg.dtype,
+      },
+      (message) => postProgress(msg.id, message),
     );
 
-    const modelId = MODEL_MAP[msg.modelSize] ?? MODEL_MAP.small;
-
-    pipeline = (await (
-      transformers.pipeline as (...args: unknown[]) => Promise<unknown>
-    )("depth-estimation", modelId, {
+    postResult(msg.id, "loadModel", {
+      alreadyLoaded: false,
       device: deviceUsed,
-      dtype: "fp32",
-      progress_callback: (progress: { status: string; progress?: number }) => {
-        if (progress.status === "downloading") {
-          const pct = progress.progress ? Math.round(progress.progress) : 0;
-          postProgress(msg.id, `Model indiriliyor... ${pct}%`);
-        } else if (progress.status === "loading") {
-          postProgress(msg.id, "Model yükleniyor...");
-        }
-      },
-    })) as (input: unknown) => Promise<unknown>;
-
-    currentModelSize = msg.modelSize;
-    postResult(msg.id, { loaded: true, device: deviceUsed });
+    });
   } catch (err: unknown) {
     postError(
       msg.id,
-      `Worker model yükleme hatası: ${err instanceof Error ? err.message : String(err)}`,
+      toModelLoadError(
+        err,
+        `${msg.modelSize} (${msg.depthMode}, ${msg.dtype})`,
+      ),
+      "Worker model yükleme hatası",
     );
   }
 }
 
-async function handleEstimateDepth(msg: EstimateDepthMessage) {
+async function handleEstimateDepth(
+  msg: Received<EstimateDepthRequest>,
+  signal: AbortSignal,
+) {
   try {
-    if (!pipeline) {
+    if (!backend?.isLoaded()) {
       postError(msg.id, "Model henüz yüklenmedi.");
       return;
     }
 
     postProgress(msg.id, "Derinlik tahmini çalışıyor...");
 
-    const result = await pipeline(msg.imageData);
-    const resultArr = result as {
-      depth: { data: Float32Array; width: number; height: number };
-    }[];
-    const single = Array.isArray(result)
-      ? resultArr[0]
-      : (result as {
-          depth: { data: Float32Array; width: number; height: number };
-        });
-    const depthTensor = single.depth;
-    const depthData = depthTensor.data as Float32Array;
-    const depthW: number = depthTensor.width;
-    const depthH: number = depthTensor.height;
-
-    // Normalize to 0-1
-    let min = Infinity;
-    let max = -Infinity;
-    for (let i = 0; i < depthData.length; i++) {
-      if (depthData[i] < min) min = depthData[i];
-      if (depthData[i] > max) max = depthData[i];
-    }
-    const range = max - min || 1;
-    const normalized = new Float32Array(depthData.length);
-    for (let i = 0; i < depthData.length; i++) {
-      normalized[i] = (depthData[i] - min) / range;
-    }
-
-    // Bilateral filter
-    const filtered = bilateralFilter(normalized, depthW, depthH, 3, 0.1);
-
-    // Resize if needed
-    let w = depthW;
-    let h = depthH;
-    const maxRes = msg.maxResolution;
-    if (w > maxRes || h > maxRes) {
-      const scale = maxRes / Math.max(w, h);
-      w = Math.round(w * scale);
-      h = Math.round(h * scale);
-    }
-
-    const resized = resizeDepthMap(filtered, depthW, depthH, w, h);
-
-    // Transfer the buffer — zero-copy
-    postResult(msg.id, { depthMap: resized, width: w, height: h }, [
-      resized.buffer,
-    ]);
+    const active = backend;
+    const runPass = (view: DepthView) =>
+      estimateTiled(
+        active,
+        msg.imageData,
+        msg.tileGrid,
+        (done, total) =>
+          postProgress(msg.id, `Karo ${done}/${total} işleniyor...`),
+        view,
+        signal,
+        msg.maxResolution,
+      );
+    const raw = msg.enableTTA
+      ? await estimateWithTTA(
+          runPass,
+          (done, total) =>
+            postProgress(msg.id, `TTA geçişi ${done}/${total}...`),
+          signal,
+        )
+      : await runPass({});
+
+    postProgress(msg.id, "Derinlik iyileştiriliyor...");
+    postEstimate(
+      msg.id,
+      "estimateDepth",
+      await refineDepth(raw, msg.imageData, msg.maxResolution, {
+        ...msg,
+        signal,
+      }),
+    );
   } catch (err: unknown) {
-    postError(
+    postError(msg.id, err, "Derinlik tahmini hatası");
+  }
+}
+
+async function handlePrepareDepth(
+  msg: Received<PrepareDepthRequest>,
+  signal: AbortSignal,
+) {
+  try {
+    postProgress(msg.id, "Derinlik iyileştiriliyor...");
+    postEstimate(
       msg.id,
-      `Derinlik tahmini hatası: ${err instanceof Error ? err.message : String(err)}`,
+      "prepareDepth",
+      await refineDepth(msg.depth, msg.imageData, msg.maxResolution, {
+        ...msg,
+        signal,
+      }),
     );
+  } catch (err: unknown) {
+    postError(msg.id, err, "Derinlik hazırlama hatası");
   }
 }
 
-function handleGenerateMesh(msg: GenerateMeshMessage) {
+async function handleGenerateMesh(
+  msg: Received<GenerateMeshRequest>,
+  signal: AbortSignal,
+) {
   try {
     postProgress(msg.id, "Mesh oluşturuluyor...");
 
-    // Lightweight mesh data generation (positions + indices) without Three.js
-    const { depthMap, width, height, depthScale } = msg;
-    const aspect = width / height;
-    const segsX = Math.min(width, 400);
-    const segsY = Math.min(height, 400);
-
-    const verticesPerRow = segsX + 1;
-    const verticesPerCol = segsY + 1;
-    const vertexCount = verticesPerRow * verticesPerCol;
-
-    const positions = new Float32Array(vertexCount * 3);
-    const planeW = aspect * 4;
-    const planeH = 4;
-
-    for (let iy = 0; iy <= segsY; iy++) {
-      for (let ix = 0; ix <= segsX; ix++) {
-        const idx = iy * verticesPerRow + ix;
-        const u = ix / segsX;
-        const v = iy / segsY;
-
-        const x = (u - 0.5) * planeW;
-        const y = (0.5 - v) * planeH;
-
-        const px = Math.floor(u * (width - 1));
-        const py = Math.floor(v * (height - 1));
-        const dIdx = py * width + px;
-        const z = (depthMap[dIdx] ?? 0) * depthScale;
-
-        positions[idx * 3] = x;
-        positions[idx * 3 + 1] = y;
-        positions[idx * 3 + 2] = z;
-      }
-    }
+    const { geometry, normalData, smoothingMs, camera, lods } =
+      await buildPhotoMesh(
+        msg.depthMap,
+        msg.width,
+        msg.height,
+        msg.encoding,
+        msg.confidence,
+        msg.options,
+        signal,
+      );
+    const buffers = packGeometry(geometry);
 
     postResult(
       msg.id,
-      {
-        positions,
-        width: segsX,
-        height: segsY,
-        vertexCount,
-      },
-      [positions.buffer],
+      "generateMesh",
+      { geometry: buffers, normalData, smoothingMs, camera, lods },
+      [
+        ...collectTransferables([buffers]),
+        normalData.buffer,
+        ...lods.map((lod) => lod.buffer),
+      ],
     );
   } catch (err: unknown) {
-    postError(
-      msg.id,
-      `Mesh hatası: ${err instanceof Error ? err.message : String(err)}`,
-    );
+    postError(msg.id, err, "Mesh hatası");
   }
 }
 
-function handleDispose(msg: DisposeMessage) {
-  pipeline = null;
-  currentModelSize = null;
-  postResult(msg.id, { disposed: true });
-}
+async function handleMultiView(
+  msg: Received<MultiViewRequest>,
+  signal: AbortSignal,
+) {
+  try {
+    const meshes = msg.meshes.map((m) => unpackMesh(m));
+    const result =
+      msg.stage === "align"
+        ? await alignMeshes(meshes, signal)
+        : await mergePointClouds(meshes, signal);
+    const packed = result.map(packMesh);
 
-// ---------- Bilateral filter (same as DepthEstimator) ----------
-
-function bilateralFilter(
-  data: Float32Array,
-  w: number,
-  h: number,
-  radius: number,
-  sigmaRange: number,
-): Float32Array {
-  const result = new Float32Array(data.length);
-  const sigmaSpace = radius / 2;
-
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      const idx = y * w + x;
-      const center = data[idx];
-      let sum = 0;
-      let wSum = 0;
-
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          const ny = y + dy;
-          const nx = x + dx;
-          if (ny < 0 || ny >= h || nx < 0 || nx >= w) continue;
-
-          const nIdx = ny * w + nx;
-          const neighbor = data[nIdx];
-          const spatialDist = Math.sqrt(dx * dx + dy * dy);
-          const rangeDist = Math.abs(center - neighbor);
-
-          const ws = Math.exp(
-            -(spatialDist * spatialDist) / (2 * sigmaSpace * sigmaSpace),
-          );
-          const wr = Math.exp(
-            -(rangeDist * rangeDist) / (2 * sigmaRange * sigmaRange),
-          );
-          const weight = ws * wr;
-
-          sum += neighbor * weight;
-          wSum += weight;
-        }
-      }
-
-      result[idx] = wSum > 0 ? sum / wSum : center;
-    }
+    postResult(
+      msg.id,
+      "multiView",
+      { meshes: packed },
+      collectTransferables(packed),
+    );
+  } catch (err: unknown) {
+    postError(msg.id, err, "Çoklu görünüm hatası");
   }
-
-  return result;
 }
 
-// ---------- Resize (same as DepthEstimator) ----------
-
-function resizeDepthMap(
-  source: Float32Array,
-  srcW: number,
-  srcH: number,
-  dstW: number,
-  dstH: number,
-): Float32Array {
-  if (srcW === dstW && srcH === dstH) return source;
-
-  const result = new Float32Array(dstW * dstH);
-  const xRatio = srcW / dstW;
-  const yRatio = srcH / dstH;
-
-  for (let y = 0; y < dstH; y++) {
-    for (let x = 0; x < dstW; x++) {
-      const srcX = x * xRatio;
-      const srcY = y * yRatio;
-      const x0 = Math.floor(srcX);
-      const y0 = Math.floor(srcY);
-      const x1 = Math.min(x0 + 1, srcW - 1);
-      const y1 = Math.min(y0 + 1, srcH - 1);
-      const fx = srcX - x0;
-      const fy = srcY - y0;
-
-      const v00 = source[y0 * srcW + x0];
-      const v10 = source[y0 * srcW + x1];
-      const v01 = source[y1 * srcW + x0];
-      const v11 = source[y1 * srcW + x1];
-
-      result[y * dstW + x] =
-        v00 * (1 - fx) * (1 - fy) +
-        v10 * fx * (1 - fy) +
-        v01 * (1 - fx) * fy +
-        v11 * fx * fy;
-    }
+async function handleDispose(msg: Received<DisposeRequest>) {
+  const previous = backend;
+  backend = null;
+  try {
+    await previous?.dispose();
+  } finally {
+    // The weights are dropped either way; the bridge terminates the worker
+    postResult(msg.id, "dispose", { disposed: true });
   }
-
-  return result;
 }
 
 // ---------- Message handler ----------
 
-self.onmessage = async (e: MessageEvent<WorkerIncoming>) => {
-  const msg = e.data;
-
-  switch (msg.type) {
-    case "loadModel":
-      await handleLoadModel(msg);
-      break;
-    case "estimateDepth":
-      await handleEstimateDepth(msg);
-      break;
-    case "generateMesh":
-      handleGenerateMesh(msg);
-      break;
-    case "dispose":
-      handleDispose(msg);
-      break;
-    default:
-      postError(
-        "unknown",
-        `Bilinmeyen mesaj tipi: ${(msg as unknown as { type: string }).type}`,
-      );
+self.onmessage = async (e: MessageEvent<unknown>) => {
+  let msg;
+  try {
+    msg = parseWorkerIncoming(e.data);
+  } catch (err: unknown) {
+    const id = (e.data as { id?: unknown } | null)?.id;
+    postError(
+      typeof id === "string" ? id : "unknown",
+      err,
+      "Geçersiz worker mesajı",
+    );
+    return;
+  }
+
+  // Delivered while a job awaits; the job stops at its next check
+  if (msg.type === "cancel") {
+    jobs.get(msg.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  jobs.set(msg.id, controller);
+  const { signal } = controller;
+
+  try {
+    switch (msg.type) {
+      case "loadModel":
+        await handleLoadModel(msg);
+        break;
+      case "estimateDepth":
+        await handleEstimateDepth(msg, signal);
+        break;
+      case "prepareDepth":
+        await handlePrepareDepth(msg, signal);
+        break;
+      case "generateMesh":
+        await handleGenerateMesh(msg, signal);
+        break;
+      case "multiView":
+        await handleMultiView(msg, signal);
+        break;
+      case "dispose":
+        await handleDispose(msg);
+        break;
+    }
+  } finally {
+    jobs.delete(msg.id);
   }
 };
 
-// Signal that the worker is ready
-post({ type: "result", id: "__init__", payload: { ready: true } });
+// Signal that the worker is ready, and which protocol it speaks
+post({
+  type: "ready",
+  id: INIT_MESSAGE_ID,
+  protocolVersion: PROTOCOL_VERSION,
+});
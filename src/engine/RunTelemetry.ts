@@ -0,0 +1,218 @@
+/**
+ * RunTelemetry.ts
+ *
+ * Measures how long each processing phase takes — per photo for depth
+ * estimation, meshing and smoothing, once per run for model loading,
+ * alignment and merging — and turns the measurements into a rolling ETA
+ * and a time-based progress percentage.
+ *
+ * Photos run in parallel on the worker pool, so the ETA is based on the
+ * throughput of the last few finished photos rather than on per-photo
+ * durations. Until the first photo is done, and for the run-wide phases
+ * after the photos, the previous run's report stands in. At the end the
+ * spans are summarised into a RunTimingReport that can be exported as JSON.
+ */
+
+import type {
+  PhaseSpan,
+  PhotoFile,
+  RunTimingReport,
+  TimedPhase,
+} from "../types";
+
+// Photo completions the throughput is averaged over
+const ETA_WINDOW = 5;
+
+// Phases that together make up one photo's work
+const PHOTO_PHASES: TimedPhase[] = [
+  "estimating",
+  "generating-mesh",
+  "smoothing",
+];
+
+type SpanPhoto = Pick<PhotoFile, "id" | "name">;
+
+export interface RunTimerOptions {
+  photoCount: number;
+  /** Jobs running in parallel; read on every estimate, the pool starts late */
+  concurrency: () => number;
+  /** Run-wide phases that follow the photos, e.g. aligning */
+  tailPhases: TimedPhase[];
+  /** Report of the previous run, used until this one has measurements */
+  previous?: RunTimingReport | null;
+}
+
+export interface RunTimer {
+  /**
+   * Starts timing a phase. The returned function ends it; `nestedMs` is
+   * time already recorded under another phase (e.g. smoothing inside the
+   * mesh build) and is left out of this span.
+   */
+  begin(phase: TimedPhase, photo?: SpanPhoto): (nestedMs?: number) => void;
+  /** Records a phase that was measured elsewhere, e.g. inside a worker */
+  record(phase: TimedPhase, durationMs: number, photo?: SpanPhoto): void;
+  /** Counts a processed (or failed) photo towards the throughput */
+  photoDone(): void;
+  /** Milliseconds left, or undefined while there is nothing to go on */
+  eta(completedPhotos: number): number | undefined;
+  /** Share of the expected run time that has passed; never goes back */
+  percentage(completedPhotos: number): number;
+  /** Milliseconds spent per phase so far, summed over photos */
+  phaseDurations(): Partial<Record<TimedPhase, number>>;
+  report(
+    meta: Pick<
+      RunTimingReport,
+      "completedPhotos" | "mode" | "poolSize" | "settings"
+    >,
+  ): RunTimingReport;
+}
+
+export function createRunTimer({
+  photoCount,
+  concurrency,
+  tailPhases,
+  previous,
+}: RunTimerOptions): RunTimer {
+  const startedAt = Date.now();
+  const runStart = performance.now();
+  const spans: PhaseSpan[] = [];
+  const activeTail = new Map<TimedPhase, number>();
+  const completions: number[] = [];
+  let photosStart: number | undefined;
+  let lastPercentage = 0;
+
+  const now = () => performance.now() - runStart;
+
+  function addSpan(
+    phase: TimedPhase,
+    start: number,
+    durationMs: number,
+    photo?: SpanPhoto,
+  ) {
+    spans.push({
+      phase,
+      ...(photo ? { photoId: photo.id, photoName: photo.name } : {}),
+      start: Math.round(start),
+      durationMs: Math.round(durationMs),
+    });
+  }
+
+  /** Milliseconds per photo at the current rate of the pool */
+  function msPerPhoto(): number | undefined {
+    // Parallel photos finish in bunches, so the window is measured from the
+    // completion before it (or the first photo's start), not its own first
+    if (completions.length > 0 && photosStart !== undefined) {
+      const window = Math.min(ETA_WINDOW, completions.length);
+      const last = completions[completions.length - 1];
+      const from =
+        completions.length > window
+          ? completions[completions.length - 1 - window]
+          : photosStart;
+      return (last - from) / window;
+    }
+    if (!previous) return undefined;
+    const workers = Math.max(1, concurrency());
+    let photoMs = 0;
+    for (const phase of PHOTO_PHASES) {
+      photoMs += previous.phases[phase]?.meanMs ?? 0;
+    }
+    return photoMs > 0 ? photoMs / workers : undefined;
+  }
+
+  /** Expected duration of a run-wide phase, scaled by the photo count */
+  function expectedTailMs(phase: TimedPhase): number | undefined {
+    const past = previous?.phases[phase];
+    if (!past || !previous?.photoCount) return undefined;
+    return past.meanMs * (photoCount / previous.photoCount);
+  }
+
+  function eta(completedPhotos: number): number | undefined {
+    const remaining = Math.max(0, photoCount - completedPhotos);
+    let ms = 0;
+    if (remaining > 0) {
+      const perPhoto = msPerPhoto();
+      if (perPhoto === undefined) return undefined;
+      ms += remaining * perPhoto;
+    }
+
+    for (const phase of tailPhases) {
+      if (spans.some((s) => s.phase === phase)) continue;
+      const expected = expectedTailMs(phase);
+      if (expected === undefined) {
+        // Nothing known about the phase we're in — don't guess
+        if (remaining === 0) return undefined;
+        continue;
+      }
+      const started = activeTail.get(phase);
+      ms += Math.max(
+        0,
+        expected - (started === undefined ? 0 : now() - started),
+      );
+    }
+    return Math.round(ms);
+  }
+
+  return {
+    begin(phase, photo) {
+      const start = now();
+      if (photo) photosStart ??= start;
+      else activeTail.set(phase, start);
+      return (nestedMs = 0) => {
+        activeTail.delete(phase);
+        addSpan(phase, start, Math.max(0, now() - start - nestedMs), photo);
+      };
+    },
+
+    record(phase, durationMs, photo) {
+      addSpan(phase, now() - durationMs, durationMs, photo);
+    },
+
+    photoDone() {
+      completions.push(now());
+      if (completions.length > ETA_WINDOW + 1) completions.shift();
+    },
+
+    eta,
+
+    percentage(completedPhotos) {
+      const remaining = eta(completedPhotos);
+      const elapsed = now();
+      const share =
+        remaining === undefined
+          ? completedPhotos / photoCount
+          : elapsed / (elapsed + remaining);
+      lastPercentage = Math.max(lastPercentage, Math.min(99, share * 100));
+      return Math.round(lastPercentage);
+    },
+
+    phaseDurations() {
+      const totals: Partial<Record<TimedPhase, number>> = {};
+      for (const span of spans) {
+        totals[span.phase] = (totals[span.phase] ?? 0) + span.durationMs;
+      }
+      return totals;
+    },
+
+    report(meta) {
+      const phases: RunTimingReport["phases"] = {};
+      for (const span of spans) {
+        const entry = (phases[span.phase] ??= {
+          count: 0,
+          totalMs: 0,
+          meanMs: 0,
+        });
+        entry.count++;
+        entry.totalMs += span.durationMs;
+        entry.meanMs = Math.round(entry.totalMs / entry.count);
+      }
+      return {
+        startedAt,
+        totalMs: Math.round(now()),
+        photoCount,
+        ...meta,
+        phases,
+        spans: [...spans],
+      };
+    },
+  };
+}
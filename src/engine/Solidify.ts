@@ -0,0 +1,452 @@
+/**
+ * Solidify.ts
+ *
+ * Closes a single-sided depth surface into a watertight solid for 3D
+ * printing. Holes cut by stretch removal and confidence dropping are
+ * filled, each outer boundary — including the edge-margin cut — gets side
+ * walls running back along the camera rays, and a flat base closes the
+ * solid below the deepest point.
+ *
+ * Depth surfaces are height fields over their UVs, so every loop is
+ * triangulated in UV space, where it cannot fold over itself. Walls follow
+ * the rays out of the camera for the same reason: the base outline is the
+ * boundary seen from the camera, projected onto the base plane.
+ *
+ * Slicers reject anything that is not manifold, so exports run
+ * `assertManifold` on each solid before writing it.
+ */
+
+import {
+  BufferGeometry,
+  Float32BufferAttribute,
+  ShapeUtils,
+  Vector2,
+} from "three";
+import type { CameraPose } from "../types";
+import { NonManifoldError } from "./Errors";
+
+// ---------- Types ----------
+
+export interface SolidifyOptions {
+  /** Base below the deepest point, as a fraction of the relief depth */
+  baseThickness?: number;
+  /**
+   * Camera the surface was built from; walls follow its rays. Without one
+   * they drop straight down -Z.
+   */
+  camera?: CameraPose;
+}
+
+export interface ManifoldReport {
+  /** Edges with a face on one side only — openings in the solid */
+  openEdges: number;
+  /** Edges shared by more than two faces, or by two wound the same way */
+  nonManifoldEdges: number;
+}
+
+/** Base thickness when the caller doesn't set one */
+export const DEFAULT_BASE_THICKNESS = 0.1;
+
+// ---------- Half-edges ----------
+
+/**
+ * Outgoing half-edges of every vertex in CSR layout. Half-edge `h` is
+ * corner h % 3 of face ⌊h / 3⌋ and runs from faces[h] to the next corner.
+ */
+interface HalfEdges {
+  faces: Uint32Array;
+  start: Uint32Array;
+  outgoing: Uint32Array;
+}
+
+function buildHalfEdges(faces: Uint32Array, vertexCount: number): HalfEdges {
+  const start = new Uint32Array(vertexCount + 1);
+  for (let h = 0; h < faces.length; h++) start[faces[h] + 1]++;
+  for (let v = 0; v < vertexCount; v++) start[v + 1] += start[v];
+
+  const fill = start.slice(0, vertexCount);
+  const outgoing = new Uint32Array(faces.length);
+  for (let h = 0; h < faces.length; h++) outgoing[fill[faces[h]]++] = h;
+  return { faces, start, outgoing };
+}
+
+function nextHalfEdge(h: number): number {
+  return h % 3 === 2 ? h - 2 : h + 1;
+}
+
+function halfEdgeTarget(edges: HalfEdges, h: number): number {
+  return edges.faces[nextHalfEdge(h)];
+}
+
+/** A half-edge from `from` to `to` other than `except`, or -1 */
+function findHalfEdge(
+  edges: HalfEdges,
+  from: number,
+  to: number,
+  except = -1,
+): number {
+  for (let j = edges.start[from]; j < edges.start[from + 1]; j++) {
+    const h = edges.outgoing[j];
+    if (h !== except && halfEdgeTarget(edges, h) === to) return h;
+  }
+  return -1;
+}
+
+function faceIndex(geometry: BufferGeometry): Uint32Array {
+  const index = geometry.index;
+  if (index) return Uint32Array.from(index.array);
+  const count = geometry.getAttribute("position").count;
+  return Uint32Array.from({ length: count - (count % 3) }, (_, i) => i);
+}
+
+// ---------- Validation ----------
+
+/** Counts the edges that keep a mesh from being a closed 2-manifold */
+export function checkManifold(geometry: BufferGeometry): ManifoldReport {
+  const faces = faceIndex(geometry);
+  const edges = buildHalfEdges(faces, geometry.getAttribute("position").count);
+
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  for (let h = 0; h < faces.length; h++) {
+    const from = faces[h];
+    const to = halfEdgeTarget(edges, h);
+    const duplicate = findHalfEdge(edges, from, to, h);
+    if (duplicate >= 0) {
+      if (duplicate < h) nonManifoldEdges++;
+    } else if (findHalfEdge(edges, to, from) < 0) {
+      openEdges++;
+    }
+  }
+  return { openEdges, nonManifoldEdges };
+}
+
+/** Throws NonManifoldError unless every edge joins exactly two faces */
+export function assertManifold(geometry: BufferGeometry, name: string): void {
+  const report = checkManifold(geometry);
+  if (report.openEdges > 0 || report.nonManifoldEdges > 0) {
+    throw new NonManifoldError(name, report);
+  }
+}
+
+// ---------- Solidify ----------
+
+/**
+ * A closed solid built from a depth surface: filled holes, side walls and
+ * a flat base. Returns positions and an index only; the source is left
+ * untouched.
+ */
+export function solidifyMesh(
+  source: BufferGeometry,
+  { baseThickness = DEFAULT_BASE_THICKNESS, camera }: SolidifyOptions = {},
+): BufferGeometry {
+  const mesh = extractSurface(source);
+  splitPinchedVertices(mesh);
+
+  const vertexCount = mesh.positions.length / 3;
+  const edges = buildHalfEdges(Uint32Array.from(mesh.faces), vertexCount);
+  const loops = boundaryLoops(edges, vertexCount);
+
+  // The surface's winding in UV space tells outer boundaries from holes
+  let surfaceArea = 0;
+  for (let f = 0; f < mesh.faces.length; f += 3) {
+    surfaceArea += polygonArea(mesh, mesh.faces, f, f + 3);
+  }
+  const orientation = surfaceArea < 0 ? -1 : 1;
+
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  for (let i = 2; i < mesh.positions.length; i += 3) {
+    minZ = Math.min(minZ, mesh.positions[i]);
+    maxZ = Math.max(maxZ, mesh.positions[i]);
+  }
+  const baseZ = minZ - baseThickness * (maxZ - minZ || 1);
+  const eye =
+    camera?.projection === "perspective" && camera.matrix[14] > maxZ
+      ? camera.matrix.slice(12, 15)
+      : null;
+
+  for (const loop of loops) {
+    if (signedArea(mesh, loop) * orientation < 0) {
+      fillLoop(mesh, loop, edges);
+      continue;
+    }
+
+    const base = loop.map((v) => {
+      let x = mesh.positions[v * 3];
+      let y = mesh.positions[v * 3 + 1];
+      if (eye) {
+        const s = (baseZ - eye[2]) / (mesh.positions[v * 3 + 2] - eye[2]);
+        x = eye[0] + (x - eye[0]) * s;
+        y = eye[1] + (y - eye[1]) * s;
+      }
+      return addVertex(
+        mesh,
+        x,
+        y,
+        baseZ,
+        mesh.params[v * 2],
+        mesh.params[v * 2 + 1],
+      );
+    });
+
+    for (let i = 0; i < loop.length; i++) {
+      const j = (i + 1) % loop.length;
+      mesh.faces.push(loop[j], loop[i], base[i], loop[j], base[i], base[j]);
+    }
+    fillLoop(mesh, base, edges);
+  }
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new Float32BufferAttribute(mesh.positions, 3),
+  );
+  geometry.setIndex(mesh.faces);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/** Vertices with 2D parameters (UV, or XY without UVs) and faces */
+interface SurfaceMesh {
+  positions: number[];
+  params: number[];
+  faces: number[];
+}
+
+function addVertex(
+  mesh: SurfaceMesh,
+  x: number,
+  y: number,
+  z: number,
+  u: number,
+  v: number,
+): number {
+  mesh.positions.push(x, y, z);
+  mesh.params.push(u, v);
+  return mesh.params.length / 2 - 1;
+}
+
+/**
+ * Referenced vertices and faces of `source`, without degenerate faces or
+ * faces repeating an edge in the same direction as an earlier one.
+ */
+function extractSurface(source: BufferGeometry): SurfaceMesh {
+  const position = source.getAttribute("position");
+  const uv = source.getAttribute("uv");
+  const sourceFaces = faceIndex(source);
+  const mesh: SurfaceMesh = { positions: [], params: [], faces: [] };
+
+  const edges = buildHalfEdges(sourceFaces, position.count);
+  const kept = new Uint8Array(sourceFaces.length / 3);
+  const remap = new Int32Array(position.count).fill(-1);
+
+  for (let f = 0; f < kept.length; f++) {
+    const a = sourceFaces[f * 3];
+    const b = sourceFaces[f * 3 + 1];
+    const c = sourceFaces[f * 3 + 2];
+    if (a === b || b === c || c === a) continue;
+
+    let clashes = false;
+    for (let h = f * 3; h < f * 3 + 3 && !clashes; h++) {
+      const to = halfEdgeTarget(edges, h);
+      for (
+        let j = edges.start[sourceFaces[h]];
+        j < edges.start[sourceFaces[h] + 1];
+        j++
+      ) {
+        const other = edges.outgoing[j];
+        if (
+          other < f * 3 &&
+          kept[Math.floor(other / 3)] &&
+          halfEdgeTarget(edges, other) === to
+        ) {
+          clashes = true;
+          break;
+        }
+      }
+    }
+    if (clashes) continue;
+
+    kept[f] = 1;
+    for (const v of [a, b, c]) {
+      if (remap[v] < 0) {
+        remap[v] = addVertex(
+          mesh,
+          position.getX(v),
+          position.getY(v),
+          position.getZ(v),
+          uv ? uv.getX(v) : position.getX(v),
+          uv ? uv.getY(v) : position.getY(v),
+        );
+      }
+      mesh.faces.push(remap[v]);
+    }
+  }
+  return mesh;
+}
+
+/**
+ * Gives each fan of faces around a vertex its own copy of the vertex.
+ * Dropped faces often leave two fans touching at a single vertex, which
+ * is not manifold and would let two boundary loops cross there.
+ */
+function splitPinchedVertices(mesh: SurfaceMesh): void {
+  const faces = Uint32Array.from(mesh.faces);
+  const vertexCount = mesh.positions.length / 3;
+  const edges = buildHalfEdges(faces, vertexCount);
+
+  // Union-find over corners; corners of a vertex joined across an edge
+  // belong to the same fan
+  const parent = Int32Array.from({ length: faces.length }, (_, i) => i);
+  const find = (h: number): number => {
+    while (parent[h] !== h) {
+      parent[h] = parent[parent[h]];
+      h = parent[h];
+    }
+    return h;
+  };
+
+  for (let h = 0; h < faces.length; h++) {
+    const twin = findHalfEdge(edges, halfEdgeTarget(edges, h), faces[h]);
+    if (twin < 0) continue;
+    // The twin's next half-edge starts at this half-edge's origin
+    const a = find(h);
+    const b = find(nextHalfEdge(twin));
+    if (a !== b) parent[a] = b;
+  }
+
+  const owner = new Uint8Array(vertexCount);
+  const fanVertex = new Int32Array(faces.length).fill(-1);
+  for (let h = 0; h < faces.length; h++) {
+    const root = find(h);
+    const v = faces[h];
+    if (fanVertex[root] < 0) {
+      if (!owner[v]) {
+        owner[v] = 1;
+        fanVertex[root] = v;
+      } else {
+        fanVertex[root] = addVertex(
+          mesh,
+          mesh.positions[v * 3],
+          mesh.positions[v * 3 + 1],
+          mesh.positions[v * 3 + 2],
+          mesh.params[v * 2],
+          mesh.params[v * 2 + 1],
+        );
+      }
+    }
+    mesh.faces[h] = fanVertex[root];
+  }
+}
+
+/** Closed loops of half-edges with no twin, in face winding order */
+function boundaryLoops(edges: HalfEdges, vertexCount: number): number[][] {
+  const next = new Int32Array(vertexCount).fill(-1);
+  for (let h = 0; h < edges.faces.length; h++) {
+    const from = edges.faces[h];
+    const to = halfEdgeTarget(edges, h);
+    if (findHalfEdge(edges, to, from) < 0) next[from] = to;
+  }
+
+  const loops: number[][] = [];
+  const visited = new Uint8Array(vertexCount);
+  for (let start = 0; start < vertexCount; start++) {
+    if (next[start] < 0 || visited[start]) continue;
+    const loop: number[] = [];
+    let v = start;
+    while (v >= 0 && !visited[v]) {
+      visited[v] = 1;
+      loop.push(v);
+      v = next[v];
+    }
+    // Open chains can't be closed; validation reports their edges
+    if (v === start && loop.length >= 3) loops.push(loop);
+  }
+  return loops;
+}
+
+/** Signed area of a polygon in parameter space */
+function signedArea(mesh: SurfaceMesh, polygon: number[]): number {
+  return polygonArea(mesh, polygon, 0, polygon.length);
+}
+
+/** Signed area of vertices `start` to `end` of `indices`, as one polygon */
+function polygonArea(
+  mesh: SurfaceMesh,
+  indices: number[],
+  start: number,
+  end: number,
+): number {
+  const { params } = mesh;
+  let area = 0;
+  for (let i = start; i < end; i++) {
+    const a = indices[i] * 2;
+    const b = indices[i + 1 < end ? i + 1 : start] * 2;
+    area += params[a] * params[b + 1] - params[b] * params[a + 1];
+  }
+  return area / 2;
+}
+
+/** Whether the surface already joins `a` and `b`, in either direction */
+function surfaceEdge(edges: HalfEdges, a: number, b: number): boolean {
+  const vertexCount = edges.start.length - 1;
+  if (a >= vertexCount || b >= vertexCount) return false;
+  return findHalfEdge(edges, a, b) >= 0 || findHalfEdge(edges, b, a) >= 0;
+}
+
+/**
+ * Closes a boundary loop with faces wound against it, so each of its
+ * half-edges gets a twin. Loops that don't triangulate cleanly — pinched
+ * or degenerate ones, or ones whose diagonals the surface already joins
+ * elsewhere — are closed with a fan around their centroid.
+ */
+function fillLoop(mesh: SurfaceMesh, loop: number[], edges: HalfEdges): void {
+  const contour = loop.map(
+    (v) => new Vector2(mesh.params[v * 2], mesh.params[v * 2 + 1]),
+  );
+  const triangles = ShapeUtils.triangulateShape(contour, []);
+
+  if (triangles.length === loop.length - 2) {
+    const stride = mesh.params.length / 2;
+    const patch = new Set<number>();
+    for (const [a, b, c] of triangles) {
+      patch.add(loop[a] * stride + loop[b]);
+      patch.add(loop[b] * stride + loop[c]);
+      patch.add(loop[c] * stride + loop[a]);
+    }
+    // Earcut winds all its triangles alike; flip them to oppose the loop
+    const flip = patch.has(loop[0] * stride + loop[1]);
+    const closes = loop.every((v, i) => {
+      const w = loop[(i + 1) % loop.length];
+      return patch.has(flip ? v * stride + w : w * stride + v);
+    });
+    // A diagonal the surface already has would give that edge four faces
+    const adjacent = (a: number, b: number) =>
+      Math.abs(a - b) === 1 || Math.abs(a - b) === loop.length - 1;
+    const reused = triangles.some((triangle) =>
+      triangle.some((a, k) => {
+        const b = triangle[(k + 1) % 3];
+        return !adjacent(a, b) && surfaceEdge(edges, loop[a], loop[b]);
+      }),
+    );
+    if (closes && !reused) {
+      for (const [a, b, c] of triangles) {
+        if (flip) mesh.faces.push(loop[a], loop[c], loop[b]);
+        else mesh.faces.push(loop[a], loop[b], loop[c]);
+      }
+      return;
+    }
+  }
+
+  const centroid = [0, 0, 0, 0, 0];
+  for (const v of loop) {
+    for (let k = 0; k < 3; k++) centroid[k] += mesh.positions[v * 3 + k];
+    for (let k = 0; k < 2; k++) centroid[3 + k] += mesh.params[v * 2 + k];
+  }
+  const [x, y, z, u, v] = centroid.map((sum) => sum / loop.length);
+  const center = addVertex(mesh, x, y, z, u, v);
+  for (let i = 0; i < loop.length; i++) {
+    mesh.faces.push(loop[(i + 1) % loop.length], loop[i], center);
+  }
+}
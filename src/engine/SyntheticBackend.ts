@@ -0,0 +1,221 @@
+/**
+ * SyntheticBackend.ts
+ *
+ * Deterministic, download-free depth backend. Instead of running a network
+ * it ray-casts a simple procedural scene through a pinhole camera matching
+ * the photo's aspect ratio, so the whole upload → mesh → viewer pipeline can
+ * be exercised offline on a CPU-only machine. Output follows the same
+ * conventions as Depth Anything: relative inverse depth (higher = nearer),
+ * or distances in meters for the metric modes.
+ */
+
+import type {
+  DepthBackend,
+  DepthModelSpec,
+  DepthRegion,
+  DepthView,
+  RawDepthOutput,
+} from "./DepthBackend";
+
+export type SyntheticScene = "gradient" | "plane" | "box-room";
+
+interface Box {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+// Long side of the generated map — roughly what the ONNX models produce
+const NATIVE_SIZE = 518;
+const HORIZONTAL_FOV = 60;
+const FAR_DISTANCE = 30;
+const CAMERA_HEIGHT = 1.6;
+
+// Interior used by the "box-room" scene (meters, camera looks down -Z)
+const ROOM: Box = { min: [-4, 0, -10], max: [4, 3.2, 0.5] };
+const ROOM_PROPS: Box[] = [
+  { min: [-3, 0, -10], max: [3, 0.8, -7.5] }, // stage
+  { min: [-1.2, 0, -4.5], max: [-0.2, 0.75, -3.5] }, // table
+  { min: [1.5, 0, -6], max: [2.1, 1.9, -5.4] }, // speaker stack
+];
+
+const FULL_FRAME: DepthRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * Generates a depth map for one of the built-in scenes — relative inverse
+ * depth by default, or metric distances when `metric` is set. `width` and
+ * `height` are the size of the generated map, which covers `region` of the
+ * frame.
+ */
+export function generateSyntheticDepth(
+  scene: SyntheticScene,
+  width: number,
+  height: number,
+  metric: boolean = false,
+  region: DepthRegion = FULL_FRAME,
+): Float32Array {
+  const out = new Float32Array(width * height);
+  const aspect = width / region.width / (height / region.height);
+  const tanX = Math.tan((HORIZONTAL_FOV * Math.PI) / 180 / 2);
+  const tanY = tanX / aspect;
+  const pitch = scene === "plane" ? -0.35 : -0.12;
+  const cosP = Math.cos(pitch);
+  const sinP = Math.sin(pitch);
+
+  for (let y = 0; y < height; y++) {
+    const v = region.y + ((y + 0.5) / height) * region.height;
+    for (let x = 0; x < width; x++) {
+      const u = region.x + ((x + 0.5) / width) * region.width;
+
+      let distance: number;
+      if (scene === "gradient") {
+        distance = 1 + 9 * (1 - v);
+      } else {
+        // Camera ray, pitched around the X axis
+        const rx = (u - 0.5) * 2 * tanX;
+        const ryCam = (0.5 - v) * 2 * tanY;
+        const ry = ryCam * cosP + sinP;
+        const rz = ryCam * sinP - cosP;
+        const len = Math.sqrt(rx * rx + ry * ry + rz * rz);
+        const dir: [number, number, number] = [rx / len, ry / len, rz / len];
+        const origin: [number, number, number] = [0, CAMERA_HEIGHT, 0];
+
+        distance =
+          scene === "plane"
+            ? castGroundPlane(origin, dir)
+            : castBoxRoom(origin, dir);
+      }
+
+      out[y * width + x] = metric ? distance : 1 / Math.max(distance, 0.1);
+    }
+  }
+
+  return out;
+}
+
+function castGroundPlane(
+  origin: [number, number, number],
+  dir: [number, number, number],
+): number {
+  // Ground at y = 0, back wall at z = -12
+  let t = FAR_DISTANCE;
+  if (dir[1] < 0) t = Math.min(t, -origin[1] / dir[1]);
+  if (dir[2] < 0) t = Math.min(t, (-12 - origin[2]) / dir[2]);
+  return t;
+}
+
+function castBoxRoom(
+  origin: [number, number, number],
+  dir: [number, number, number],
+): number {
+  // Exit distance from inside the room
+  let t = FAR_DISTANCE;
+  for (let axis = 0; axis < 3; axis++) {
+    if (dir[axis] > 0) {
+      t = Math.min(t, (ROOM.max[axis] - origin[axis]) / dir[axis]);
+    } else if (dir[axis] < 0) {
+      t = Math.min(t, (ROOM.min[axis] - origin[axis]) / dir[axis]);
+    }
+  }
+
+  for (const box of ROOM_PROPS) {
+    const hit = intersectBox(origin, dir, box);
+    if (hit !== null && hit < t) t = hit;
+  }
+
+  return t;
+}
+
+/**
+ * Slab-method ray/AABB intersection. Returns the entry distance or null.
+ */
+function intersectBox(
+  origin: [number, number, number],
+  dir: [number, number, number],
+  box: Box,
+): number | null {
+  let tMin = 0;
+  let tMax = Infinity;
+  for (let axis = 0; axis < 3; axis++) {
+    if (Math.abs(dir[axis]) < 1e-9) {
+      if (origin[axis] < box.min[axis] || origin[axis] > box.max[axis]) {
+        return null;
+      }
+      continue;
+    }
+    const t1 = (box.min[axis] - origin[axis]) / dir[axis];
+    const t2 = (box.max[axis] - origin[axis]) / dir[axis];
+    tMin = Math.max(tMin, Math.min(t1, t2));
+    tMax = Math.min(tMax, Math.max(t1, t2));
+    if (tMin > tMax) return null;
+  }
+  return tMin;
+}
+
+/**
+ * Reads an image's natural size without touching the DOM, so it also
+ * works inside a Worker.
+ */
+async function readImageSize(
+  imageUrl: string,
+): Promise<{ width: number; height: number }> {
+  const response = await fetch(imageUrl);
+  const bitmap = await createImageBitmap(await response.blob());
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+}
+
+export function createSyntheticBackend(
+  scene: SyntheticScene = "box-room",
+): DepthBackend {
+  let currentSpec: DepthModelSpec | null = null;
+
+  return {
+    capabilities: {
+      id: "synthetic",
+      label: "Sentetik (çevrimdışı)",
+      requiresDownload: false,
+      workerSafe: true,
+      modelSizes: ["small", "base", "large"],
+      depthModes: ["relative", "metric-indoor", "metric-outdoor"],
+    },
+
+    isLoaded: () => currentSpec !== null,
+
+    loadedSpec: () => currentSpec,
+
+    async load(spec, onProgress) {
+      currentSpec = { ...spec };
+      onProgress?.("Sentetik derinlik üreteci hazır (çevrimdışı)");
+      return "cpu";
+    },
+
+    async estimate(imageUrl, view: DepthView = {}): Promise<RawDepthOutput> {
+      if (!currentSpec)
+        throw new Error("Model not loaded. Call loadModel() first.");
+
+      // The scene is rendered directly in output orientation, so `flipX`
+      // needs no work here; `inputScale` changes the sampling density
+      const region = view.region ?? FULL_FRAME;
+      const size = await readImageSize(imageUrl);
+      const cropW = size.width * region.width;
+      const cropH = size.height * region.height;
+      const nativeSize = NATIVE_SIZE * (view.inputScale ?? 1);
+      const scale = Math.min(1, nativeSize / Math.max(cropW, cropH));
+      const width = Math.max(1, Math.round(cropW * scale));
+      const height = Math.max(1, Math.round(cropH * scale));
+
+      const metric = currentSpec.depthMode !== "relative";
+      return {
+        data: generateSyntheticDepth(scene, width, height, metric, region),
+        width,
+        height,
+        encoding: metric ? "metric" : "disparity",
+      };
+    },
+
+    async dispose() {
+      currentSpec = null;
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * TestTimeAugmentation.ts
+ *
+ * Optional test-time augmentation (TTA). Besides the plain pass, depth is
+ * estimated on a horizontally mirrored input and at a smaller and a larger
+ * network input size. Every pass is aligned to the plain one (scale +
+ * shift) and the passes are averaged; the per-pixel variance between them
+ * marks regions where the model is unstable, e.g. asymmetric artifacts on
+ * symmetrical stages.
+ */
+
+import type { DepthView, RawDepthOutput } from "./DepthBackend";
+import { fitScaleShift, sampleBilinear } from "./TiledInference";
+
+/** Augmented views — the first one is the reference the others align to */
+export const TTA_VIEWS: DepthView[] = [
+  {},
+  { flipX: true },
+  { inputScale: 0.75 },
+  { inputScale: 1.25 },
+];
+
+/**
+ * Runs `runPass` once per TTA view and merges the results into the
+ * per-pixel mean, with the variance across passes in `variance`.
+ */
+export async function estimateWithTTA(
+  runPass: (view: DepthView) => Promise<RawDepthOutput>,
+  onPass?: (done: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<RawDepthOutput> {
+  const reference = await runPass(TTA_VIEWS[0]);
+  signal?.throwIfAborted();
+  onPass?.(1, TTA_VIEWS.length);
+
+  const { width, height } = reference;
+  const sum = Float32Array.from(reference.data);
+  const sumSq = new Float32Array(sum.length);
+  for (let i = 0; i < sum.length; i++) sumSq[i] = sum[i] * sum[i];
+
+  for (let p = 1; p < TTA_VIEWS.length; p++) {
+    const pass = await runPass(TTA_VIEWS[p]);
+    signal?.throwIfAborted();
+    const { scale, shift } = fitScaleShift(pass, reference);
+    const sameSize = pass.width === width && pass.height === height;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const raw = sameSize
+          ? pass.data[i]
+          : sampleBilinear(pass, (x + 0.5) / width, (y + 0.5) / height);
+        const value = scale * raw + shift;
+        sum[i] += value;
+        sumSq[i] += value * value;
+      }
+    }
+
+    onPass?.(p + 1, TTA_VIEWS.length);
+  }
+
+  const n = TTA_VIEWS.length;
+  const mean = new Float32Array(sum.length);
+  const variance = new Float32Array(sum.length);
+  for (let i = 0; i < sum.length; i++) {
+    mean[i] = sum[i] / n;
+    variance[i] = Math.max(0, sumSq[i] / n - mean[i] * mean[i]);
+  }
+
+  return {
+    data: mean,
+    width,
+    height,
+    encoding: reference.encoding,
+    variance,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * TiledInference.ts
+ *
+ * High-resolution depth from overlapping crops. The backend first runs on
+ * the whole image (global pass), then on a grid of tiles at its native
+ * input size. Relative models normalize every input on their own, so each
+ * tile is fitted to the global pass with a least-squares scale + shift
+ * before the tiles are blended with feathered weights across the overlaps.
+ */
+
+import type {
+  DepthBackend,
+  DepthRegion,
+  DepthView,
+  RawDepthOutput,
+} from "./DepthBackend";
+
+/** Fraction of a tile shared with each neighbour */
+const TILE_OVERLAP = 0.25;
+// Sample every n-th tile pixel when fitting scale/shift
+const FIT_STRIDE = 4;
+const EDGE_EPSILON = 1e-6;
+const FULL_FRAME: DepthRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * Splits the frame into `grid` × `grid` overlapping tiles.
+ */
+export function computeTileRegions(
+  grid: number,
+  overlap: number = TILE_OVERLAP,
+): DepthRegion[] {
+  const size = 1 / (grid - (grid - 1) * overlap);
+  const step = size * (1 - overlap);
+  const regions: DepthRegion[] = [];
+
+  for (let ty = 0; ty < grid; ty++) {
+    for (let tx = 0; tx < grid; tx++) {
+      regions.push({
+        x: Math.min(tx * step, 1 - size),
+        y: Math.min(ty * step, 1 - size),
+        width: size,
+        height: size,
+      });
+    }
+  }
+  return regions;
+}
+
+/**
+ * Runs the backend on the whole image plus a `grid` × `grid` set of tiles
+ * and returns the fused map. `grid` ≤ 1 is a single full-frame pass.
+ * `view` (flip, input scale) applies to every pass. `signal` is checked
+ * after every pass. The fused map's longest side is capped at
+ * `maxResolution`, the most refinement keeps.
+ */
+export async function estimateTiled(
+  backend: DepthBackend,
+  imageUrl: string,
+  grid: number,
+  onTile?: (done: number, total: number) => void,
+  view: Omit<DepthView, "region"> = {},
+  signal?: AbortSignal,
+  maxResolution: number = Infinity,
+): Promise<RawDepthOutput> {
+  const global = await backend.estimate(imageUrl, view);
+  signal?.throwIfAborted();
+  if (grid <= 1) return global;
+
+  const regions = computeTileRegions(grid);
+  let fused: Float32Array | null = null;
+  let weights: Float32Array | null = null;
+  let outW = 0;
+  let outH = 0;
+
+  for (let t = 0; t < regions.length; t++) {
+    const region = regions[t];
+    const tile = await backend.estimate(imageUrl, { ...view, region });
+    signal?.throwIfAborted();
+
+    // The first tile sets the working resolution: its size per unit of crop
+    // is the resolution the grid of tiles covers the photo at, which grows
+    // with the grid and with the backend's output size. The fused map is
+    // capped at `maxResolution`, as refinement resizes to it anyway
+    if (!fused || !weights) {
+      const fullW = tile.width / region.width;
+      const fullH = tile.height / region.height;
+      const scale = Math.min(1, maxResolution / Math.max(fullW, fullH));
+      outW = Math.max(1, Math.round(fullW * scale));
+      outH = Math.max(1, Math.round(fullH * scale));
+      fused = new Float32Array(outW * outH);
+      weights = new Float32Array(outW * outH);
+    }
+
+    const { scale, shift } = fitScaleShift(tile, global, region);
+
+    // Tile footprint in output pixels
+    const x0 = Math.round(region.x * outW);
+    const y0 = Math.round(region.y * outH);
+    const tw = Math.min(Math.round(region.width * outW), outW - x0);
+    const th = Math.min(Math.round(region.height * outH), outH - y0);
+    const featherX = Math.max(1, tw * TILE_OVERLAP);
+    const featherY = Math.max(1, th * TILE_OVERLAP);
+
+    // No ramp on sides that touch the frame border
+    const rampLeft = region.x > EDGE_EPSILON;
+    const rampRight = region.x + region.width < 1 - EDGE_EPSILON;
+    const rampTop = region.y > EDGE_EPSILON;
+    const rampBottom = region.y + region.height < 1 - EDGE_EPSILON;
+
+    for (let py = 0; py < th; py++) {
+      const wTop = rampTop ? Math.min(1, (py + 0.5) / featherY) : 1;
+      const wBottom = rampBottom ? Math.min(1, (th - py - 0.5) / featherY) : 1;
+      const v = (py + 0.5) / th;
+
+      for (let px = 0; px < tw; px++) {
+        const wLeft = rampLeft ? Math.min(1, (px + 0.5) / featherX) : 1;
+        const wRight = rampRight ? Math.min(1, (tw - px - 0.5) / featherX) : 1;
+        const w = wTop * wBottom * wLeft * wRight;
+
+        const value = sampleBilinear(tile, (px + 0.5) / tw, v);
+        const o = (y0 + py) * outW + (x0 + px);
+        fused[o] += w * (scale * value + shift);
+        weights[o] += w;
+      }
+    }
+
+    onTile?.(t + 1, regions.length);
+  }
+
+  if (!fused || !weights) return global;
+
+  // Normalize; pixels missed by rounding fall back to the global pass
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      const o = y * outW + x;
+      fused[o] =
+        weights[o] > 0
+          ? fused[o] / weights[o]
+          : sampleBilinear(global, (x + 0.5) / outW, (y + 0.5) / outH);
+    }
+  }
+
+  return { data: fused, width: outW, height: outH, encoding: global.encoding };
+}
+
+/**
+ * Least-squares scale/shift mapping `source` values onto `target`, where
+ * the source covers `region` of the target (a tile of the global pass, or
+ * an augmented pass of the whole frame).
+ */
+export function fitScaleShift(
+  source: RawDepthOutput,
+  target: RawDepthOutput,
+  region: DepthRegion = FULL_FRAME,
+): { scale: number; shift: number } {
+  let n = 0;
+  let sumT = 0;
+  let sumG = 0;
+  let sumTT = 0;
+  let sumTG = 0;
+  let sumGG = 0;
+
+  for (let y = 0; y < source.height; y += FIT_STRIDE) {
+    const v = region.y + ((y + 0.5) / source.height) * region.height;
+    for (let x = 0; x < source.width; x += FIT_STRIDE) {
+      const u = region.x + ((x + 0.5) / source.width) * region.width;
+      const t = source.data[y * source.width + x];
+      const g = sampleBilinear(target, u, v);
+      n++;
+      sumT += t;
+      sumG += g;
+      sumTT += t * t;
+      sumTG += t * g;
+      sumGG += g * g;
+    }
+  }
+
+  if (n === 0) return { scale: 1, shift: 0 };
+
+  const meanT = sumT / n;
+  const meanG = sumG / n;
+  const varT = sumTT / n - meanT * meanT;
+  const varG = sumGG / n - meanG * meanG;
+  const cov = sumTG / n - meanT * meanG;
+
+  // Flat source — only the offset is observable
+  if (varT < 1e-12) return { scale: 0, shift: meanG };
+
+  // A negative fit means the source disagrees with the target; keep its
+  // shape and match spread instead of flipping it
+  const scale = cov > 0 ? cov / varT : Math.sqrt(Math.max(varG, 0) / varT);
+  return { scale, shift: meanG - scale * meanT };
+}
+
+/**
+ * Bilinear lookup at normalized (u, v) in [0, 1], pixel centers at +0.5.
+ */
+export function sampleBilinear(
+  map: RawDepthOutput,
+  u: number,
+  v: number,
+): number {
+  const { data, width, height } = map;
+  const fx = Math.min(Math.max(u * width - 0.5, 0), width - 1);
+  const fy = Math.min(Math.max(v * height - 0.5, 0), height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const top = data[y0 * width + x0] * (1 - tx) + data[y0 * width + x1] * tx;
+  const bottom = data[y1 * width + x0] * (1 - tx) + data[y1 * width + x1] * tx;
+  return top * (1 - ty) + bottom * ty;
+}
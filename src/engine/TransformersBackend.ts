@@ -0,0 +1,319 @@
+/**
+ * TransformersBackend.ts
+ *
+ * Depth Anything V2 via `@huggingface/transformers` (ONNX Runtime Web).
+ * The library is imported dynamically on first load so that offline
+ * backends never pull in the transformers chunk.
+ */
+
+import type { DepthMode, ModelDtype, ModelSize } from "../types";
+import type { RawImage } from "@huggingface/transformers";
+import type {
+  DepthBackend,
+  DepthModelSpec,
+  DepthView,
+  RawDepthOutput,
+} from "./DepthBackend";
+
+interface DepthPipelineOutput {
+  /** Raw prediction resized to the input image (meters for metric checkpoints) */
+  predicted_depth: { data: ArrayLike<number>; dims: number[] };
+  /** Min-max normalized 8-bit visualisation */
+  depth: { data: ArrayLike<number>; width: number; height: number };
+}
+
+type DepthPipeline = ((
+  input: string | RawImage,
+) => Promise<DepthPipelineOutput | DepthPipelineOutput[]>) & {
+  /** Releases the ONNX sessions (WASM heap, WebGPU buffers) */
+  dispose(): Promise<unknown>;
+};
+
+/** The parts of the pipeline object used to change the network input size */
+interface PipelineInternals {
+  processor?: {
+    image_processor?: { size?: { width: number; height: number } };
+  };
+}
+
+interface PipelineProgress {
+  status: string;
+  progress?: number;
+}
+
+/** Self-hosted model root, served by nginx next to the app */
+export const LOCAL_MODEL_PATH = "/models/";
+
+export const MODEL_MAP: Record<ModelSize, string> = {
+  small: "onnx-community/depth-anything-v2-small",
+  base: "onnx-community/depth-anything-v2-base",
+  large: "onnx-community/depth-anything-v2-large",
+};
+
+export const METRIC_MODEL_MAP: Record<
+  Exclude<DepthMode, "relative">,
+  Record<ModelSize, string>
+> = {
+  "metric-indoor": {
+    small: "onnx-community/depth-anything-v2-metric-indoor-small",
+    base: "onnx-community/depth-anything-v2-metric-indoor-base",
+    large: "onnx-community/depth-anything-v2-metric-indoor-large",
+  },
+  "metric-outdoor": {
+    small: "onnx-community/depth-anything-v2-metric-outdoor-small",
+    base: "onnx-community/depth-anything-v2-metric-outdoor-base",
+    large: "onnx-community/depth-anything-v2-metric-outdoor-large",
+  },
+};
+
+/**
+ * Resolves the Hugging Face model id for a size / depth-mode combination.
+ */
+export function getModelId(spec: DepthModelSpec): string {
+  return spec.depthMode === "relative"
+    ? MODEL_MAP[spec.modelSize]
+    : METRIC_MODEL_MAP[spec.depthMode][spec.modelSize];
+}
+
+let activeDevice: "webgpu" | "wasm" = "wasm";
+let deviceDetected = false;
+
+/**
+ * Detects the best available ONNX runtime device.
+ * Prefers WebGPU for GPU-accelerated inference, falls back to WASM.
+ */
+export async function detectBestDevice(): Promise<"webgpu" | "wasm"> {
+  if (deviceDetected) return activeDevice;
+
+  try {
+    if (typeof navigator !== "undefined" && "gpu" in navigator) {
+      const gpu = (
+        navigator as unknown as { gpu?: { requestAdapter(): Promise<unknown> } }
+      ).gpu;
+      if (gpu) {
+        const adapter = await gpu.requestAdapter();
+        if (adapter) {
+          activeDevice = "webgpu";
+          deviceDetected = true;
+          return "webgpu";
+        }
+      }
+    }
+  } catch {
+    // WebGPU not available or failed — fall through to WASM
+  }
+
+  activeDevice = "wasm";
+  deviceDetected = true;
+  return "wasm";
+}
+
+/**
+ * Returns the last detected device without probing again.
+ */
+export function getDetectedDevice(): {
+  device: "webgpu" | "wasm";
+  detected: boolean;
+} {
+  return { device: activeDevice, detected: deviceDetected };
+}
+
+export function createTransformersBackend(): DepthBackend {
+  let depthPipeline: DepthPipeline | null = null;
+  let currentSpec: DepthModelSpec | null = null;
+  let currentDevice: "webgpu" | "wasm" = "wasm";
+  // Decoded source image, kept so the passes over one photo decode it once
+  let cachedImage: { url: string; image: RawImage } | null = null;
+
+  async function prepareInput(
+    imageUrl: string,
+    view: DepthView,
+  ): Promise<string | RawImage> {
+    if (!view.region && !view.flipX) return imageUrl;
+
+    const { RawImage } = await import("@huggingface/transformers");
+    if (cachedImage?.url !== imageUrl) {
+      cachedImage = { url: imageUrl, image: await RawImage.fromURL(imageUrl) };
+    }
+
+    let image = cachedImage.image;
+    if (view.region) {
+      const { region } = view;
+      const x0 = Math.round(region.x * image.width);
+      const y0 = Math.round(region.y * image.height);
+      const x1 = Math.round((region.x + region.width) * image.width);
+      const y1 = Math.round((region.y + region.height) * image.height);
+      // RawImage.crop bounds are inclusive
+      image = await image.crop([x0, y0, x1 - 1, y1 - 1]);
+    }
+    if (view.flipX) {
+      const { data, width, height, channels } = image;
+      const flipped = new Uint8ClampedArray(data.length);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const src = (y * width + x) * channels;
+          const dst = (y * width + (width - 1 - x)) * channels;
+          for (let c = 0; c < channels; c++) flipped[dst + c] = data[src + c];
+        }
+      }
+      image = new RawImage(flipped, width, height, channels);
+    }
+    return image;
+  }
+
+  /** Runs the pipeline with the processor's target size scaled by `scale` */
+  async function runScaled(
+    pipe: DepthPipeline,
+    input: string | RawImage,
+    scale: number,
+  ) {
+    const imageProcessor = (pipe as unknown as PipelineInternals).processor
+      ?.image_processor;
+    const nativeSize = imageProcessor?.size;
+    if (!imageProcessor || !nativeSize || scale === 1) return pipe(input);
+
+    // Keep the size a multiple of the ViT patch size (14)
+    const scaled = (n: number) =>
+      Math.max(14, Math.round((n * scale) / 14) * 14);
+    imageProcessor.size = {
+      width: scaled(nativeSize.width),
+      height: scaled(nativeSize.height),
+    };
+    try {
+      return await pipe(input);
+    } finally {
+      imageProcessor.size = nativeSize;
+    }
+  }
+
+  return {
+    capabilities: {
+      id: "transformers",
+      label: "Depth Anything V2 (ONNX)",
+      requiresDownload: true,
+      workerSafe: true,
+      modelSizes: ["small", "base", "large"],
+      depthModes: ["relative", "metric-indoor", "metric-outdoor"],
+    },
+
+    isLoaded: () => depthPipeline !== null,
+
+    loadedSpec: () => currentSpec,
+
+    async load(spec, onProgress) {
+      const modelId = getModelId(spec);
+      const dtype: ModelDtype = spec.dtype ?? "fp32";
+      // Auto-detect the best device unless one is requested
+      const device = spec.device ?? (await detectBestDevice());
+
+      // Reload if model size, depth mode, precision or device changed
+      if (
+        depthPipeline &&
+        currentSpec &&
+        getModelId(currentSpec) === modelId &&
+        (currentSpec.dtype ?? "fp32") === dtype &&
+        currentDevice === device
+      )
+        return currentDevice;
+
+      if (depthPipeline) {
+        try {
+          await depthPipeline.dispose();
+        } finally {
+          depthPipeline = null;
+          currentSpec = null;
+        }
+        onProgress?.("Yeni model yükleniyor...");
+      }
+
+      onProgress?.(
+        `AI model yükleniyor (${device === "webgpu" ? "GPU hızlandırmalı" : "WASM"})...`,
+      );
+
+      const { pipeline, env } = await import("@huggingface/transformers");
+      // Self-hosted files are tried first; the Hub stays as a fallback
+      env.allowLocalModels = spec.modelSource === "self-hosted";
+      env.localModelPath = LOCAL_MODEL_PATH;
+
+      depthPipeline = (await (
+        pipeline as (...args: unknown[]) => Promise<unknown>
+      )("depth-estimation", modelId, {
+        device,
+        dtype,
+        progress_callback: (progress: PipelineProgress) => {
+          if (progress.status === "downloading") {
+            const pct = progress.progress ? Math.round(progress.progress) : 0;
+            onProgress?.(`Model indiriliyor... ${pct}%`);
+          } else if (progress.status === "loading") {
+            onProgress?.("Model yükleniyor...");
+          }
+        },
+      })) as DepthPipeline;
+
+      currentSpec = { ...spec };
+      currentDevice = device;
+      onProgress?.(
+        `Model hazır! (${device === "webgpu" ? "WebGPU" : "WASM"} backend)`,
+      );
+      return device;
+    },
+
+    async estimate(imageUrl, view = {}): Promise<RawDepthOutput> {
+      if (!depthPipeline)
+        throw new Error("Model not loaded. Call loadModel() first.");
+
+      const input = await prepareInput(imageUrl, view);
+      const result = await runScaled(
+        depthPipeline,
+        input,
+        view.inputScale ?? 1,
+      );
+      const single = Array.isArray(result) ? result[0] : result;
+
+      // The unnormalized prediction, never the 8-bit visualisation: metric
+      // checkpoints keep meters, and relative ones keep the float precision
+      // that disparity inversion and the tile and TTA fits rely on
+      const { data, dims } = single.predicted_depth;
+      const [height, width] = dims.slice(-2);
+      const output: RawDepthOutput = {
+        data: Float32Array.from(data),
+        width,
+        height,
+        encoding:
+          currentSpec && currentSpec.depthMode !== "relative"
+            ? "metric"
+            : "disparity",
+      };
+
+      if (view.flipX) flipRows(output.data, output.width, output.height);
+      return output;
+    },
+
+    async dispose() {
+      cachedImage = null;
+      try {
+        // Dropping the reference alone keeps the sessions allocated
+        await depthPipeline?.dispose();
+      } finally {
+        depthPipeline = null;
+        currentSpec = null;
+      }
+    },
+  };
+}
+
+/**
+ * Mirrors a single-channel map horizontally in place.
+ */
+function flipRows(data: Float32Array, width: number, height: number): void {
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width >> 1; x++) {
+      const a = row + x;
+      const b = row + width - 1 - x;
+      const tmp = data[a];
+      data[a] = data[b];
+      data[b] = tmp;
+    }
+  }
+}
@@ -1,308 +1,962 @@
 /**
  * WorkerBridge.ts
  *
- * Abstraction layer that manages the ProcessingWorker lifecycle and provides
- * async wrappers for depth estimation and mesh generation.
+ * Abstraction layer that manages a pool of ProcessingWorkers and provides
+ * async wrappers for depth estimation, mesh generation and the multi-view
+ * stages.
  *
  * Key behaviours:
- *  - Attempts to spin up a Web Worker for off-main-thread processing.
- *  - If the worker fails to load (e.g. @huggingface/transformers doesn't work
+ *  - Spins up one Web Worker per spare CPU core (bounded by how many model
+ *    copies fit in memory) and hands each job to the next idle worker, so a
+ *    batch of photos is processed in parallel off the main thread.
+ *  - Geometry comes back as bare buffers (see GeometryTransfer) that are
+ *    wrapped in a BufferGeometry here.
+ *  - If no worker can load (e.g. @huggingface/transformers doesn't work
  *    inside a Worker due to dynamic imports / DOM dependencies), transparently
- *    falls back to direct main-thread execution via the DepthEstimator module.
- *  - Supports cancellation via AbortController.
+ *    falls back to direct main-thread execution via the DepthEstimator module,
+ *    one job at a time.
+ *  - A worker that crashes, or stops answering a job (watchdog), is replaced
+ *    by a fresh one holding the same model, within a per-run restart budget.
+ *    A failed job is retried on the pool before falling back to the main
+ *    thread. Restarts, retries and the last error show up in
+ *    `getWorkerStatus().health`.
+ *  - Supports cancellation via AbortController: an aborted job is cancelled
+ *    inside its worker, which is terminated if it doesn't stop in time.
  *  - Uses Transferable objects to avoid copying Float32Array data.
  */
 
-import type { ModelSize } from "../types";
+import { DEFAULT_POST_PROCESS } from "../types";
+import type {
+  CameraPose,
+  ExternalDepth,
+  ModelSize,
+  ProcessedMesh,
+} from "../types";
+import type { BufferGeometry } from "three";
+import type { InferenceDevice } from "./DepthBackend";
+import type {
+  DepthEstimate,
+  EstimateDepthOptions,
+  LoadModelOptions,
+} from "./DepthEstimator";
 import {
   loadModel as directLoadModel,
   estimateDepth as directEstimateDepth,
+  prepareExternalDepth as directPrepareDepth,
   disposeModel as directDispose,
   getDeviceInfo,
 } from "./DepthEstimator";
+import { buildPhotoMesh, type PhotoMeshOptions } from "./MeshGenerator";
+import {
+  alignMeshes,
+  mergePointClouds,
+  type MultiViewStage,
+} from "./MultiViewAligner";
+import {
+  collectTransferables,
+  packMesh,
+  unpackGeometry,
+  unpackMesh,
+} from "./GeometryTransfer";
+import { abortError, isAbortError } from "./Abort";
+import { OutOfMemoryError, fromErrorInfo, isOutOfMemory } from "./Errors";
+import {
+  PROTOCOL_VERSION,
+  parseWorkerOutgoing,
+  type LoadModelRequest,
+  type WorkerIncoming,
+  type WorkerOperation,
+  type WorkerOutgoing,
+  type WorkerRequest,
+  type WorkerResult,
+} from "./WorkerProtocol";
 
 // ---------- Types ----------
 
-export interface DepthEstimationResult {
-  depthMap: Float32Array;
-  width: number;
-  height: number;
+export type DepthEstimationResult = DepthEstimate;
+
+export interface MeshBuildResult {
+  geometry: BufferGeometry;
+  /** RGBA normal map at depth-map resolution */
+  normalData: Float32Array;
+  /** Time spent in the smoothing passes, part of the whole build */
+  smoothingMs: number;
+  /** Camera the geometry was back-projected through */
+  camera: CameraPose;
+  /** Index buffers of the coarser levels of detail, finest first */
+  lods: Uint32Array[];
+}
+
+/** Bookkeeping hooks for a single photo job */
+export interface JobInfo {
+  /** Names the job in the health report if it has to be retried */
+  label?: string;
+  /** Called when a worker or the main thread picks the job up, after queueing */
+  onStart?: () => void;
 }
 
 export interface WorkerBridgeStatus {
   mode: "worker" | "main-thread";
   workerReady: boolean;
   modelLoaded: boolean;
-  device: "webgpu" | "wasm";
+  device: InferenceDevice;
+  /** Workers in the pool */
+  poolSize: number;
+  /** Workers currently running a job */
+  busyWorkers: number;
+  health: WorkerHealth;
+}
+
+export interface WorkerHealth {
+  /** Workers replaced after a crash or hang since the pool was created */
+  restarts: number;
+  /** Replacement workers still starting up */
+  restarting: number;
+  /** Most recent worker or job failure */
+  lastError: { message: string; at: number } | null;
+  /** Labels (photo names) of jobs that needed another attempt */
+  retriedJobs: string[];
+}
+
+export interface WorkerLoadOptions extends LoadModelOptions {
+  /** Workers to run; defaults to recommendedPoolSize() */
+  poolSize?: number;
 }
 
 type PendingResolver = {
+  /** Operation the call expects a result for */
+  op: WorkerOperation;
   resolve: (value: unknown) => void;
   reject: (reason: unknown) => void;
   onProgress?: (msg: string) => void;
 };
 
-// ---------- Bridge ----------
+interface PooledWorker {
+  worker: Worker;
+  pending: Map<string, PendingResolver>;
+  /** Cancelled jobs awaiting the worker's reply, with their kill timers */
+  cancelling: Map<string, ReturnType<typeof setTimeout>>;
+  /** Running a job, or handed to a waiting one */
+  busy: boolean;
+  /** Model this worker holds; replacements load it with their first job */
+  model: LoadModelRequest | null;
+}
+
+// Upper bound on workers — each holds its own copy of the model
+const MAX_POOL_SIZE = 4;
 
-let worker: Worker | null = null;
-let workerReady = false;
+// Share of device memory the pool's model copies may take
+const POOL_MEMORY_SHARE = 0.5;
+
+// How long a cancelled job may take to stop before its worker is terminated
+const CANCEL_GRACE_MS = 250;
+
+// A job with no reply or progress for this long is treated as hung
+const WATCHDOG_MS = 90_000;
+
+// Worker replacements allowed per run before giving up on the pool
+const MAX_RESTARTS_PER_RUN = 3;
+
+// Extra attempts on the pool for a failed job before the main-thread fallback
+const JOB_RETRIES = 1;
+
+/** A job's worker was terminated, crashed or hung before it answered */
+class WorkerLostError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "WorkerLostError";
+  }
+}
+
+// ---------- Pool ----------
+
+let pool: PooledWorker[] = [];
 let workerFailed = false;
-const pendingCalls = new Map<string, PendingResolver>();
 let msgCounter = 0;
 
+/** Jobs waiting for an idle worker; resolved with null once the pool is gone */
+const idleWaiters: ((pw: PooledWorker | null) => void)[] = [];
+
+/** Last model request, replayed for the main-thread fallback */
+let requestedModel: { modelSize: ModelSize; options: LoadModelOptions } | null =
+  null;
+
+/** Model loaded into the workers, replayed into restarted ones */
+let workerModel: LoadModelRequest | null = null;
+
+/** Main-thread fallback jobs run one after another */
+let mainThreadQueue: Promise<unknown> = Promise.resolve();
+
+/** Bumped on dispose, so restarts still in flight are discarded */
+let poolGeneration = 0;
+let restartBudget = MAX_RESTARTS_PER_RUN;
+let restarting = 0;
+
+let health: Omit<WorkerHealth, "restarting"> = {
+  restarts: 0,
+  lastError: null,
+  retriedJobs: [],
+};
+
+function noteFailure(err: unknown): void {
+  health.lastError = {
+    message: err instanceof Error ? err.message : String(err),
+    at: Date.now(),
+  };
+}
+
 function nextId(): string {
   return `msg_${++msgCounter}_${Date.now()}`;
 }
 
 /**
- * Spin up the worker. Resolves `true` if the worker is usable,
- * `false` if it isn't (triggers main-thread fallback).
+ * Number of workers worth running: one per spare CPU core, capped by
+ * MAX_POOL_SIZE and by how many copies of a model needing `modelRamBytes`
+ * fit in POOL_MEMORY_SHARE of the device memory.
  */
-async function ensureWorker(): Promise<boolean> {
-  if (workerFailed) return false;
-  if (worker && workerReady) return true;
+export function recommendedPoolSize(modelRamBytes: number = 0): number {
+  const cores = navigator.hardwareConcurrency || 2;
+  let size = Math.min(MAX_POOL_SIZE, Math.max(1, cores - 1));
+
+  if (modelRamBytes > 0) {
+    // navigator.deviceMemory is Chromium-only and capped at 8 GB
+    const memoryGB =
+      (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+    const budget = memoryGB * 1024 ** 3 * POOL_MEMORY_SHARE;
+    size = Math.min(size, Math.max(1, Math.floor(budget / modelRamBytes)));
+  }
+
+  return size;
+}
 
-  return new Promise<boolean>((resolve) => {
+/**
+ * Spin up one worker. Resolves with it once it signals readiness, or
+ * `null` if it can't start.
+ */
+function spawnWorker(): Promise<PooledWorker | null> {
+  return new Promise<PooledWorker | null>((resolve) => {
+    let worker: Worker;
     try {
       worker = new Worker(new URL("./ProcessingWorker.ts", import.meta.url), {
         type: "module",
       });
+    } catch {
+      resolve(null);
+      return;
+    }
 
-      const initTimeout = setTimeout(() => {
-        // Worker didn't signal readiness in time
-        workerFailed = true;
-        worker?.terminate();
-        worker = null;
-        resolve(false);
-      }, 10_000);
-
-      worker.onmessage = (e) => {
-        const { type, id, payload } = e.data;
-
-        // Handle init signal
-        if (id === "__init__" && payload?.ready) {
-          workerReady = true;
-          clearTimeout(initTimeout);
-          resolve(true);
-          return;
+    const pw: PooledWorker = {
+      worker,
+      pending: new Map(),
+      cancelling: new Map(),
+      busy: false,
+      model: null,
+    };
+
+    let ready = false;
+    const initTimeout = setTimeout(() => {
+      // Worker didn't signal readiness in time
+      worker.terminate();
+      resolve(null);
+    }, 10_000);
+
+    worker.onmessage = (e: MessageEvent<unknown>) => {
+      let msg: WorkerOutgoing;
+      try {
+        msg = parseWorkerOutgoing(e.data);
+      } catch (err) {
+        // A malformed reply can't be trusted to match its call
+        const id = (e.data as { id?: unknown } | null)?.id;
+        const pending = typeof id === "string" && pw.pending.get(id);
+        if (pending) {
+          pending.reject(err);
+          pw.pending.delete(id as string);
+        } else {
+          console.warn("[WorkerBridge] Ignoring invalid worker message:", err);
         }
+        return;
+      }
 
-        const pending = pendingCalls.get(id);
-        if (!pending) return;
-
-        switch (type) {
-          case "result":
-            pending.resolve(payload);
-            pendingCalls.delete(id);
-            break;
-          case "progress":
-            pending.onProgress?.(payload?.message ?? "");
-            break;
-          case "error":
-            pending.reject(new Error(payload?.error ?? "Worker error"));
-            pendingCalls.delete(id);
-            break;
+      // Handshake: a worker built from another version of this file (e.g.
+      // served stale by the service worker) must not get any jobs
+      if (msg.type === "ready") {
+        clearTimeout(initTimeout);
+        if (msg.protocolVersion !== PROTOCOL_VERSION) {
+          console.warn(
+            `[WorkerBridge] Worker speaks protocol v${msg.protocolVersion}, expected v${PROTOCOL_VERSION}`,
+          );
+          worker.terminate();
+          resolve(null);
+          return;
         }
-      };
+        ready = true;
+        resolve(pw);
+        return;
+      }
+
+      const { id } = msg;
+
+      // A cancelled job has wound down — no need to kill the worker
+      const killTimer = pw.cancelling.get(id);
+      if (killTimer && msg.type !== "progress") {
+        clearTimeout(killTimer);
+        pw.cancelling.delete(id);
+      }
+
+      const pending = pw.pending.get(id);
+      if (!pending) return;
+
+      switch (msg.type) {
+        case "result":
+          if (msg.op === pending.op) {
+            pending.resolve(msg.payload);
+          } else {
+            pending.reject(
+              new Error(
+                `Worker answered ${pending.op} with a ${msg.op} result`,
+              ),
+            );
+          }
+          pw.pending.delete(id);
+          break;
+        case "progress":
+          pending.onProgress?.(msg.message);
+          break;
+        case "error":
+          pending.reject(
+            msg.code
+              ? fromErrorInfo({
+                  code: msg.code,
+                  message: msg.error,
+                  details: msg.details,
+                })
+              : new Error(msg.error),
+          );
+          pw.pending.delete(id);
+          break;
+      }
+    };
+
+    worker.onerror = (err) => {
+      clearTimeout(initTimeout);
+      if (!ready) {
+        worker.terminate();
+        resolve(null);
+        return;
+      }
+      console.warn("[WorkerBridge] Worker crashed, restarting it:", err);
+      restartWorker(pw, err.message || "Worker crashed");
+    };
+  });
+}
 
-      worker.onerror = (err) => {
-        console.warn(
-          "[WorkerBridge] Worker error, falling back to main thread:",
-          err,
-        );
-        workerFailed = true;
-        clearTimeout(initTimeout);
-        worker?.terminate();
-        worker = null;
+/**
+ * Grow or shrink the pool to `size` workers. Resolves `true` if at least
+ * one worker is usable, `false` if none is (triggers main-thread fallback).
+ */
+async function ensurePool(size: number): Promise<boolean> {
+  if (workerFailed) return false;
+  restartBudget = MAX_RESTARTS_PER_RUN;
 
-        // Reject all pending calls
-        for (const [, p] of pendingCalls) {
-          p.reject(new Error("Worker crashed — falling back to main thread"));
-        }
-        pendingCalls.clear();
+  // Shrinking only happens between runs, when every worker is idle
+  for (const pw of pool.splice(size)) pw.worker.terminate();
 
-        resolve(false);
-      };
-    } catch {
-      workerFailed = true;
-      resolve(false);
+  if (pool.length < size) {
+    const spawned = await Promise.all(
+      Array.from({ length: size - pool.length }, spawnWorker),
+    );
+    for (const pw of spawned) if (pw) pool.push(pw);
+  }
+
+  if (pool.length === 0) workerFailed = true;
+  return pool.length > 0;
+}
+
+/**
+ * Terminate a worker, reject its pending calls with `error` and take it
+ * out of the pool.
+ */
+function retireWorker(
+  pw: PooledWorker,
+  reason: string,
+  // A worker killed by the browser for its memory use fails as OOM
+  error: Error = isOutOfMemory(reason)
+    ? new OutOfMemoryError("worker job", reason)
+    : new WorkerLostError(reason),
+): void {
+  pw.worker.terminate();
+  for (const [, p] of pw.pending) p.reject(error);
+  pw.pending.clear();
+  for (const [, timer] of pw.cancelling) clearTimeout(timer);
+  pw.cancelling.clear();
+  pool = pool.filter((w) => w !== pw);
+}
+
+/** With no worker left or coming back, waiting jobs go to the main thread */
+function settleEmptyPool(): boolean {
+  if (pool.length > 0 || restarting > 0) return false;
+  for (const waiter of idleWaiters.splice(0)) waiter(null);
+  return true;
+}
+
+/**
+ * Drop a worker that can't run jobs at all (e.g. the model won't load in
+ * it). Once the last one is gone, jobs fall back to the main thread.
+ */
+function removeWorker(pw: PooledWorker): void {
+  retireWorker(pw, "Worker removed — falling back to main thread");
+  if (settleEmptyPool()) workerFailed = true;
+}
+
+/**
+ * Replace a crashed or hung worker with a fresh one, while the run's
+ * restart budget lasts. Jobs waiting for a worker keep waiting until the
+ * replacement is ready.
+ */
+function restartWorker(pw: PooledWorker, reason: string): void {
+  if (!pool.includes(pw)) return;
+  noteFailure(reason);
+  retireWorker(pw, `Worker restarted: ${reason}`);
+
+  if (restartBudget <= 0) {
+    console.warn("[WorkerBridge] Restart budget used up, shrinking the pool");
+    settleEmptyPool();
+    return;
+  }
+  restartBudget--;
+  health.restarts++;
+  replaceWorker();
+}
+
+/**
+ * Replace a worker that didn't stop a cancelled job in time. A cancel is
+ * not a failure: it costs no restart budget and isn't reported.
+ */
+function recycleWorker(pw: PooledWorker): void {
+  if (!pool.includes(pw)) return;
+  retireWorker(pw, "Worker stopped after a cancelled job");
+  replaceWorker();
+}
+
+/**
+ * Add a fresh worker to the pool in place of a retired one. It loads the
+ * model only when a job needs it (see ensureWorkerModel).
+ */
+function replaceWorker(): void {
+  restarting++;
+  const generation = poolGeneration;
+  void spawnWorker().then((fresh) => {
+    restarting--;
+    if (fresh && generation === poolGeneration) {
+      fresh.busy = true;
+      pool.push(fresh);
+      releaseWorker(fresh);
+    } else {
+      fresh?.worker.terminate();
+      settleEmptyPool();
     }
   });
 }
 
 /**
- * Send a message to the worker and return a promise that resolves
- * when the worker posts a result back.
+ * Resolves with the next idle worker, waiting for one if all are busy, or
+ * with `null` when there is no pool.
+ */
+function acquireWorker(signal?: AbortSignal): Promise<PooledWorker | null> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+  if (workerFailed || (pool.length === 0 && restarting === 0)) {
+    return Promise.resolve(null);
+  }
+
+  const idle = pool.find((w) => !w.busy);
+  if (idle) {
+    idle.busy = true;
+    return Promise.resolve(idle);
+  }
+
+  return new Promise<PooledWorker | null>((resolve, reject) => {
+    const waiter = (pw: PooledWorker | null) => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(pw);
+    };
+    const onAbort = () => {
+      idleWaiters.splice(idleWaiters.indexOf(waiter), 1);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    idleWaiters.push(waiter);
+  });
+}
+
+/** Hand a worker to the next waiting job, or mark it idle */
+function releaseWorker(pw: PooledWorker): void {
+  if (!pool.includes(pw)) return;
+  const next = idleWaiters.shift();
+  if (next) next(pw);
+  else pw.busy = false;
+}
+
+/**
+ * Send a request to a worker and return a promise that resolves with the
+ * operation's result when the worker posts it back. Apart from model loads,
+ * which report their own download progress, a call that hears nothing from
+ * the worker for WATCHDOG_MS gets the worker restarted.
  */
-function callWorker<T = unknown>(
-  message: Record<string, unknown>,
+function callWorker<R extends WorkerRequest>(
+  pw: PooledWorker,
+  request: R,
   options?: {
     onProgress?: (msg: string) => void;
     signal?: AbortSignal;
     transfer?: Transferable[];
   },
-): Promise<T> {
+): Promise<WorkerResult<R["type"]>> {
+  type T = WorkerResult<R["type"]>;
   const id = nextId();
-  const msg = { ...message, id };
+  const msg: WorkerIncoming = { ...request, id };
 
   return new Promise<T>((resolve, reject) => {
     if (options?.signal?.aborted) {
-      reject(new DOMException("Aborted", "AbortError"));
+      reject(abortError());
       return;
     }
 
-    pendingCalls.set(id, {
-      resolve: resolve as (value: unknown) => void,
-      reject: reject as (reason: unknown) => void,
-      onProgress: options?.onProgress,
+    const signal = options?.signal;
+
+    let watchdog: ReturnType<typeof setTimeout> | undefined;
+    const feedWatchdog = () => {
+      if (request.type === "loadModel") return;
+      clearTimeout(watchdog);
+      watchdog = setTimeout(
+        () =>
+          restartWorker(
+            pw,
+            `No reply to ${request.type} for ${WATCHDOG_MS / 1000}s`,
+          ),
+        WATCHDOG_MS,
+      );
+    };
+
+    // Tell the worker to stop the job; if it is stuck in a long synchronous
+    // stretch or ONNX call, terminating it is the only way to free its
+    // memory quickly
+    const onAbort = () => {
+      clearTimeout(watchdog);
+      pw.pending.delete(id);
+      pw.worker.postMessage({ type: "cancel", id } satisfies WorkerIncoming);
+      pw.cancelling.set(
+        id,
+        setTimeout(() => recycleWorker(pw), CANCEL_GRACE_MS),
+      );
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    pw.pending.set(id, {
+      op: request.type,
+      resolve: (value) => {
+        clearTimeout(watchdog);
+        signal?.removeEventListener("abort", onAbort);
+        resolve(value as T);
+      },
+      reject: (reason) => {
+        clearTimeout(watchdog);
+        signal?.removeEventListener("abort", onAbort);
+        reject(reason);
+      },
+      onProgress: (message) => {
+        feedWatchdog();
+        options?.onProgress?.(message);
+      },
     });
 
-    // Listen for abort
-    options?.signal?.addEventListener(
-      "abort",
-      () => {
-        pendingCalls.delete(id);
-        reject(new DOMException("Aborted", "AbortError"));
-      },
-      { once: true },
-    );
+    pw.worker.postMessage(msg, options?.transfer ?? []);
+    feedWatchdog();
+  });
+}
+
+/**
+ * Whether a failed job may succeed on another attempt: its worker crashed,
+ * hung or ran out of memory. Anything else — a photo that won't decode, a
+ * bad request — would fail the same way again, on the pool or the main
+ * thread.
+ */
+function isTransient(err: unknown): boolean {
+  return err instanceof WorkerLostError || isOutOfMemory(err);
+}
+
+/**
+ * Run a job on the next idle worker, or on the main thread when there is
+ * no pool. A job that failed for a transient reason is tried again on the
+ * pool up to `retries` times and then falls back; other failures are
+ * rethrown as they are.
+ */
+async function runJob<T>(
+  onWorker: (pw: PooledWorker) => Promise<T>,
+  onMainThread: () => Promise<T>,
+  signal?: AbortSignal,
+  {
+    label,
+    onStart,
+    retries = JOB_RETRIES,
+  }: JobInfo & { retries?: number } = {},
+): Promise<T> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const pw = await acquireWorker(signal);
+    if (!pw) break;
+    if (attempt === 1 && label) health.retriedJobs.push(label);
+    onStart?.();
+
+    try {
+      return await onWorker(pw);
+    } catch (err) {
+      if (isAbortError(err) || !isTransient(err)) throw err;
+      noteFailure(err);
+      console.warn(
+        `[WorkerBridge] Worker job failed (attempt ${attempt + 1}):`,
+        err,
+      );
+    } finally {
+      releaseWorker(pw);
+    }
+  }
 
-    worker!.postMessage(msg, options?.transfer ?? []);
+  // Jobs cancelled while queued never start
+  const run = mainThreadQueue.then(() => {
+    signal?.throwIfAborted();
+    onStart?.();
+    return onMainThread();
   });
+  mainThreadQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Load the pool's model into a worker that doesn't hold it yet, i.e. one
+ * that replaced a crashed or cancelled worker. A worker that can't load it
+ * is dropped and the job moves on to another worker or the main thread.
+ */
+async function ensureWorkerModel(
+  pw: PooledWorker,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const model = workerModel;
+  if (!model || pw.model === model) return;
+  try {
+    await callWorker(pw, model, { onProgress, signal });
+    pw.model = model;
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn("[WorkerBridge] Worker model load failed, dropping it:", err);
+    noteFailure(err);
+    removeWorker(pw);
+    throw new WorkerLostError("Worker could not load the model");
+  }
+}
+
+/** Make sure the main-thread backend holds the requested model */
+async function ensureDirectModel(
+  onProgress?: (msg: string) => void,
+): Promise<void> {
+  if (!requestedModel) return;
+  if (!getDeviceInfo().modelLoaded) {
+    onProgress?.("Ana thread üzerinde model yükleniyor...");
+  }
+  // A no-op when the same checkpoint is already loaded
+  await directLoadModel(
+    requestedModel.modelSize,
+    onProgress,
+    requestedModel.options,
+  );
 }
 
 // ---------- Public API ----------
 
 /**
- * Load the depth-estimation model.
- * Tries the worker first; falls back to main-thread `DepthEstimator`.
+ * Start the worker pool without loading a model, e.g. when every photo
+ * brings its own depth. Resolves `false` if jobs will run on the main thread.
+ */
+export function initWorkerPool(
+  poolSize: number = recommendedPoolSize(),
+): Promise<boolean> {
+  return ensurePool(poolSize);
+}
+
+/**
+ * Load the depth-estimation model into every worker of the pool.
+ * Falls back to main-thread `DepthEstimator` if no worker can load it.
  */
 export async function loadModelViaWorker(
   modelSize: ModelSize = "small",
   onProgress?: (msg: string) => void,
   signal?: AbortSignal,
+  { poolSize = recommendedPoolSize(), ...options }: WorkerLoadOptions = {},
 ): Promise<void> {
-  const canWorker = await ensureWorker();
+  requestedModel = { modelSize, options };
+  const canWorker = await ensurePool(poolSize);
 
   if (canWorker) {
-    try {
-      await callWorker(
-        { type: "loadModel", modelSize },
-        { onProgress, signal },
-      );
-      return;
-    } catch (err) {
-      // Worker failed during model load — fallback
-      console.warn(
-        "[WorkerBridge] Worker model load failed, falling back:",
-        err,
-      );
-      workerFailed = true;
-      worker?.terminate();
-      worker = null;
+    const message: LoadModelRequest = {
+      type: "loadModel",
+      modelSize,
+      backend: options.backend ?? "transformers",
+      depthMode: options.depthMode ?? "relative",
+      modelSource: options.modelSource ?? "hub",
+      dtype: options.dtype ?? "fp32",
+    };
+    workerModel = message;
+    const load = async (pw: PooledWorker, progress?: typeof onProgress) => {
+      try {
+        await callWorker(pw, message, { onProgress: progress, signal });
+        pw.model = message;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        // Worker failed during model load — drop it
+        console.warn(
+          "[WorkerBridge] Worker model load failed, falling back:",
+          err,
+        );
+        removeWorker(pw);
+      }
+    };
+
+    // The first worker fills the download cache; the rest then load from
+    // it in parallel instead of fetching the weights N times
+    const [first, ...rest] = pool;
+    await load(first, onProgress);
+    if (pool.length > 0 && rest.length > 0) {
+      onProgress?.(`${rest.length} ek işçi hazırlanıyor...`);
+      await Promise.all(rest.map((pw) => load(pw)));
     }
+    if (pool.length > 0) return;
   }
 
   // Main-thread fallback
   onProgress?.("Ana thread üzerinde model yükleniyor...");
-  await directLoadModel(modelSize, onProgress);
+  await directLoadModel(modelSize, onProgress, options);
 }
 
 /**
- * Run depth estimation on an image.
- * Returns the depth map, width and height.
+ * Run depth estimation on an image on the next idle worker.
+ * Returns the refined depth map with its confidence and raw snapshot.
+ * `job` names it in the health report and reports when it starts running.
  */
 export async function estimateDepthViaWorker(
   imageData: string,
   maxResolution: number = 512,
   onProgress?: (msg: string) => void,
   signal?: AbortSignal,
+  options: EstimateDepthOptions = {},
+  job: JobInfo = {},
 ): Promise<DepthEstimationResult> {
-  if (!workerFailed && worker && workerReady) {
-    try {
-      const result = await callWorker<DepthEstimationResult>(
-        { type: "estimateDepth", imageData, maxResolution },
+  return runJob(
+    async (pw) => {
+      await ensureWorkerModel(pw, onProgress, signal);
+      return callWorker(
+        pw,
+        {
+          type: "estimateDepth",
+          imageData,
+          maxResolution,
+          tileGrid: options.tileGrid ?? 1,
+          enableTTA: options.enableTTA ?? false,
+          relativeEncoding: options.relativeEncoding ?? "depth",
+          disparityShift: options.disparityShift ?? 0.1,
+          postProcess: options.postProcess ?? DEFAULT_POST_PROCESS,
+        },
         { onProgress, signal },
       );
-      return result;
-    } catch (err) {
-      if ((err as Error).name === "AbortError") throw err;
-      console.warn(
-        "[WorkerBridge] Worker depth estimation failed, falling back:",
-        err,
-      );
-      workerFailed = true;
-      worker?.terminate();
-      worker = null;
-    }
-  }
+    },
+    async () => {
+      // Main-thread fallback
+      await ensureDirectModel(onProgress);
+      onProgress?.("Ana thread üzerinde derinlik tahmini...");
+      return directEstimateDepth(imageData, maxResolution, {
+        ...options,
+        signal,
+      });
+    },
+    signal,
+    job,
+  );
+}
 
-  // Main-thread fallback
-  onProgress?.("Ana thread üzerinde derinlik tahmini...");
-  return directEstimateDepth(imageData, maxResolution);
+/**
+ * Refine a depth map that came with the photo on the next idle worker.
+ * No model is needed; the photo's own data is left untouched.
+ */
+export async function prepareDepthViaWorker(
+  depth: ExternalDepth,
+  imageData: string,
+  maxResolution: number = 512,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+  options: EstimateDepthOptions = {},
+  job: JobInfo = {},
+): Promise<DepthEstimationResult> {
+  return runJob(
+    (pw) => {
+      // Copy the buffer so we don't transfer the photo's data
+      const data = new Float32Array(depth.data);
+      return callWorker(
+        pw,
+        {
+          type: "prepareDepth",
+          depth: {
+            data,
+            width: depth.width,
+            height: depth.height,
+            encoding: depth.encoding,
+          },
+          imageData,
+          maxResolution,
+          relativeEncoding: options.relativeEncoding ?? "depth",
+          disparityShift: options.disparityShift ?? 0.1,
+          postProcess: options.postProcess ?? DEFAULT_POST_PROCESS,
+        },
+        { onProgress, signal, transfer: [data.buffer] },
+      );
+    },
+    async () => {
+      onProgress?.("Ana thread üzerinde derinlik hazırlanıyor...");
+      return directPrepareDepth(depth, imageData, maxResolution, {
+        ...options,
+        signal,
+      });
+    },
+    signal,
+    job,
+  );
 }
 
 /**
- * Generate mesh vertex data in the worker.
- * Falls back to a no-op on the main thread (MeshGenerator handles it there).
+ * Build a photo's mesh — geometry, smoothing and normal map — on the next
+ * idle worker, and wrap the returned buffers in a BufferGeometry.
  */
 export async function generateMeshViaWorker(
-  depthMap: Float32Array,
-  width: number,
-  height: number,
-  depthScale: number = 2.0,
+  estimate: Pick<
+    DepthEstimate,
+    "depthMap" | "width" | "height" | "encoding" | "confidence"
+  >,
+  options: PhotoMeshOptions,
   onProgress?: (msg: string) => void,
   signal?: AbortSignal,
-): Promise<{
-  positions: Float32Array;
-  width: number;
-  height: number;
-  vertexCount: number;
-} | null> {
-  if (!workerFailed && worker && workerReady) {
-    try {
-      // Copy the buffer so we don't transfer the caller's data
-      const copy = new Float32Array(depthMap);
-      const result = await callWorker<{
-        positions: Float32Array;
-        width: number;
-        height: number;
-        vertexCount: number;
-      }>(
-        { type: "generateMesh", depthMap: copy, width, height, depthScale },
-        { onProgress, signal, transfer: [copy.buffer] },
+  job: JobInfo = {},
+): Promise<MeshBuildResult> {
+  const { depthMap, width, height, encoding, confidence } = estimate;
+
+  return runJob(
+    async (pw) => {
+      // Inputs are copied, not transferred — the caller keeps the depth data
+      const result = await callWorker(
+        pw,
+        {
+          type: "generateMesh",
+          depthMap,
+          width,
+          height,
+          encoding,
+          confidence,
+          options,
+        },
+        { onProgress, signal },
       );
-      return result;
-    } catch (err) {
-      if ((err as Error).name === "AbortError") throw err;
-      console.warn("[WorkerBridge] Worker mesh gen failed, falling back:", err);
-    }
-  }
+      return {
+        geometry: unpackGeometry(result.geometry),
+        normalData: result.normalData,
+        smoothingMs: result.smoothingMs,
+        camera: result.camera,
+        lods: result.lods,
+      };
+    },
+    () =>
+      buildPhotoMesh(
+        depthMap,
+        width,
+        height,
+        encoding,
+        confidence,
+        options,
+        signal,
+      ),
+    signal,
+    job,
+  );
+}
 
-  // Returning null signals the caller to use MeshGenerator on the main thread
-  return null;
+/**
+ * Run a multi-view stage (alignment or point-cloud merge) over every mesh
+ * on the next idle worker. The meshes' buffers are transferred, so the
+ * input array must not be used afterwards — use the returned meshes.
+ */
+export async function multiViewViaWorker(
+  meshes: ProcessedMesh[],
+  stage: MultiViewStage,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal,
+): Promise<ProcessedMesh[]> {
+  return runJob(
+    async (pw) => {
+      const packed = meshes.map(packMesh);
+      const result = await callWorker(
+        pw,
+        { type: "multiView", stage, meshes: packed },
+        { onProgress, signal, transfer: collectTransferables(packed) },
+      );
+      const sources = new Map(meshes.map((m) => [m.photoId, m]));
+      return result.meshes.map((m) => unpackMesh(m, sources.get(m.photoId)));
+    },
+    async () => {
+      // A worker that failed mid-job took the buffers with it
+      if (meshes.some((m) => m.depthMap.byteLength === 0)) {
+        throw new Error("Mesh buffers were lost with a failed worker");
+      }
+      return stage === "align"
+        ? alignMeshes(meshes, signal)
+        : mergePointClouds(meshes, signal);
+    },
+    signal,
+    // The meshes' buffers leave with the first attempt
+    { retries: 0 },
+  );
 }
 
 /**
- * Dispose the model and terminate the worker.
+ * Dispose the model and terminate every worker.
  */
 export async function disposeWorker(): Promise<void> {
-  if (worker && workerReady && !workerFailed) {
-    try {
-      await callWorker({ type: "dispose" });
-    } catch {
-      // Ignore
-    }
-    worker.terminate();
-  }
-  worker = null;
-  workerReady = false;
+  const workers = pool;
+  pool = [];
+  poolGeneration++;
+  for (const waiter of idleWaiters.splice(0)) waiter(null);
+
+  // Idle workers get a moment to release their model; a busy one may be
+  // stuck in a synchronous job and never answer, so it is terminated as is
+  await Promise.all(
+    workers.map(async (pw) => {
+      if (!pw.busy) {
+        await Promise.race([
+          callWorker(pw, { type: "dispose" }).catch(() => {
+            // Ignore
+          }),
+          new Promise<void>((resolve) => setTimeout(resolve, CANCEL_GRACE_MS)),
+        ]);
+      }
+      // Jobs still running end as cancelled rather than being retried
+      retireWorker(pw, "Worker disposed", abortError());
+    }),
+  );
   workerFailed = false;
-  pendingCalls.clear();
+  requestedModel = null;
+  workerModel = null;
   msgCounter = 0;
+  health = { restarts: 0, lastError: null, retriedJobs: [] };
 
   // Also dispose main-thread model if loaded
-  directDispose();
+  await directDispose();
 }
 
 /**
@@ -312,9 +966,19 @@ export function getWorkerStatus(): WorkerBridgeStatus {
   const info = getDeviceInfo();
 
   return {
-    mode: workerFailed || !worker ? "main-thread" : "worker",
-    workerReady,
+    mode:
+      workerFailed || (pool.length === 0 && restarting === 0)
+        ? "main-thread"
+        : "worker",
+    workerReady: pool.length > 0,
     modelLoaded: info.modelLoaded,
     device: info.device,
+    poolSize: pool.length,
+    busyWorkers: pool.filter((w) => w.busy).length,
+    health: {
+      ...health,
+      restarting,
+      retriedJobs: [...health.retriedJobs],
+    },
   };
 }
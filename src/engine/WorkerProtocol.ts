@@ -0,0 +1,330 @@
+/**
+ * WorkerProtocol.ts
+ *
+ * The message protocol between the WorkerBridge and the ProcessingWorker.
+ * Every operation is listed once in `WorkerOperations` with its request and
+ * result shape, so both sides are type-checked against the same table.
+ *
+ * Messages cross a structured-clone boundary, and after a deploy the PWA
+ * may still serve a cached worker chunk from the previous build. The worker
+ * therefore announces `PROTOCOL_VERSION` in its `__init__` message, the
+ * bridge refuses workers that speak another version, and both sides check
+ * incoming messages at runtime before acting on them.
+ */
+
+import type {
+  AppErrorCode,
+  AppErrorDetails,
+  CameraPose,
+  DepthBackendId,
+  DepthEncoding,
+  DepthMode,
+  DepthPostStage,
+  ExternalDepth,
+  ModelDtype,
+  ModelSize,
+  ModelSource,
+  RelativeDepthEncoding,
+} from "../types";
+import type { InferenceDevice } from "./DepthBackend";
+import type { DepthEstimate } from "./DepthEstimator";
+import type { PhotoMeshOptions } from "./MeshGenerator";
+import type { MultiViewStage } from "./MultiViewAligner";
+import type { GeometryBuffers, TransferableMesh } from "./GeometryTransfer";
+
+/** Bump whenever a request or result shape changes */
+export const PROTOCOL_VERSION = 6;
+
+/** Id of the readiness message a worker posts on startup */
+export const INIT_MESSAGE_ID = "__init__";
+
+// ---------- Requests ----------
+
+export interface LoadModelRequest {
+  type: "loadModel";
+  modelSize: ModelSize;
+  backend: DepthBackendId;
+  depthMode: DepthMode;
+  modelSource: ModelSource;
+  dtype: ModelDtype;
+}
+
+export interface EstimateDepthRequest {
+  type: "estimateDepth";
+  imageData: string; // base64 data-URL or object-URL (string-serialisable)
+  maxResolution: number;
+  tileGrid: number;
+  enableTTA: boolean;
+  relativeEncoding: RelativeDepthEncoding;
+  disparityShift: number;
+  postProcess: DepthPostStage[];
+}
+
+export interface PrepareDepthRequest {
+  type: "prepareDepth";
+  depth: Pick<ExternalDepth, "data" | "width" | "height" | "encoding">;
+  imageData: string;
+  maxResolution: number;
+  relativeEncoding: RelativeDepthEncoding;
+  disparityShift: number;
+  postProcess: DepthPostStage[];
+}
+
+export interface GenerateMeshRequest {
+  type: "generateMesh";
+  depthMap: Float32Array;
+  width: number;
+  height: number;
+  encoding: DepthEncoding;
+  confidence?: Float32Array;
+  options: PhotoMeshOptions;
+}
+
+export interface MultiViewRequest {
+  type: "multiView";
+  stage: MultiViewStage;
+  meshes: TransferableMesh[];
+}
+
+export interface DisposeRequest {
+  type: "dispose";
+}
+
+// ---------- Operations ----------
+
+/** Every worker operation with its request and result */
+export interface WorkerOperations {
+  loadModel: {
+    request: LoadModelRequest;
+    result: { device: InferenceDevice; alreadyLoaded: boolean };
+  };
+  estimateDepth: { request: EstimateDepthRequest; result: DepthEstimate };
+  prepareDepth: { request: PrepareDepthRequest; result: DepthEstimate };
+  generateMesh: {
+    request: GenerateMeshRequest;
+    result: {
+      geometry: GeometryBuffers;
+      normalData: Float32Array;
+      smoothingMs: number;
+      camera: CameraPose;
+      lods: Uint32Array[];
+    };
+  };
+  multiView: {
+    request: MultiViewRequest;
+    result: { meshes: TransferableMesh[] };
+  };
+  dispose: { request: DisposeRequest; result: { disposed: true } };
+}
+
+export type WorkerOperation = keyof WorkerOperations;
+
+export type WorkerRequest = WorkerOperations[WorkerOperation]["request"];
+
+export type WorkerResult<K extends WorkerOperation> =
+  WorkerOperations[K]["result"];
+
+// ---------- Messages ----------
+
+/** Bridge → worker */
+export type WorkerIncoming =
+  | (WorkerRequest & { id: string })
+  /** Aborts the running job with the same id */
+  | { type: "cancel"; id: string };
+
+/** Worker → bridge */
+export type WorkerOutgoing =
+  | { type: "ready"; id: typeof INIT_MESSAGE_ID; protocolVersion: number }
+  | { type: "progress"; id: string; message: string }
+  | {
+      [K in WorkerOperation]: {
+        type: "result";
+        id: string;
+        op: K;
+        payload: WorkerResult<K>;
+      };
+    }[WorkerOperation]
+  | {
+      type: "error";
+      id: string;
+      error: string;
+      code?: AppErrorCode;
+      details?: AppErrorDetails;
+    };
+
+// ---------- Validation ----------
+
+type FieldKind =
+  "string" | "number" | "boolean" | "array" | "object" | "float32" | "float32?";
+
+/** Fields checked on each request; nested shapes are trusted */
+const REQUEST_FIELDS: {
+  [K in WorkerOperation]: Record<
+    Exclude<keyof WorkerOperations[K]["request"], "type">,
+    FieldKind
+  >;
+} = {
+  loadModel: {
+    modelSize: "string",
+    backend: "string",
+    depthMode: "string",
+    modelSource: "string",
+    dtype: "string",
+  },
+  estimateDepth: {
+    imageData: "string",
+    maxResolution: "number",
+    tileGrid: "number",
+    enableTTA: "boolean",
+    relativeEncoding: "string",
+    disparityShift: "number",
+    postProcess: "array",
+  },
+  prepareDepth: {
+    depth: "object",
+    imageData: "string",
+    maxResolution: "number",
+    relativeEncoding: "string",
+    disparityShift: "number",
+    postProcess: "array",
+  },
+  generateMesh: {
+    depthMap: "float32",
+    width: "number",
+    height: "number",
+    encoding: "string",
+    confidence: "float32?",
+    options: "object",
+  },
+  multiView: { stage: "string", meshes: "array" },
+  dispose: {},
+};
+
+/** Fields checked on each result payload */
+const RESULT_FIELDS: {
+  [K in WorkerOperation]: Partial<
+    Record<keyof WorkerOperations[K]["result"], FieldKind>
+  >;
+} = {
+  loadModel: { device: "string", alreadyLoaded: "boolean" },
+  estimateDepth: {
+    depthMap: "float32",
+    width: "number",
+    height: "number",
+    confidence: "float32",
+    encoding: "string",
+    rawDepth: "object",
+  },
+  prepareDepth: {
+    depthMap: "float32",
+    width: "number",
+    height: "number",
+    confidence: "float32",
+    encoding: "string",
+    rawDepth: "object",
+  },
+  generateMesh: {
+    geometry: "object",
+    normalData: "float32",
+    smoothingMs: "number",
+    camera: "object",
+    lods: "array",
+  },
+  multiView: { meshes: "array" },
+  dispose: { disposed: "boolean" },
+};
+
+function isKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null;
+    case "float32":
+      return value instanceof Float32Array;
+    case "float32?":
+      return value === undefined || value instanceof Float32Array;
+    default:
+      return typeof value === kind;
+  }
+}
+
+function checkFields(
+  what: string,
+  data: Record<string, unknown>,
+  fields: Record<string, FieldKind>,
+): void {
+  for (const [name, kind] of Object.entries(fields)) {
+    if (!isKind(data[name], kind)) {
+      throw new Error(`Invalid ${what}: "${name}" is not ${kind}`);
+    }
+  }
+}
+
+function isOperation(type: unknown): type is WorkerOperation {
+  return typeof type === "string" && Object.hasOwn(REQUEST_FIELDS, type);
+}
+
+function asRecord(data: unknown, what: string): Record<string, unknown> {
+  if (typeof data !== "object" || data === null) {
+    throw new Error(`Invalid ${what}: not an object`);
+  }
+  const record = data as Record<string, unknown>;
+  if (typeof record.id !== "string") {
+    throw new Error(`Invalid ${what}: missing id`);
+  }
+  return record;
+}
+
+/**
+ * Checks a message received by the worker. Throws on unknown operations and
+ * missing or mistyped fields.
+ */
+export function parseWorkerIncoming(data: unknown): WorkerIncoming {
+  const msg = asRecord(data, "worker request");
+  if (msg.type === "cancel") return msg as WorkerIncoming;
+  if (!isOperation(msg.type)) {
+    throw new Error(`Unknown worker operation: ${String(msg.type)}`);
+  }
+  checkFields(`${msg.type} request`, msg, REQUEST_FIELDS[msg.type]);
+  return msg as WorkerIncoming;
+}
+
+/**
+ * Checks a message received from a worker. Results must name a known
+ * operation and carry its fields; the bridge matches `op` against the call.
+ */
+export function parseWorkerOutgoing(data: unknown): WorkerOutgoing {
+  const msg = asRecord(data, "worker response");
+  switch (msg.type) {
+    case "ready":
+      checkFields("ready message", msg, { protocolVersion: "number" });
+      break;
+    case "progress":
+      checkFields("progress message", msg, { message: "string" });
+      break;
+    case "error":
+      checkFields("error message", msg, { error: "string" });
+      if (msg.code !== undefined) {
+        checkFields("error message", msg, {
+          code: "string",
+          details: "object",
+        });
+      }
+      break;
+    case "result":
+      if (!isOperation(msg.op)) {
+        throw new Error(`Unknown worker operation: ${String(msg.op)}`);
+      }
+      checkFields("result message", msg, { payload: "object" });
+      checkFields(
+        `${msg.op} result`,
+        msg.payload as Record<string, unknown>,
+        RESULT_FIELDS[msg.op],
+      );
+      break;
+    default:
+      throw new Error(`Unknown worker message type: ${String(msg.type)}`);
+  }
+  return msg as WorkerOutgoing;
+}
@@ -1,27 +1,45 @@
-import { useCallback, useReducer, useRef, useEffect } from "react";
+import { useCallback, useReducer, useRef, useEffect, useState } from "react";
 import type {
+  PhotoError,
   PhotoFile,
   ProcessedMesh,
   AppState,
   AppAction,
   QualitySettings,
   ModelSize,
+  ProcessingProgress,
+  TimedPhase,
 } from "../types";
 import { DEFAULT_QUALITY } from "../types";
+import { getDeviceInfo } from "../engine/DepthEstimator";
 import {
-  loadModel,
-  estimateDepth,
-  disposeModel,
-} from "../engine/DepthEstimator";
+  disposeWorker,
+  estimateDepthViaWorker,
+  generateMeshViaWorker,
+  getWorkerStatus,
+  initWorkerPool,
+  loadModelViaWorker,
+  multiViewViaWorker,
+  prepareDepthViaWorker,
+  recommendedPoolSize,
+} from "../engine/WorkerBridge";
+import { estimateModelCost } from "../engine/ModelEstimates";
+import { createRunTimer } from "../engine/RunTelemetry";
+import { abortError, isAbortError } from "../engine/Abort";
+import { ImageDecodeError, errorInfo } from "../engine/Errors";
+import { createNormalTexture } from "../engine/MeshGenerator";
+import { packGeometry, unpackGeometry } from "../engine/GeometryTransfer";
 import {
-  generateDepthMesh,
-  smoothMesh,
-  generateNormalMapFromDepth,
-  createNormalTexture,
-} from "../engine/MeshGenerator";
-import { alignMeshes, mergePointClouds } from "../engine/MultiViewAligner";
-import { PersistenceService } from "../engine/Persistence";
+  PersistenceService,
+  type ResumableRun,
+  type RunPhotoResult,
+} from "../engine/Persistence";
 import { extractCameraIntrinsics } from "../engine/ExifParser";
+import {
+  extractEmbeddedDepth,
+  importDepthFile,
+  type DepthImportOptions,
+} from "../engine/DepthMapImporter";
 
 const initialState: AppState = {
   step: "upload",
@@ -29,13 +47,19 @@ const initialState: AppState = {
   meshes: [],
   progress: null,
   error: null,
+  photoErrors: [],
   qualitySettings: { ...DEFAULT_QUALITY },
   viewMode: "textured",
   showGrid: true,
   depthScale: 1.5,
   selectedMeshIndex: 0,
+  timingReport: null,
 };
 
+/** The user's answer to a failed photo, shown in the ProcessingView */
+type FailureAction =
+  { type: "retry" | "skip"; photoId: string } | { type: "skip-all" };
+
 function reducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case "ADD_PHOTOS":
@@ -50,6 +74,16 @@ function reducer(state: AppState, action: AppAction): AppState {
         photos: state.photos.filter((p) => p.id !== action.id),
         error: null,
       };
+    case "SET_PHOTO_DEPTH":
+      return {
+        ...state,
+        photos: state.photos.map((p) =>
+          p.id === action.id
+            ? { ...p, externalDepth: action.depth ?? undefined }
+            : p,
+        ),
+        error: null,
+      };
     case "CLEAR_PHOTOS":
       state.photos.forEach((p) => URL.revokeObjectURL(p.url));
       return { ...state, photos: [], meshes: [], error: null };
@@ -59,6 +93,10 @@ function reducer(state: AppState, action: AppAction): AppState {
       return { ...state, progress: action.progress };
     case "SET_ERROR":
       return { ...state, error: action.error };
+    case "SET_PHOTO_ERRORS":
+      return { ...state, photoErrors: action.errors };
+    case "SET_TIMING_REPORT":
+      return { ...state, timingReport: action.report };
     case "ADD_MESH":
       return { ...state, meshes: [...state.meshes, action.mesh] };
     case "SET_MESHES":
@@ -78,7 +116,7 @@ function reducer(state: AppState, action: AppAction): AppState {
       return { ...state, selectedMeshIndex: action.index };
     case "RESET":
       state.photos.forEach((p) => URL.revokeObjectURL(p.url));
-      disposeModel();
+      disposeWorker();
       PersistenceService.clearState(); // Clear IDB
       PersistenceService.clearAppCache(); // Clear PWA cache
       return { ...initialState };
@@ -92,16 +130,37 @@ function reducer(state: AppState, action: AppAction): AppState {
 export function useAppState() {
   const [state, dispatch] = useReducer(reducer, initialState);
   const cancelRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Retry/skip clicks, queued until the run gets to them
+  const failureActionsRef = useRef<FailureAction[]>([]);
+  const failureWaiterRef = useRef<(() => void) | null>(null);
+  // An unfinished run from an earlier session or a cancelled one
+  const [resumableRun, setResumableRun] = useState<ResumableRun | null>(null);
 
   // Load persisted state on mount
   useEffect(() => {
-    PersistenceService.loadState().then((persistedState) => {
+    PersistenceService.loadState().then(async (persistedState) => {
       if (persistedState) {
         dispatch({ type: "RESTORE_STATE", state: persistedState });
       }
+      // Only offer to resume while every photo of the run is still there
+      const run = await PersistenceService.loadRun();
+      const photoIds = new Set(persistedState?.photos.map((p) => p.id));
+      if (
+        run &&
+        run.results.size > 0 &&
+        run.manifest.photoIds.every((id) => photoIds.has(id))
+      ) {
+        setResumableRun(run);
+      }
     });
   }, []);
 
+  // Nothing left to resume once the photos are cleared
+  useEffect(() => {
+    if (state.photos.length === 0) setResumableRun(null);
+  }, [state.photos.length]);
+
   // Save state on change (Debounced 1s)
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -114,18 +173,23 @@ export function useAppState() {
 
   const addPhotos = useCallback(
     async (files: FileList | File[]) => {
-      try {
-        const fileArray = Array.from(files);
-        const remaining = 50 - state.photos.length;
-        const toAdd = fileArray.slice(0, remaining);
-
-        const newPhotos: PhotoFile[] = await Promise.all(
-          toAdd.map(async (file) => {
-            const url = URL.createObjectURL(file);
-            const [{ width, height }, cameraIntrinsics] = await Promise.all([
-              getImageDimensions(url),
-              extractCameraIntrinsics(file),
-            ]);
+      const fileArray = Array.from(files);
+      const remaining = 50 - state.photos.length;
+      const toAdd = fileArray.slice(0, remaining);
+
+      // Each file loads on its own, so one unreadable file doesn't hold
+      // back the rest of the batch
+      let failure: ImageDecodeError | null = null;
+      const loaded = await Promise.all(
+        toAdd.map(async (file): Promise<PhotoFile | null> => {
+          const url = URL.createObjectURL(file);
+          try {
+            const [{ width, height }, cameraIntrinsics, externalDepth] =
+              await Promise.all([
+                getImageDimensions(url),
+                extractCameraIntrinsics(file),
+                extractEmbeddedDepth(file),
+              ]);
             return {
               id:
                 Math.random().toString(36).substring(2, 15) +
@@ -138,182 +202,438 @@ export function useAppState() {
               width,
               height,
               ...(cameraIntrinsics ? { cameraIntrinsics } : {}),
+              ...(externalDepth ? { externalDepth } : {}),
             };
-          }),
-        );
+          } catch (e) {
+            URL.revokeObjectURL(url);
+            failure ??=
+              e instanceof ImageDecodeError
+                ? e
+                : new ImageDecodeError(file.name, e);
+            return null;
+          }
+        }),
+      );
 
+      const newPhotos = loaded.filter((p): p is PhotoFile => p !== null);
+      if (newPhotos.length > 0) {
         dispatch({ type: "ADD_PHOTOS", photos: newPhotos });
+      }
+      if (failure) dispatch({ type: "SET_ERROR", error: errorInfo(failure) });
+    },
+    [state.photos.length],
+  );
+
+  const attachDepth = useCallback(
+    async (photoId: string, file: File, options?: DepthImportOptions) => {
+      try {
+        const depth = await importDepthFile(file, options);
+        dispatch({ type: "SET_PHOTO_DEPTH", id: photoId, depth });
       } catch (e) {
         dispatch({
           type: "SET_ERROR",
-          error: "Fotoğraflar eklenirken bir hata oluştu.",
+          error: errorInfo(new ImageDecodeError(file.name, e, { photoId })),
         });
       }
     },
-    [state.photos.length],
+    [],
+  );
+
+  /** Resolves with the next retry/skip choice for a failed photo */
+  const nextFailureAction = useCallback(
+    (signal: AbortSignal): Promise<FailureAction> =>
+      new Promise((resolve, reject) => {
+        const take = () => {
+          const action = failureActionsRef.current.shift();
+          if (!action) return false;
+          signal.removeEventListener("abort", onAbort);
+          failureWaiterRef.current = null;
+          resolve(action);
+          return true;
+        };
+        const onAbort = () => {
+          failureWaiterRef.current = null;
+          reject(abortError());
+        };
+        if (signal.aborted) return onAbort();
+        if (take()) return;
+        signal.addEventListener("abort", onAbort, { once: true });
+        failureWaiterRef.current = take;
+      }),
+    [],
   );
 
   const startProcessing = useCallback(
-    async (modelSize: ModelSize = "large") => {
-      if (state.photos.length < 1) return;
+    async (modelSize: ModelSize = "large", resume?: ResumableRun) => {
+      // A resumed run keeps its photos and settings and skips saved photos
+      const photos = resume
+        ? state.photos.filter((p) => resume.manifest.photoIds.includes(p.id))
+        : state.photos;
+      if (photos.length < 1) return;
 
       // Always use max quality with selected model size
-      const qs: QualitySettings = { ...state.qualitySettings, modelSize };
-      dispatch({ type: "SET_QUALITY", settings: { modelSize } });
+      const qs: QualitySettings = resume
+        ? resume.manifest.qualitySettings
+        : { ...state.qualitySettings, modelSize };
+      const depthScale = resume ? resume.manifest.depthScale : state.depthScale;
+      const saved = resume?.results ?? new Map<string, RunPhotoResult>();
+      dispatch({ type: "SET_QUALITY", settings: resume ? qs : { modelSize } });
+      dispatch({ type: "SET_DEPTH_SCALE", scale: depthScale });
+      setResumableRun(null);
       cancelRef.current = false;
-      dispatch({ type: "SET_STEP", step: "processing" });
-      dispatch({
-        type: "SET_PROGRESS",
-        progress: {
-          current: 0,
-          total: state.photos.length,
-          percentage: 0,
-          currentPhotoName: "",
-          phase: "loading-model",
+      const abort = new AbortController();
+      abortRef.current = abort;
+
+      // Alignment and merging only run over more than one photo
+      const tailPhases: TimedPhase[] = [];
+      if (photos.length > 1 && qs.enableMultiView) tailPhases.push("aligning");
+      if (photos.length > 1 && qs.enablePointCloud) tailPhases.push("merging");
+      const timer = createRunTimer({
+        photoCount: photos.length,
+        concurrency: () => {
+          const status = getWorkerStatus();
+          return status.mode === "worker" ? status.poolSize : 1;
         },
+        tailPhases,
+        previous: state.timingReport,
       });
+      const total = photos.length;
+      let completed = 0;
 
-      try {
-        // Phase 1: Load model
-        await loadModel(qs.modelSize, (msg) => {
-          dispatch({
-            type: "SET_PROGRESS",
-            progress: {
-              current: 0,
-              total: state.photos.length,
-              percentage: 0,
-              currentPhotoName: msg,
-              phase: "loading-model",
+      // Progress and ETA come from the timer; a tick keeps the ETA current
+      // between events
+      let lastUpdate: Pick<ProcessingProgress, "currentPhotoName" | "phase">;
+      const publish = (
+        update: Pick<ProcessingProgress, "currentPhotoName" | "phase">,
+      ) => {
+        lastUpdate = update;
+        dispatch({
+          type: "SET_PROGRESS",
+          progress: {
+            ...update,
+            current: completed,
+            total,
+            percentage: timer.percentage(completed),
+            estimatedTimeRemaining: timer.eta(completed),
+            phaseDurations: timer.phaseDurations(),
+          },
+        });
+      };
+      const saveTimingReport = () => {
+        const { mode, poolSize } = getWorkerStatus();
+        dispatch({
+          type: "SET_TIMING_REPORT",
+          report: timer.report({
+            completedPhotos: completed,
+            mode,
+            poolSize,
+            settings: {
+              modelSize: qs.modelSize,
+              modelDtype: qs.modelDtype,
+              depthBackend: qs.depthBackend,
+              maxResolution: qs.maxResolution,
+              tileGrid: qs.tileGrid,
+              enableTTA: qs.enableTTA,
+              smoothingIterations: qs.enableSmoothing
+                ? qs.smoothingIterations
+                : 0,
             },
-          });
+          }),
         });
+      };
 
-        const meshes: ProcessedMesh[] = [];
+      dispatch({ type: "SET_STEP", step: "processing" });
+      publish({ currentPhotoName: "", phase: "loading-model" });
+      const ticker = setInterval(() => publish(lastUpdate), 1000);
 
-        // Phase 2: Estimate depth + generate mesh for each photo
-        for (let i = 0; i < state.photos.length; i++) {
-          if (cancelRef.current) {
-            dispatch({ type: "SET_STEP", step: "upload" });
-            dispatch({ type: "SET_PROGRESS", progress: null });
-            return;
-          }
+      try {
+        // Record the run so finished photos survive a reload
+        if (!resume) {
+          await PersistenceService.startRun({
+            id: crypto.randomUUID(),
+            startedAt: Date.now(),
+            qualitySettings: qs,
+            depthScale,
+            photoIds: photos.map((p) => p.id),
+          }).catch((err) => console.warn("Saving run manifest failed:", err));
+        }
 
-          const photo = state.photos[i];
-          dispatch({
-            type: "SET_PROGRESS",
-            progress: {
-              current: i,
-              total: state.photos.length,
-              percentage: Math.round((i / state.photos.length) * 70),
-              currentPhotoName: photo.name,
-              phase: "estimating",
-            },
-          });
+        // One worker per spare core, as far as the model copies fit in memory
+        const poolSize = recommendedPoolSize(
+          qs.depthBackend === "transformers"
+            ? estimateModelCost(
+                qs.modelSize,
+                qs.modelDtype,
+                getDeviceInfo().device,
+              ).ramBytes
+            : 0,
+        );
 
-          const { depthMap, width, height } = await estimateDepth(
-            photo.url,
-            qs.maxResolution,
+        // Phase 1: Load model — not needed when every photo brings its depth
+        const needsModel = photos.some(
+          (p) => !p.externalDepth && !saved.has(p.id),
+        );
+        if (needsModel) {
+          const endLoad = timer.begin("loading-model");
+          await loadModelViaWorker(
+            qs.modelSize,
+            (msg) => publish({ currentPhotoName: msg, phase: "loading-model" }),
+            abort.signal,
+            {
+              backend: qs.depthBackend,
+              depthMode: qs.depthMode,
+              modelSource: qs.modelSource,
+              dtype: qs.modelDtype,
+              poolSize,
+            },
           );
+          endLoad();
+        } else {
+          await initWorkerPool(poolSize);
+        }
 
-          dispatch({
-            type: "SET_PROGRESS",
-            progress: {
-              current: i,
-              total: state.photos.length,
-              percentage: Math.round(((i + 0.5) / state.photos.length) * 70),
-              currentPhotoName: photo.name,
-              phase: "generating-mesh",
+        const meshes: ProcessedMesh[] = new Array(total);
+        const photoPhase = new Map<string, "estimating" | "generating-mesh">();
+        const report = (
+          photo: PhotoFile,
+          phase: "estimating" | "generating-mesh",
+        ) => {
+          photoPhase.set(photo.id, phase);
+          publish({ currentPhotoName: photo.name, phase });
+        };
+
+        const depthOptions = {
+          tileGrid: qs.tileGrid,
+          enableTTA: qs.enableTTA,
+          relativeEncoding: qs.relativeEncoding,
+          disparityShift: qs.disparityShift,
+          postProcess: qs.postProcess,
+        };
+
+        // Phase 2: Estimate depth + generate mesh for each photo. Jobs are
+        // queued on the worker pool and run in parallel; each photo's mesh
+        // job follows as soon as its depth arrives.
+        const buildPhoto = async (
+          photo: PhotoFile,
+        ): Promise<RunPhotoResult> => {
+          // Spans start once a worker picks the job up, not while it queues
+          const span: { end?: (nestedMs?: number) => void } = {};
+          const job = (phase: TimedPhase) => ({
+            label: photo.name,
+            onStart: () => {
+              span.end = timer.begin(phase, photo);
             },
           });
 
-          let geometry = generateDepthMesh({
-            depthMap,
-            width,
-            height,
-            depthScale: state.depthScale,
-            enhancedNormals: qs.enableEnhancedNormals,
-            perspective: qs.enablePerspective,
-            stretchRemoval: qs.enableStretchRemoval,
-            stretchThreshold: qs.stretchThreshold,
-            fov: photo.cameraIntrinsics?.fov,
-            cameraIntrinsics: photo.cameraIntrinsics,
-          });
+          report(photo, "estimating");
+
+          const { depthMap, width, height, encoding, rawDepth, confidence } =
+            photo.externalDepth
+              ? await prepareDepthViaWorker(
+                  photo.externalDepth,
+                  photo.url,
+                  qs.maxResolution,
+                  undefined,
+                  abort.signal,
+                  depthOptions,
+                  job("estimating"),
+                )
+              : await estimateDepthViaWorker(
+                  photo.url,
+                  qs.maxResolution,
+                  undefined,
+                  abort.signal,
+                  depthOptions,
+                  job("estimating"),
+                );
+          span.end?.();
 
-          // Phase 3: Smoothing (if enabled)
-          if (qs.enableSmoothing) {
-            dispatch({
-              type: "SET_PROGRESS",
-              progress: {
-                current: i,
-                total: state.photos.length,
-                percentage: Math.round(((i + 0.7) / state.photos.length) * 70),
-                currentPhotoName: photo.name,
-                phase: "smoothing",
+          // Phase 3: Mesh, smoothing (if enabled) and normal map, also on
+          // the pool
+          report(photo, "generating-mesh");
+          const { geometry, normalData, smoothingMs, camera, lods } =
+            await generateMeshViaWorker(
+              { depthMap, width, height, encoding, confidence },
+              {
+                depthScale,
+                enhancedNormals: qs.enableEnhancedNormals,
+                perspective: qs.enablePerspective,
+                stretchRemoval: qs.enableStretchRemoval,
+                stretchThreshold: qs.stretchThreshold,
+                fov: photo.cameraIntrinsics?.fov,
+                cameraIntrinsics: photo.cameraIntrinsics,
+                confidenceThreshold: qs.confidenceThreshold,
+                confidenceMode: qs.confidenceMode,
+                smoothingIterations: qs.enableSmoothing
+                  ? qs.smoothingIterations
+                  : 0,
+                triangleBudget: qs.triangleBudget,
+                levelsOfDetail: true,
               },
-            });
-            geometry = smoothMesh(geometry, qs.smoothingIterations);
-          }
+              undefined,
+              abort.signal,
+              job("generating-mesh"),
+            );
+          span.end?.(smoothingMs);
+          if (smoothingMs > 0) timer.record("smoothing", smoothingMs, photo);
 
-          // Generate normal map from depth data
-          const normalData = generateNormalMapFromDepth(
-            depthMap,
-            width,
-            height,
-            1.5,
-          );
-          const normalTexture = createNormalTexture(normalData, width, height);
+          return {
+            depth: {
+              photoId: photo.id,
+              depthMap,
+              width,
+              height,
+              encoding,
+              confidence,
+              rawDepth,
+            },
+            geometry: packGeometry(geometry),
+            normalData,
+            camera,
+            lods,
+          };
+        };
 
-          meshes.push({
+        // Photos finished before a reload come straight from IndexedDB
+        const processPhoto = async (photo: PhotoFile, i: number) => {
+          let result = saved.get(photo.id);
+          if (!result) {
+            result = await buildPhoto(photo);
+            timer.photoDone();
+            // Saved before the multi-view stages take the buffers
+            await PersistenceService.savePhotoResult(photo.id, result).catch(
+              (err) => console.warn("Saving photo result failed:", err),
+            );
+          }
+
+          // Only the texture upload stays on the main thread
+          const { depth, geometry, normalData, camera, lods } = result;
+          meshes[i] = {
             photoId: photo.id,
-            geometry,
+            geometry: unpackGeometry(geometry),
             textureUrl: photo.url,
-            depthMap,
-            width,
-            height,
-            normalMap: normalTexture,
-          });
-        }
+            depthMap: depth.depthMap,
+            width: depth.width,
+            height: depth.height,
+            normalMap: createNormalTexture(
+              normalData,
+              depth.width,
+              depth.height,
+            ),
+            encoding: depth.encoding,
+            rawDepth: depth.rawDepth,
+            confidence: depth.confidence,
+            ...(camera ? { camera } : {}),
+            ...(lods ? { lods } : {}),
+          };
+          completed++;
+        };
 
-        // Phase 4: Multi-view alignment (if enabled)
-        let finalMeshes = meshes;
-        if (qs.enableMultiView && meshes.length > 1) {
+        // A failed photo is set aside with its error; the batch carries on
+        const failures = new Map<string, PhotoError>();
+        const publishFailures = () =>
           dispatch({
-            type: "SET_PROGRESS",
-            progress: {
-              current: state.photos.length,
-              total: state.photos.length,
-              percentage: 80,
-              currentPhotoName: "Mesh'ler hizalanıyor...",
-              phase: "aligning",
+            type: "SET_PHOTO_ERRORS",
+            errors: [...failures.values()],
+          });
+        const attempt = (photo: PhotoFile, i: number) =>
+          processPhoto(photo, i).then(
+            () => {
+              if (failures.delete(photo.id)) publishFailures();
+            },
+            (err) => {
+              if (isAbortError(err) || abort.signal.aborted) throw err;
+              console.warn(`Photo ${photo.name} failed:`, err);
+              completed++;
+              timer.photoDone();
+              failures.set(
+                photo.id,
+                describePhotoError(photo, err, photoPhase.get(photo.id)),
+              );
+              publishFailures();
             },
+          );
+
+        failureActionsRef.current = [];
+        dispatch({ type: "SET_PHOTO_ERRORS", errors: [] });
+        await Promise.all(photos.map((photo, i) => attempt(photo, i)));
+
+        // Failed photos wait for the user to retry or skip them
+        if (failures.size > 0) {
+          publish({
+            currentPhotoName: "Başarısız fotoğraflar için seçim bekleniyor",
+            phase: "generating-mesh",
+          });
+        }
+        while (failures.size > 0) {
+          const action = await nextFailureAction(abort.signal);
+          if (action.type === "skip-all") {
+            failures.clear();
+          } else if (action.type === "skip") {
+            failures.delete(action.photoId);
+          } else {
+            const failed = failures.get(action.photoId);
+            const i = photos.findIndex((p) => p.id === action.photoId);
+            if (!failed || i < 0) continue;
+            failures.set(action.photoId, { ...failed, retrying: true });
+            publishFailures();
+            completed--;
+            await attempt(photos[i], i);
+          }
+          publishFailures();
+        }
+
+        // Phase 4: Multi-view alignment (if enabled), over the photos that
+        // made it
+        let finalMeshes = meshes.filter(Boolean);
+        if (finalMeshes.length === 0) {
+          throw new Error("Hiçbir fotoğraf işlenemedi.");
+        }
+        if (qs.enableMultiView && finalMeshes.length > 1) {
+          publish({
+            currentPhotoName: "Mesh'ler hizalanıyor...",
+            phase: "aligning",
           });
-          finalMeshes = alignMeshes(meshes);
+          const endAlign = timer.begin("aligning");
+          finalMeshes = await multiViewViaWorker(
+            finalMeshes,
+            "align",
+            undefined,
+            abort.signal,
+          );
+          endAlign();
         }
 
         // Phase 5: Point cloud merge (if enabled)
         if (qs.enablePointCloud && finalMeshes.length > 1) {
-          dispatch({
-            type: "SET_PROGRESS",
-            progress: {
-              current: state.photos.length,
-              total: state.photos.length,
-              percentage: 90,
-              currentPhotoName: "Point cloud birleştiriliyor...",
-              phase: "merging",
-            },
+          publish({
+            currentPhotoName: "Point cloud birleştiriliyor...",
+            phase: "merging",
           });
-          finalMeshes = mergePointClouds(finalMeshes);
+          const endMerge = timer.begin("merging");
+          finalMeshes = await multiViewViaWorker(
+            finalMeshes,
+            "merge",
+            undefined,
+            abort.signal,
+          );
+          endMerge();
         }
 
         dispatch({ type: "SET_MESHES", meshes: finalMeshes });
+        PersistenceService.finishRun();
+        clearInterval(ticker);
+        saveTimingReport();
         dispatch({
           type: "SET_PROGRESS",
           progress: {
-            current: state.photos.length,
-            total: state.photos.length,
+            current: photos.length,
+            total: photos.length,
             percentage: 100,
             currentPhotoName: "Tamamlandı!",
             phase: "complete",
+            estimatedTimeRemaining: 0,
+            phaseDurations: timer.phaseDurations(),
           },
         });
 
@@ -322,51 +642,86 @@ export function useAppState() {
           dispatch({ type: "SET_PROGRESS", progress: null });
         }, 800);
       } catch (error: any) {
-        console.error("Processing error:", error);
-        let errorMessage = "İşlem sırasında beklenmeyen bir hata oluştu.";
-
-        if (error instanceof Error) {
-          if (
-            error.message.includes("memory") ||
-            error.message.includes("allocation")
-          ) {
-            errorMessage =
-              "Cihaz hafızası doldu. Daha az fotoğraf veya 'Low Res' deneyin.";
-          } else if (
-            error.message.includes("fetch") ||
-            error.message.includes("network")
-          ) {
-            errorMessage =
-              "Model indirilemedi. İnternet bağlantınızı kontrol edin.";
-          } else if (
-            error.message.includes("context") ||
-            error.message.includes("webgl")
-          ) {
-            errorMessage =
-              "WebGL bağlamı oluşturulamadı. Tarayıcınızı güncelleyin.";
-          } else {
-            errorMessage = `Hata detayı: ${error.message}`;
-          }
+        clearInterval(ticker);
+        dispatch({ type: "SET_PHOTO_ERRORS", errors: [] });
+
+        // Whatever finished so far can be picked up again
+        PersistenceService.loadRun().then((run) => {
+          if (run && run.results.size > 0) setResumableRun(run);
+        });
+
+        if (cancelRef.current) {
+          dispatch({ type: "SET_STEP", step: "upload" });
+          dispatch({ type: "SET_PROGRESS", progress: null });
+          return;
         }
 
-        dispatch({ type: "SET_ERROR", error: errorMessage });
+        console.error("Processing error:", error);
+        saveTimingReport();
+        dispatch({ type: "SET_ERROR", error: errorInfo(error) });
         dispatch({ type: "SET_STEP", step: "upload" });
         dispatch({ type: "SET_PROGRESS", progress: null });
       }
     },
-    [state.photos, state.depthScale, state.qualitySettings],
+    [
+      state.photos,
+      state.depthScale,
+      state.qualitySettings,
+      state.timingReport,
+      nextFailureAction,
+    ],
   );
 
   const cancelProcessing = useCallback(() => {
     cancelRef.current = true;
+    abortRef.current?.abort();
+  }, []);
+
+  const resolveFailure = useCallback((action: FailureAction) => {
+    failureActionsRef.current.push(action);
+    failureWaiterRef.current?.();
+  }, []);
+
+  const retryPhoto = useCallback(
+    (photoId: string) => resolveFailure({ type: "retry", photoId }),
+    [resolveFailure],
+  );
+  const skipPhoto = useCallback(
+    (photoId: string) => resolveFailure({ type: "skip", photoId }),
+    [resolveFailure],
+  );
+  const skipFailedPhotos = useCallback(
+    () => resolveFailure({ type: "skip-all" }),
+    [resolveFailure],
+  );
+
+  const resumeProcessing = useCallback(() => {
+    if (resumableRun) {
+      startProcessing(
+        resumableRun.manifest.qualitySettings.modelSize,
+        resumableRun,
+      );
+    }
+  }, [resumableRun, startProcessing]);
+
+  const dismissResume = useCallback(() => {
+    setResumableRun(null);
+    PersistenceService.finishRun();
   }, []);
 
   return {
     state,
     dispatch,
     addPhotos,
+    attachDepth,
     startProcessing,
     cancelProcessing,
+    retryPhoto,
+    skipPhoto,
+    skipFailedPhotos,
+    resumableRun,
+    resumeProcessing,
+    dismissResume,
   };
 }
 
@@ -380,3 +735,29 @@ function getImageDimensions(
     img.src = url;
   });
 }
+
+/** Sorts a photo's failure into what the user can do something about */
+function describePhotoError(
+  photo: PhotoFile,
+  err: unknown,
+  phase?: "estimating" | "generating-mesh",
+): PhotoError {
+  const { code, message } = errorInfo(err);
+
+  let kind: PhotoError["kind"];
+  switch (code) {
+    case "out-of-memory":
+      kind = "oom";
+      break;
+    case "image-decode":
+      kind = "decode";
+      break;
+    case "model-download":
+      kind = "model";
+      break;
+    default:
+      kind = phase === "generating-mesh" ? "mesh" : "model";
+  }
+
+  return { photoId: photo.id, photoName: photo.name, kind, message };
+}
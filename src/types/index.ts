@@ -7,6 +7,27 @@ export interface CameraIntrinsics {
   aspectRatio: number;
 }
 
+/**
+ * Pinhole camera a depth mesh was back-projected through. Intrinsics are
+ * in pixels of the depth map it was built from.
+ */
+export interface CameraPose {
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+  /** Depth map size the intrinsics refer to */
+  width: number;
+  height: number;
+  /** "orthographic" when perspective was turned off for a relative mesh */
+  projection: "perspective" | "orthographic";
+  /**
+   * Camera-to-mesh transform as column-major 4×4 elements (three.js
+   * `Matrix4.toArray()`); the camera looks down its -Z with +Y up.
+   */
+  matrix: number[];
+}
+
 export interface PhotoFile {
   id: string;
   file: File;
@@ -17,6 +38,22 @@ export interface PhotoFile {
   width: number;
   height: number;
   cameraIntrinsics?: CameraIntrinsics;
+  /** Depth supplied with the photo — estimation is skipped when present */
+  externalDepth?: ExternalDepth;
+}
+
+export type ExternalDepthSource =
+  "png" | "exr" | "npy" | "apple-portrait" | "google-depth";
+
+/** Depth map imported from a file or embedded in the photo */
+export interface ExternalDepth {
+  source: ExternalDepthSource;
+  fileName: string;
+  data: Float32Array;
+  width: number;
+  height: number;
+  /** "metric" for sensor depth, "disparity" for normalized relative maps */
+  encoding: Exclude<DepthEncoding, "depth">;
 }
 
 /** Depth estimation result including optional per-pixel confidence map */
@@ -26,6 +63,16 @@ export interface DepthResult {
   width: number;
   height: number;
   confidence?: Float32Array;
+  encoding: DepthEncoding;
+}
+
+/** Downsampled copy of a depth map, e.g. for previews */
+export interface DepthSnapshot {
+  data: Float32Array;
+  width: number;
+  height: number;
+  /** Width of the map the copy was taken from */
+  sourceWidth: number;
 }
 
 export interface ProcessedMesh {
@@ -36,10 +83,61 @@ export interface ProcessedMesh {
   width: number;
   height: number;
   normalMap?: any;
+  /**
+   * Encoding of `depthMap`. For "metric" the geometry is in meters (camera at
+   * the origin looking down -Z); missing means "disparity".
+   */
+  encoding?: DepthEncoding;
+  /** Normalized depth before post-processing, for the stage preview */
+  rawDepth?: DepthSnapshot;
+  /**
+   * Per-pixel confidence (0–1) at depthMap resolution. The geometry carries
+   * it per vertex as the "confidence" attribute.
+   */
+  confidence?: Float32Array;
+  /** Camera the geometry was back-projected through, moved with alignment */
+  camera?: CameraPose;
+  /**
+   * Coarser levels of detail, finest first: index buffers over the
+   * geometry's own vertices, each with about a quarter of the triangles
+   */
+  lods?: Uint32Array[];
 }
 
 export type ModelSize = "small" | "base" | "large";
 
+/**
+ * Where model weights are fetched from: the Hugging Face Hub, or the app's
+ * own `/models/` path (nginx), falling back to the Hub for missing files.
+ */
+export type ModelSource = "hub" | "self-hosted";
+
+/**
+ * Weight precision of the ONNX export: full fp32, half-precision fp16, or
+ * 8-/4-bit quantized. Lower precision downloads faster and uses less RAM.
+ */
+export type ModelDtype = "fp32" | "fp16" | "q8" | "q4";
+
+/**
+ * "relative" yields unitless depth; the metric modes use the Depth Anything V2
+ * metric checkpoints and keep absolute distances in meters.
+ */
+export type DepthMode = "relative" | "metric-indoor" | "metric-outdoor";
+
+/**
+ * How the values of a depth map are to be read:
+ * - "disparity": normalized inverse depth, higher = nearer (raw relative output)
+ * - "depth": normalized depth, 0 = nearest, 1 = farthest
+ * - "metric": distance from the camera in meters
+ */
+export type DepthEncoding = "disparity" | "depth" | "metric";
+
+/** Encodings a relative (unitless) depth map can be converted into */
+export type RelativeDepthEncoding = Exclude<DepthEncoding, "metric">;
+
+/** Depth inference backend — "synthetic" runs fully offline without a model */
+export type DepthBackendId = "transformers" | "synthetic";
+
 export interface QualityEnhancement {
   id: string;
   label: string;
@@ -51,9 +149,57 @@ export interface QualityEnhancement {
   timeEstimate: string;
 }
 
+/**
+ * What happens to vertices below the confidence threshold: "drop" removes
+ * their triangles, "weight" pulls them toward confident neighbours.
+ */
+export type ConfidenceMode = "drop" | "weight";
+
+export type DepthPostStageKind =
+  "bilateral" | "median" | "holeFill" | "sharpen" | "jbu";
+
+/**
+ * One step of the depth post-processing chain. `radius` is the window
+ * half-size in depth-map pixels; `sigma` is the range sigma (bilateral),
+ * color sigma (jbu) or gain (sharpen). A bilateral radius or sigma of 0
+ * adapts to the map size.
+ */
+export interface DepthPostStage {
+  kind: DepthPostStageKind;
+  enabled: boolean;
+  radius: number;
+  sigma: number;
+}
+
+export const DEFAULT_POST_PROCESS: DepthPostStage[] = [
+  { kind: "bilateral", enabled: true, radius: 0, sigma: 0 },
+  { kind: "median", enabled: true, radius: 1, sigma: 0 },
+  { kind: "holeFill", enabled: true, radius: 2, sigma: 0 },
+  { kind: "bilateral", enabled: true, radius: 0, sigma: 0 },
+  { kind: "sharpen", enabled: false, radius: 1, sigma: 0.3 },
+  { kind: "jbu", enabled: true, radius: 2, sigma: 30 },
+];
+
 export interface QualitySettings {
   modelSize: ModelSize;
+  depthBackend: DepthBackendId;
+  depthMode: DepthMode;
+  modelSource: ModelSource;
+  modelDtype: ModelDtype;
+  /** Encoding relative maps are converted into before meshing */
+  relativeEncoding: RelativeDepthEncoding;
+  /** Shift added to normalized disparity before inversion — larger is flatter */
+  disparityShift: number;
   maxResolution: number;
+  /** Tiles per side for high-resolution inference; 1 disables tiling */
+  tileGrid: number;
+  /** Test-time augmentation: flipped + multi-scale passes, ~4× slower */
+  enableTTA: boolean;
+  /** Ordered depth refinement stages run between inference and meshing */
+  postProcess: DepthPostStage[];
+  /** Vertices with lower depth confidence are handled by confidenceMode; 0 disables */
+  confidenceThreshold: number;
+  confidenceMode: ConfidenceMode;
   enableSmoothing: boolean;
   smoothingIterations: number;
   enableMultiView: boolean;
@@ -62,6 +208,8 @@ export interface QualitySettings {
   enablePerspective: boolean;
   enableStretchRemoval: boolean;
   stretchThreshold: number;
+  /** Triangles per photo mesh after simplification; 0 keeps the full grid */
+  triangleBudget: number;
   pointSize: number;
   roughness: number;
   metalness: number;
@@ -70,7 +218,18 @@ export interface QualitySettings {
 
 export const DEFAULT_QUALITY: QualitySettings = {
   modelSize: "large",
+  depthBackend: "transformers",
+  depthMode: "relative",
+  modelSource: "hub",
+  modelDtype: "fp32",
+  relativeEncoding: "depth",
+  disparityShift: 0.1,
   maxResolution: 1536,
+  tileGrid: 1,
+  enableTTA: false,
+  postProcess: DEFAULT_POST_PROCESS,
+  confidenceThreshold: 0,
+  confidenceMode: "weight",
   enableSmoothing: true,
   smoothingIterations: 6,
   enableMultiView: true,
@@ -79,6 +238,7 @@ export const DEFAULT_QUALITY: QualitySettings = {
   enablePerspective: true,
   enableStretchRemoval: true,
   stretchThreshold: 0.12,
+  triangleBudget: 200_000,
   pointSize: 0.05,
   roughness: 0.7,
   metalness: 0.1,
@@ -87,7 +247,7 @@ export const DEFAULT_QUALITY: QualitySettings = {
 
 export const QUALITY_ENHANCEMENTS: QualityEnhancement[] = [];
 
-export type ViewMode = "textured" | "solid" | "wireframe";
+export type ViewMode = "textured" | "solid" | "wireframe" | "confidence";
 export type AppStep = "upload" | "processing" | "viewer";
 
 export interface ProcessingProgress {
@@ -103,7 +263,96 @@ export interface ProcessingProgress {
     | "aligning"
     | "merging"
     | "complete";
+  /** Milliseconds, from the measured throughput of this run */
   estimatedTimeRemaining?: number;
+  /** Milliseconds spent in each phase so far, summed over photos */
+  phaseDurations?: Partial<Record<TimedPhase, number>>;
+}
+
+/** A phase whose duration is measured; "complete" only marks the end */
+export type TimedPhase = Exclude<ProcessingProgress["phase"], "complete">;
+
+/** One measured phase, of a single photo or of the whole run */
+export interface PhaseSpan {
+  phase: TimedPhase;
+  /** Omitted for run-wide phases (model load, alignment, merge) */
+  photoId?: string;
+  photoName?: string;
+  /** Milliseconds since the run started */
+  start: number;
+  durationMs: number;
+}
+
+/** Timings of a processing run, kept for export and to seed the next ETA */
+export interface RunTimingReport {
+  startedAt: number;
+  totalMs: number;
+  photoCount: number;
+  /** Photos that finished, successfully or not */
+  completedPhotos: number;
+  mode: "worker" | "main-thread";
+  poolSize: number;
+  settings: Pick<
+    QualitySettings,
+    | "modelSize"
+    | "modelDtype"
+    | "depthBackend"
+    | "maxResolution"
+    | "tileGrid"
+    | "enableTTA"
+    | "smoothingIterations"
+  >;
+  phases: Partial<
+    Record<TimedPhase, { count: number; totalMs: number; meanMs: number }>
+  >;
+  spans: PhaseSpan[];
+}
+
+/**
+ * A processing run, persisted when it starts so it can be resumed after a
+ * reload. Photos whose results were already saved are skipped on resume.
+ */
+export interface RunManifest {
+  id: string;
+  startedAt: number;
+  /** Settings the run was started with; a resumed run keeps them */
+  qualitySettings: QualitySettings;
+  depthScale: number;
+  photoIds: string[];
+}
+
+/**
+ * Failures the user can act on; each has its own recovery actions in the
+ * ErrorDisplay. Anything else is "unknown".
+ */
+export type AppErrorCode =
+  | "model-download"
+  | "out-of-memory"
+  | "image-decode"
+  | "webgl-context-lost"
+  | "non-manifold"
+  | "unknown";
+
+export type AppErrorDetails = Record<string, string | number | boolean>;
+
+/** A typed error as stored in AppState */
+export interface AppErrorInfo {
+  code: AppErrorCode;
+  message: string;
+  details?: AppErrorDetails;
+}
+
+/** Why a photo could not be processed */
+export type PhotoErrorKind = "decode" | "oom" | "model" | "mesh";
+
+/** A photo that failed during a run; the others carry on without it */
+export interface PhotoError {
+  photoId: string;
+  photoName: string;
+  kind: PhotoErrorKind;
+  message: string;
+  /** Being processed again after the user chose to retry */
+  retrying?: boolean;
 }
 
 export interface AppState {
@@ -111,21 +360,28 @@ export interface AppState {
   photos: PhotoFile[];
   meshes: ProcessedMesh[];
   progress: ProcessingProgress | null;
-  error: string | null;
+  error: AppErrorInfo | null;
+  /** Failed photos of the running batch, awaiting retry or skip */
+  photoErrors: PhotoError[];
   qualitySettings: QualitySettings;
   viewMode: ViewMode;
   showGrid: boolean;
   depthScale: number;
   selectedMeshIndex: number;
+  /** Timings of the last processing run */
+  timingReport: RunTimingReport | null;
 }
 
 export type AppAction =
   | { type: "ADD_PHOTOS"; photos: PhotoFile[] }
   | { type: "REMOVE_PHOTO"; id: string }
+  | { type: "SET_PHOTO_DEPTH"; id: string; depth: ExternalDepth | null }
   | { type: "CLEAR_PHOTOS" }
   | { type: "SET_STEP"; step: AppStep }
   | { type: "SET_PROGRESS"; progress: ProcessingProgress | null }
-  | { type: "SET_ERROR"; error: string | null }
+  | { type: "SET_ERROR"; error: AppErrorInfo | null }
+  | { type: "SET_PHOTO_ERRORS"; errors: PhotoError[] }
+  | { type: "SET_TIMING_REPORT"; report: RunTimingReport | null }
   | { type: "ADD_MESH"; mesh: ProcessedMesh }
   | { type: "SET_MESHES"; meshes: ProcessedMesh[] }
   | { type: "SET_QUALITY"; settings: Partial<QualitySettings> }
@@ -46,6 +46,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ["@huggingface/transformers"],
   },
+  worker: {
+    // ProcessingWorker imports the inference backends dynamically
+    format: "es",
+  },
   build: {
     target: "esnext",
     rollupOptions: {